@@ -39,7 +39,9 @@ export function HeartbeatPanel() {
 
     try {
       const timestamp = BigInt(Math.floor(Date.now() / 1000));
-      const nonce = BigInt(Math.floor(Math.random() * 1000000));
+      // 64 random bits: the watchtower rejects any nonce it has already seen for this address
+      const nonceBytes = crypto.getRandomValues(new Uint8Array(8));
+      const nonce = BigInt('0x' + Array.from(nonceBytes, (b) => b.toString(16).padStart(2, '0')).join(''));
 
       const message = {
         message: 'I am alive',
@@ -61,6 +63,7 @@ export function HeartbeatPanel() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           address,
+          chainId,
           message: {
             message: message.message,
             timestamp: timestamp.toString(),
@@ -71,7 +74,8 @@ export function HeartbeatPanel() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to send heartbeat');
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.details || body?.error || 'Failed to send heartbeat');
       }
 
       setLastPing(new Date());
@@ -82,7 +86,7 @@ export function HeartbeatPanel() {
     } finally {
       setIsPinging(false);
     }
-  }, [address, signTypedDataAsync, heartbeatDomain]);
+  }, [address, chainId, signTypedDataAsync, heartbeatDomain]);
 
   // Reminder effect
   useEffect(() => {
@@ -0,0 +1,218 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Request, RequestHandler } from 'express';
+import { verifyTypedData, type Address } from 'viem';
+import type { AdminRole, Config } from './config.js';
+import { getHeartbeatStore } from './database.js';
+import { createLogger } from './logger.js';
+import { HEARTBEAT_WINDOW_SECONDS } from './yellowSignature.js';
+
+const log = createLogger('auth');
+
+// Admin requests aren't tied to a source chain, their nonces are kept under this chain id
+const ADMIN_NONCE_CHAIN_ID = 0;
+
+/**
+ * EIP-712 Domain for signed admin requests.
+ * Admin requests are not tied to a source chain, so the domain has no chainId.
+ */
+export const ADMIN_DOMAIN = {
+  name: 'Lazarus Watchtower Admin',
+  version: '1',
+} as const;
+
+/**
+ * EIP-712 Types for a signed admin request.
+ * The signature covers the method and full path (including query), so it can't be reused for another endpoint,
+ * and a nonce, so it can't be replayed against the same one.
+ */
+export const ADMIN_REQUEST_TYPES = {
+  AdminRequest: [
+    { name: 'method', type: 'string' },
+    { name: 'path', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  viewer: 0,
+  operator: 1,
+};
+
+export interface AdminIdentity {
+  actor: string;
+  role: AdminRole;
+  authMethod: 'api-key' | 'signature';
+}
+
+export interface AuthenticationResult {
+  identity?: AdminIdentity;
+  error?: string;
+}
+
+const MISSING_CREDENTIALS = 'Missing credentials';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Look up an API key from `Authorization: Bearer <key>` or `X-API-Key`
+ */
+function authenticateApiKey(req: Request, config: Config): AuthenticationResult | null {
+  const authorization = req.get('authorization');
+  const presented = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : req.get('x-api-key');
+
+  if (!presented) return null;
+
+  // Compare digests so the comparison is constant-time regardless of key length
+  const presentedDigest = digest(presented);
+  const match = config.adminApiKeys.find(k => timingSafeEqual(digest(k.key), presentedDigest));
+
+  if (!match) return { error: 'Unknown API key' };
+
+  return { identity: { actor: `api-key:${match.name}`, role: match.role, authMethod: 'api-key' } };
+}
+
+/**
+ * Verify an EIP-712 signed admin request from an allow-listed operator.
+ * Expects X-Admin-Address, X-Admin-Timestamp (unix seconds), X-Admin-Nonce and X-Admin-Signature headers.
+ * The nonce is burned once the signature checks out, so a captured request can't be sent again.
+ */
+async function authenticateSignature(req: Request, config: Config): Promise<AuthenticationResult | null> {
+  const address = req.get('x-admin-address');
+  const timestamp = req.get('x-admin-timestamp');
+  const nonce = req.get('x-admin-nonce');
+  const signature = req.get('x-admin-signature');
+
+  if (!address && !timestamp && !nonce && !signature) return null;
+
+  if (
+    !address || !timestamp || !nonce || !signature ||
+    !/^0x[a-fA-F0-9]{40}$/.test(address) || !/^\d{1,78}$/.test(timestamp) || !/^\d{1,78}$/.test(nonce)
+  ) {
+    return { error: 'Signed admin requests need X-Admin-Address, X-Admin-Timestamp, X-Admin-Nonce and X-Admin-Signature' };
+  }
+
+  const operator = config.adminOperators.find(o => o.address.toLowerCase() === address.toLowerCase());
+  if (!operator) return { error: 'Address is not an allow-listed operator' };
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const signedAt = BigInt(timestamp);
+  if (signedAt < now - HEARTBEAT_WINDOW_SECONDS || signedAt > now + HEARTBEAT_WINDOW_SECONDS) {
+    return { error: 'Admin request timestamp is too old or in the future' };
+  }
+
+  try {
+    const valid = await verifyTypedData({
+      address: address as Address,
+      domain: ADMIN_DOMAIN,
+      types: ADMIN_REQUEST_TYPES,
+      primaryType: 'AdminRequest',
+      message: {
+        method: req.method,
+        path: req.originalUrl,
+        timestamp: signedAt,
+        nonce: BigInt(nonce),
+      },
+      signature: signature as `0x${string}`,
+    });
+
+    if (!valid) return { error: 'Admin signature verification failed' };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown error during verification' };
+  }
+
+  // Nonces outside the window are dropped first, the timestamp check above already rejects them
+  const store = getHeartbeatStore();
+  await store.pruneNonces(Number(now - HEARTBEAT_WINDOW_SECONDS));
+  if (!(await store.consumeNonce(ADMIN_NONCE_CHAIN_ID, address, BigInt(nonce).toString(), Number(signedAt)))) {
+    return { error: 'Admin request nonce has already been used' };
+  }
+
+  return { identity: { actor: address.toLowerCase(), role: operator.role, authMethod: 'signature' } };
+}
+
+/**
+ * Identify the caller of an admin endpoint, by API key or by operator signature
+ */
+export async function authenticateAdmin(req: Request, config: Config): Promise<AuthenticationResult> {
+  const apiKeyResult = authenticateApiKey(req, config);
+  if (apiKeyResult) return apiKeyResult;
+
+  const signatureResult = await authenticateSignature(req, config);
+  if (signatureResult) return signatureResult;
+
+  return { error: MISSING_CREDENTIALS };
+}
+
+/**
+ * Express middleware that only lets callers with at least the given role through.
+ * Every decision is written to the audit log, except requests that came without any credentials:
+ * those are only logged, so anonymous scanners can't fill the table.
+ */
+export function requireRole(config: Config, role: AdminRole): RequestHandler {
+  return async (req, res, next) => {
+    const store = getHeartbeatStore();
+    const action = `${req.method} ${req.originalUrl}`;
+    const { identity, error } = await authenticateAdmin(req, config);
+
+    if (!identity && error === MISSING_CREDENTIALS) {
+      log.debug('Admin request without credentials', { action, ip: req.ip });
+      res.status(401).json({
+        error: 'Authentication required',
+        details: error,
+      });
+      return;
+    }
+
+    if (!identity) {
+      await store.recordAudit({
+        actor: 'anonymous',
+        role: null,
+        authMethod: null,
+        action,
+        details: error ?? null,
+        ip: req.ip ?? null,
+        outcome: 'denied',
+      });
+      res.status(401).json({
+        error: 'Authentication required',
+        details: error,
+      });
+      return;
+    }
+
+    if (ROLE_RANK[identity.role] < ROLE_RANK[role]) {
+      await store.recordAudit({
+        actor: identity.actor,
+        role: identity.role,
+        authMethod: identity.authMethod,
+        action,
+        details: `Requires ${role}`,
+        ip: req.ip ?? null,
+        outcome: 'denied',
+      });
+      res.status(403).json({
+        error: 'Insufficient role',
+        details: `This endpoint requires the ${role} role`,
+      });
+      return;
+    }
+
+    await store.recordAudit({
+      actor: identity.actor,
+      role: identity.role,
+      authMethod: identity.authMethod,
+      action,
+      details: null,
+      ip: req.ip ?? null,
+      outcome: 'allowed',
+    });
+
+    res.locals.admin = identity;
+    next();
+  };
+}
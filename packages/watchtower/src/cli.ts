@@ -0,0 +1,405 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { isAddress, type Address } from 'viem';
+import { createClients, LazarusSourceABI, loadConfig, type Config, type SourceClients } from './config.js';
+import { DEFAULT_DB_PATH, latestLiveness, openHeartbeatStore, type HeartbeatStore, type StoreDump } from './database.js';
+import { getLeaderStatus, isLeader, startLeaderElection, stopLeaderElection } from './leader.js';
+import { dryRunLiquidation, replayLiquidationJobs } from './liquidator.js';
+import { formatDuration } from './notifications.js';
+import { forcePingFor } from './settlement.js';
+
+const USAGE = `Usage: watchtower <command> [options]
+
+Commands:
+  users                            Tracked users and their deadlines
+  inspect <address>                Off-chain and on-chain state of one user
+  dry-run <address> [--token <t>]  What liquidating a user would do, nothing is sent
+  ping-for <address>               Send pingFor now for a user with a live signed heartbeat
+  export [--out <file>]            Write every stored row as JSON, to stdout by default
+  import <file>                    Insert the rows of an export, keeping rows that already exist
+  replay [--job <id>]...           Re-queue failed and abandoned liquidation jobs
+
+Options:
+  --chain <id>   Source chain. users and replay cover every chain without it,
+                 the other commands use the first configured one
+  --json         Print JSON instead of tables
+  --verbose      Show the watchtower's own logs
+  -h, --help     Show this help
+
+The store and chains are the ones the server would use, from .env. ping-for and replay
+take the scheduler lease while they run and refuse while a server holds it.`;
+
+type Cell = string | number | boolean | null | undefined;
+
+interface Context {
+  config: Config;
+  store: HeartbeatStore;
+  chainId: number | undefined;
+  json: boolean;
+}
+
+function printJson(data: unknown): void {
+  console.log(JSON.stringify(data, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2));
+}
+
+function printTable(rows: Array<Record<string, Cell>>): void {
+  if (rows.length === 0) {
+    console.log('(none)');
+    return;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map(row => columns.map(column => String(row[column] ?? '-')));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(row => row[i].length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(line(columns));
+  cells.forEach(row => console.log(line(row)));
+}
+
+function printFields(title: string, fields: Record<string, Cell>): void {
+  console.log(title);
+  const width = Math.max(...Object.keys(fields).map(key => key.length));
+  for (const [key, value] of Object.entries(fields)) {
+    console.log(`  ${key.padEnd(width)}  ${value ?? '-'}`);
+  }
+}
+
+function iso(ms: number | null): string | null {
+  return ms === null ? null : new Date(ms).toISOString();
+}
+
+function timeLeft(deadline: number): string {
+  const remaining = deadline - Date.now();
+  return remaining > 0 ? formatDuration(remaining) : 'expired';
+}
+
+function parseAddress(value: string | undefined): Address {
+  if (!value || !isAddress(value)) {
+    throw new Error(`Expected an address, got "${value ?? ''}"`);
+  }
+  return value;
+}
+
+function sourceClients(ctx: Context): SourceClients {
+  const chainId = ctx.chainId ?? ctx.config.sources[0].chainId;
+  const clients = createClients(ctx.config).get(chainId);
+  if (!clients) {
+    throw new Error(`Chain ${chainId} is not a configured source chain`);
+  }
+  return clients;
+}
+
+async function listUsers(ctx: Context): Promise<void> {
+  const users = (await ctx.store.getAllUsers(ctx.chainId)).map(user => {
+    const { lastSeen, source } = latestLiveness(user);
+    return { ...user, lastSeen, lastSeenSource: source, deadline: lastSeen + user.inactivityPeriod * 1000 };
+  });
+  users.sort((a, b) => a.deadline - b.deadline);
+
+  if (ctx.json) {
+    printJson(users);
+    return;
+  }
+
+  printTable(users.map(user => ({
+    chain: user.chainId,
+    address: user.userAddress,
+    lastSeen: iso(user.lastSeen),
+    source: user.lastSeenSource,
+    period: formatDuration(user.inactivityPeriod * 1000),
+    deadline: iso(user.deadline),
+    left: timeLeft(user.deadline),
+  })));
+}
+
+async function inspectUser(ctx: Context, address: Address): Promise<void> {
+  const { source, publicClient } = sourceClients(ctx);
+  const chainId = source.chainId;
+  const store = ctx.store;
+
+  const [record, pendingLiquidation, guardians, jobs, settlements, userInfo, userStatus] = await Promise.all([
+    store.getHeartbeat(chainId, address),
+    store.getOpenPendingLiquidation(chainId, address),
+    store.getGuardians(chainId, address),
+    store.getUserLiquidationJobs(chainId, address),
+    store.getUserSettlements(chainId, address),
+    publicClient.readContract({
+      address: source.lazarusSourceAddress,
+      abi: LazarusSourceABI,
+      functionName: 'getUserInfo',
+      args: [address],
+    }),
+    publicClient.readContract({
+      address: source.lazarusSourceAddress,
+      abi: LazarusSourceABI,
+      functionName: 'checkUserStatus',
+      args: [address],
+    }),
+  ]);
+
+  const [registered, beneficiary, lastPing, inactivityPeriod, dead] = userInfo;
+  const [canLiquidate, timeRemaining] = userStatus;
+  const liveness = record ? latestLiveness(record) : null;
+
+  const offchain = {
+    tracked: record !== null,
+    lastSeen: liveness?.lastSeen ?? null,
+    lastSeenSource: liveness?.source ?? null,
+    inactivityPeriod: record?.inactivityPeriod ?? null,
+    deadline: record && liveness ? liveness.lastSeen + record.inactivityPeriod * 1000 : null,
+    pendingLiquidation,
+    guardians: guardians.map(g => g.guardianAddress),
+  };
+  const onchain = {
+    registered,
+    beneficiary,
+    lastPing: Number(lastPing) * 1000,
+    inactivityPeriod: Number(inactivityPeriod),
+    deadline: (Number(lastPing) + Number(inactivityPeriod)) * 1000,
+    dead,
+    canLiquidate,
+    timeRemaining: Number(timeRemaining),
+  };
+
+  if (ctx.json) {
+    printJson({ chainId, address, offchain, onchain, jobs, settlements });
+    return;
+  }
+
+  printFields(`Off-chain (chain ${chainId})`, {
+    tracked: offchain.tracked,
+    lastSeen: iso(offchain.lastSeen),
+    source: offchain.lastSeenSource,
+    period: offchain.inactivityPeriod === null ? null : formatDuration(offchain.inactivityPeriod * 1000),
+    deadline: iso(offchain.deadline),
+    left: offchain.deadline === null ? null : timeLeft(offchain.deadline),
+    gracePeriod: pendingLiquidation ? `until ${iso(pendingLiquidation.expiresAt)}` : null,
+    guardians: offchain.guardians.join(', ') || null,
+  });
+  console.log();
+  printFields('On-chain', {
+    registered,
+    beneficiary,
+    lastPing: iso(onchain.lastPing),
+    period: formatDuration(onchain.inactivityPeriod * 1000),
+    deadline: iso(onchain.deadline),
+    left: timeLeft(onchain.deadline),
+    dead,
+    canLiquidate,
+  });
+  console.log('\nLiquidation jobs');
+  printTable(jobs.map(job => ({
+    id: job.id,
+    token: job.tokenSymbol,
+    state: job.state,
+    attempts: job.attempts,
+    txHash: job.txHash,
+    lastError: job.lastError,
+  })));
+  console.log('\nSettlements');
+  printTable(settlements.map(settlement => ({
+    id: settlement.id,
+    status: settlement.status,
+    txHash: settlement.txHash,
+    created: iso(settlement.createdAt),
+    error: settlement.error,
+  })));
+}
+
+async function dryRun(ctx: Context, address: Address, token: string | undefined): Promise<void> {
+  const clients = sourceClients(ctx);
+  const tokens = token === undefined
+    ? clients.source.supportedTokens
+    : clients.source.supportedTokens.filter(t =>
+        t.symbol.toLowerCase() === token.toLowerCase() || t.address.toLowerCase() === token.toLowerCase()
+      );
+  if (tokens.length === 0) {
+    throw new Error(`Token "${token}" is not supported on chain ${clients.source.chainId}`);
+  }
+
+  const results = await dryRunLiquidation(clients, ctx.config, address, tokens);
+
+  if (ctx.json) {
+    printJson(results);
+    return;
+  }
+
+  printTable(results.map(result => ({
+    token: result.tokenSymbol,
+    wouldSubmit: result.wouldSubmit,
+    amount: result.amountToLiquidate,
+    fee: result.fee,
+    route: result.routeProvider,
+    toAmountMin: result.toAmountMin,
+    valueUSD: result.valueUSD?.toFixed(2),
+    reason: result.reason,
+  })));
+}
+
+/**
+ * Run a command that sends or rewrites jobs while holding the scheduler lease, like the leader would,
+ * so no server sends from the same key at the same time. Refuses while another instance holds it.
+ */
+async function asLeader(ctx: Context, command: (ctx: Context) => Promise<void>): Promise<void> {
+  const config = { ...ctx.config, instanceId: `cli-${ctx.config.instanceId}` };
+  await startLeaderElection(config, () => {});
+
+  try {
+    if (!isLeader()) {
+      const { leader } = await getLeaderStatus(config);
+      throw new Error(`${leader ?? 'Another instance'} holds the scheduler lease, stop it or wait for the lease to expire`);
+    }
+    await command({ ...ctx, config });
+  } finally {
+    await stopLeaderElection(config);
+  }
+}
+
+async function pingFor(ctx: Context, address: Address): Promise<void> {
+  const result = await forcePingFor(sourceClients(ctx), ctx.config, address);
+  if (!result.success) {
+    process.exitCode = 1;
+  }
+
+  if (ctx.json) {
+    printJson(result);
+  } else {
+    printTable([{ chain: result.chainId, address: result.userAddress, success: result.success, txHash: result.txHash, error: result.error }]);
+  }
+}
+
+async function exportStore(ctx: Context, out: string | undefined): Promise<void> {
+  const dump = await ctx.store.exportData();
+  const text = JSON.stringify(dump, null, 2);
+
+  if (!out) {
+    console.log(text);
+    return;
+  }
+
+  fs.writeFileSync(out, text + '\n');
+  const counts = Object.entries(dump.tables).map(([table, rows]) => ({ table, rows: rows.length }));
+  if (ctx.json) {
+    printJson({ file: out, tables: counts });
+  } else {
+    printTable(counts);
+  }
+}
+
+async function importStore(ctx: Context, file: string | undefined): Promise<void> {
+  if (!file) {
+    throw new Error('import needs a file');
+  }
+
+  const dump = JSON.parse(fs.readFileSync(file, 'utf8')) as StoreDump;
+  const inserted = await ctx.store.importData(dump);
+  const counts = Object.entries(inserted).map(([table, rows]) => ({
+    table,
+    inserted: rows,
+    skipped: (dump.tables[table]?.length ?? 0) - rows,
+  }));
+
+  if (ctx.json) {
+    printJson(counts);
+  } else {
+    printTable(counts);
+  }
+}
+
+async function replay(ctx: Context, jobIds: string[] | undefined): Promise<void> {
+  const jobs = await replayLiquidationJobs(ctx.chainId, jobIds);
+
+  if (ctx.json) {
+    printJson(jobs);
+    return;
+  }
+
+  printTable(jobs.map(job => ({
+    id: job.id,
+    chain: job.chainId,
+    user: job.userAddress,
+    token: job.tokenSymbol,
+    was: job.state,
+    attempts: job.attempts,
+    lastError: job.lastError,
+  })));
+  if (jobs.length > 0) {
+    console.log('\nRe-queued, the next liquidation check works them (or POST /liquidation/check)');
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      chain: { type: 'string' },
+      token: { type: 'string' },
+      out: { type: 'string' },
+      job: { type: 'string', multiple: true },
+      json: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  });
+
+  const [command, argument] = positionals;
+  const commands = ['users', 'inspect', 'dry-run', 'ping-for', 'export', 'import', 'replay'];
+  if (values.help || !command || !commands.includes(command)) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  // Logs go to stdout too, keep them out of tables and JSON unless asked for
+  if (!values.verbose) {
+    process.env.LOG_LEVEL = 'warn';
+  }
+
+  const config = loadConfig();
+  const chainId = values.chain === undefined ? undefined : Number(values.chain);
+  if (chainId !== undefined && !config.sources.some(source => source.chainId === chainId)) {
+    throw new Error(`Chain ${values.chain} is not a configured source chain`);
+  }
+
+  if (config.storageBackend === 'sqlite') {
+    fs.mkdirSync(path.dirname(DEFAULT_DB_PATH), { recursive: true });
+  }
+  const store = await openHeartbeatStore({
+    backend: config.storageBackend,
+    databaseUrl: config.databaseUrl,
+    poolSize: 1,
+    autoMigrate: config.autoMigrate,
+    legacyChainId: config.sources[0].chainId,
+  });
+  const ctx: Context = { config, store, chainId, json: values.json };
+
+  try {
+    switch (command) {
+      case 'users':
+        return await listUsers(ctx);
+      case 'inspect':
+        return await inspectUser(ctx, parseAddress(argument));
+      case 'dry-run':
+        return await dryRun(ctx, parseAddress(argument), values.token);
+      case 'ping-for':
+        return await asLeader(ctx, leading => pingFor(leading, parseAddress(argument)));
+      case 'export':
+        return await exportStore(ctx, values.out);
+      case 'import':
+        return await importStore(ctx, argument);
+      case 'replay':
+        return await asLeader(ctx, leading => replay(leading, values.job));
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,14 +1,20 @@
 import {
   createPublicClient,
   createWalletClient,
+  defineChain,
   http,
+  parseEther,
+  parseGwei,
   type Address,
   type PublicClient,
   type WalletClient,
   type Chain,
 } from 'viem';
+import { hostname } from 'os';
 import { privateKeyToAccount } from 'viem/accounts';
-import { sepolia } from 'viem/chains';
+import * as chains from 'viem/chains';
+import type { LiFiClientOptions } from './lifi.js';
+import { withRpcMetrics } from './metrics.js';
 
 // LazarusSource ABI (minimal)
 export const LazarusSourceABI = [
@@ -63,6 +69,20 @@ export const LazarusSourceABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'LIQUIDATION_FEE_BPS',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'watchtower',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     anonymous: false,
     inputs: [
@@ -83,6 +103,56 @@ export const LazarusSourceABI = [
     name: 'InactivityPeriodUpdated',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'user', type: 'address' },
+      { indexed: true, name: 'oldBeneficiary', type: 'address' },
+      { indexed: true, name: 'newBeneficiary', type: 'address' },
+    ],
+    name: 'BeneficiaryUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'user', type: 'address' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'Ping',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'user', type: 'address' },
+      { indexed: true, name: 'beneficiary', type: 'address' },
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'Liquidated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'user', type: 'address' },
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'FundsDeposited',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'user', type: 'address' },
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'FundsWithdrawn',
+    type: 'event',
+  },
 ] as const;
 
 // ERC20 ABI (minimal)
@@ -104,68 +174,408 @@ export const ERC20ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
 ] as const;
 
+export interface TokenConfig {
+  address: Address;
+  symbol: string;
+}
+
+/**
+ * A LazarusSource deployment the watchtower protects users on
+ */
+export interface SourceDeployment {
+  chainId: number;
+  rpcUrl: string;
+  lazarusSourceAddress: Address;
+  supportedTokens: TokenConfig[];
+  // Block the event indexer starts from when it has no checkpoint yet, usually the deployment block
+  startBlock?: number;
+}
+
+/**
+ * Admin roles, operator includes everything a viewer may do
+ */
+export type AdminRole = 'viewer' | 'operator';
+
+export interface AdminApiKey {
+  name: string;
+  role: AdminRole;
+  key: string;
+}
+
+export interface AdminOperator {
+  address: Address;
+  role: AdminRole;
+}
+
+/**
+ * A point before the deadline at which users are warned.
+ * Either a share of the inactivity period or a fixed time left.
+ */
+export type WarningThreshold =
+  | { label: string; percent: number }
+  | { label: string; seconds: number };
+
+/**
+ * Outgoing mail server, email channels are disabled without one
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
 export interface Config {
   watchtowerPrivateKey: `0x${string}`;
-  sepoliaRpcUrl: string;
+  sources: SourceDeployment[];
   destinationRpcUrl: string;
-  lazarusSourceAddress: Address;
   lazarusVaultAddress: Address;
   lifiDiamondAddress: Address;
-  supportedTokens: { address: Address; symbol: string }[];
   usdcAddress: Address;
-  sourceChainId: number;
   destinationChainId: number;
+  maxLiquidationAttempts: number;
+  settlementMarginSeconds: number;
+  settlementBatchSize: number;
+  bridgeAmountToleranceBps: number;
+  bridgeMatchWindowSeconds: number;
+  bridgeStuckAfterSeconds: number;
+  bridgeEscalateAfterSeconds: number;
+  destinationLogRange: number;
+  sourceLogRange: number;
+  sourceConfirmations: number;
+  adminApiKeys: AdminApiKey[];
+  adminOperators: AdminOperator[];
+  rateLimitBackend: 'memory' | 'database';
+  rateLimitWindowSeconds: number;
+  heartbeatIpLimit: number;
+  heartbeatAddressLimit: number;
+  adminIpLimit: number;
+  unregisteredCacheSeconds: number;
+  registrationCacheSeconds: number;
+  maxBodyBytes: number;
+  trustProxy: string | undefined;
+  warningThresholds: WarningThreshold[];
+  smtp: SmtpConfig | null;
+  webhookTimeoutMs: number;
+  notificationMaxAttempts: number;
+  notificationRetryBaseSeconds: number;
+  claimUrl: string;
+  gracePeriodSeconds: number;
+  guardianVetoHoldSeconds: number;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  feeBumpPercent: number;
+  txStuckAfterSeconds: number;
+  maxFeeBumps: number;
+  liquidationMinUsd: number;
+  priceSource: 'quote' | 'oracle';
+  tokenPricesUsd: Record<string, number>;
+  routeProviders: string[];
+  routeSelection: 'first' | 'best';
+  routeProviderMaxFailures: number;
+  routeProviderCooldownSeconds: number;
+  lifi: LiFiClientOptions;
+  healthMinBalance: bigint;
+  healthMaxBlockAgeSeconds: number;
+  healthCheckTimeoutMs: number;
+  storageBackend: 'sqlite' | 'postgres';
+  databaseUrl: string | undefined;
+  databasePoolSize: number;
+  autoMigrate: boolean;
+  instanceId: string;
+  leaderLeaseSeconds: number;
   port: number;
 }
 
+/**
+ * Clients bound to a single source deployment
+ */
+export interface SourceClients {
+  source: SourceDeployment;
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+}
+
+const DEFAULT_SUPPORTED_TOKENS = 'WETH:0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14,USDC:0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
+
+// Parse supported tokens (comma-separated: "WETH:0x...,USDC:0x...")
+function parseTokens(tokensEnv: string): TokenConfig[] {
+  return tokensEnv.split(',').map(pair => {
+    const [symbol, address] = pair.split(':');
+    return { symbol, address: address as Address };
+  });
+}
+
+function parseRole(value: string | undefined, context: string): AdminRole {
+  if (value !== 'viewer' && value !== 'operator') {
+    throw new Error(`${context} has invalid role "${value}", expected viewer or operator`);
+  }
+  return value;
+}
+
+// Parse admin API keys (comma-separated: "name:role:key,...")
+function parseAdminApiKeys(keysEnv: string): AdminApiKey[] {
+  if (!keysEnv) return [];
+
+  return keysEnv.split(',').map(entry => {
+    const [name, role, ...rest] = entry.split(':');
+    const key = rest.join(':');
+    if (!name || !key) {
+      throw new Error('ADMIN_API_KEYS entries must look like name:role:key');
+    }
+    return { name, role: parseRole(role, `ADMIN_API_KEYS entry "${name}"`), key };
+  });
+}
+
+// Parse allow-listed operator addresses (comma-separated: "0x...:operator,0x...:viewer")
+function parseAdminOperators(operatorsEnv: string): AdminOperator[] {
+  if (!operatorsEnv) return [];
+
+  return operatorsEnv.split(',').map(entry => {
+    const [address, role] = entry.split(':');
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      throw new Error(`ADMIN_OPERATORS has invalid address "${address}"`);
+    }
+    return { address: address as Address, role: parseRole(role, `ADMIN_OPERATORS entry ${address}`) };
+  });
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+// Parse warning thresholds (comma-separated: "50%,25%,24h", durations in s, m, h or d)
+function parseWarningThresholds(thresholdsEnv: string): WarningThreshold[] {
+  return thresholdsEnv.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const match = /^(\d+(?:\.\d+)?)(%|s|m|h|d)$/.exec(entry);
+    if (!match) {
+      throw new Error(`WARNING_THRESHOLDS has invalid entry "${entry}", expected e.g. 50% or 24h`);
+    }
+
+    const value = parseFloat(match[1]);
+    if (match[2] === '%') {
+      if (value <= 0 || value >= 100) {
+        throw new Error(`WARNING_THRESHOLDS entry "${entry}" must be between 0% and 100%`);
+      }
+      return { label: entry, percent: value };
+    }
+    return { label: entry, seconds: value * DURATION_UNITS[match[2]] };
+  });
+}
+
+// Parse static token prices (comma-separated: "WETH:3000,USDC:1")
+function parseTokenPrices(pricesEnv: string): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const entry of pricesEnv.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [symbol, price] = entry.split(':');
+    const value = parseFloat(price);
+    if (!symbol || !Number.isFinite(value) || value < 0) {
+      throw new Error(`TOKEN_PRICES_USD has invalid entry "${entry}", expected e.g. WETH:3000`);
+    }
+    prices[symbol.toUpperCase()] = value;
+  }
+  return prices;
+}
+
+function loadSmtpConfig(): SmtpConfig | null {
+  if (!process.env.SMTP_HOST) return null;
+
+  return {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || 'Lazarus Watchtower <watchtower@localhost>',
+  };
+}
+
+function loadLiFiOptions(): LiFiClientOptions {
+  return {
+    baseUrl: process.env.LIFI_API_URL || 'https://li.quest/v1',
+    apiKey: process.env.LIFI_API_KEY || undefined,
+    timeoutMs: parseInt(process.env.LIFI_TIMEOUT_MS || '10000'),
+    maxRetries: parseInt(process.env.LIFI_MAX_RETRIES || '3'),
+    retryBaseMs: parseInt(process.env.LIFI_RETRY_BASE_MS || '500'),
+    quoteCacheSeconds: parseInt(process.env.LIFI_QUOTE_CACHE_SECONDS || '30'),
+  };
+}
+
+/**
+ * Read the source deployments.
+ * SOURCE_DEPLOYMENTS takes a JSON array of
+ * { "chainId": 11155111, "rpcUrl": "...", "lazarusSourceAddress": "0x...", "supportedTokens": "WETH:0x...,USDC:0x...", "startBlock": 123 }.
+ * Without it, a single deployment is built from the original single-chain variables.
+ */
+export function loadSourceDeployments(): SourceDeployment[] {
+  const deploymentsEnv = process.env.SOURCE_DEPLOYMENTS;
+
+  if (!deploymentsEnv) {
+    return [{
+      chainId: parseInt(process.env.SOURCE_CHAIN_ID || '11155111'),
+      rpcUrl: process.env.SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+      lazarusSourceAddress: (process.env.LAZARUS_SOURCE_ADDRESS || '0x') as Address,
+      supportedTokens: parseTokens(process.env.SUPPORTED_TOKENS || DEFAULT_SUPPORTED_TOKENS),
+      startBlock: process.env.SOURCE_START_BLOCK ? parseInt(process.env.SOURCE_START_BLOCK) : undefined,
+    }];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(deploymentsEnv);
+  } catch {
+    throw new Error('SOURCE_DEPLOYMENTS must be a JSON array');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('SOURCE_DEPLOYMENTS must be a non-empty JSON array');
+  }
+
+  const deployments = parsed.map((entry, i): SourceDeployment => {
+    const { chainId, rpcUrl, lazarusSourceAddress, supportedTokens, startBlock } = entry ?? {};
+    if (!Number.isInteger(chainId) || !rpcUrl || !lazarusSourceAddress) {
+      throw new Error(`SOURCE_DEPLOYMENTS[${i}] needs chainId, rpcUrl and lazarusSourceAddress`);
+    }
+
+    return {
+      chainId,
+      rpcUrl,
+      lazarusSourceAddress: lazarusSourceAddress as Address,
+      supportedTokens: Array.isArray(supportedTokens)
+        ? (supportedTokens as TokenConfig[])
+        : parseTokens(supportedTokens || DEFAULT_SUPPORTED_TOKENS),
+      startBlock: Number.isInteger(startBlock) ? startBlock : undefined,
+    };
+  });
+
+  const chainIds = new Set(deployments.map(d => d.chainId));
+  if (chainIds.size !== deployments.length) {
+    throw new Error('SOURCE_DEPLOYMENTS contains the same chainId more than once');
+  }
+
+  return deployments;
+}
+
 export function loadConfig(): Config {
   const watchtowerPrivateKey = process.env.WATCHTOWER_PRIVATE_KEY;
   if (!watchtowerPrivateKey) {
     throw new Error('WATCHTOWER_PRIVATE_KEY is required');
   }
 
-  // Parse supported tokens from env (comma-separated: "WETH:0x...,USDC:0x...")
-  const tokensEnv = process.env.SUPPORTED_TOKENS || 'WETH:0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14,USDC:0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
-  const supportedTokens = tokensEnv.split(',').map(pair => {
-    const [symbol, address] = pair.split(':');
-    return { symbol, address: address as Address };
-  });
-
   return {
     watchtowerPrivateKey: watchtowerPrivateKey.startsWith('0x')
       ? (watchtowerPrivateKey as `0x${string}`)
       : (`0x${watchtowerPrivateKey}` as `0x${string}`),
-    sepoliaRpcUrl: process.env.SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+    sources: loadSourceDeployments(),
     destinationRpcUrl: process.env.DESTINATION_RPC_URL || 'https://arb1.arbitrum.io/rpc',
-    lazarusSourceAddress: (process.env.LAZARUS_SOURCE_ADDRESS || '0x') as Address,
     lazarusVaultAddress: (process.env.LAZARUS_VAULT_ADDRESS || '0x') as Address,
     lifiDiamondAddress: (process.env.LIFI_DIAMOND_ADDRESS || '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE') as Address,
-    supportedTokens,
     usdcAddress: (process.env.USDC_ADDRESS || '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238') as Address,
-    sourceChainId: parseInt(process.env.SOURCE_CHAIN_ID || '11155111'),
     destinationChainId: parseInt(process.env.DESTINATION_CHAIN_ID || '42161'),
+    maxLiquidationAttempts: parseInt(process.env.MAX_LIQUIDATION_ATTEMPTS || '3'),
+    // Must comfortably exceed the settlement schedule (every 15 minutes) plus confirmation time
+    settlementMarginSeconds: parseInt(process.env.SETTLEMENT_MARGIN_SECONDS || '7200'),
+    settlementBatchSize: parseInt(process.env.SETTLEMENT_BATCH_SIZE || '20'),
+    bridgeAmountToleranceBps: parseInt(process.env.BRIDGE_AMOUNT_TOLERANCE_BPS || '100'),
+    bridgeMatchWindowSeconds: parseInt(process.env.BRIDGE_MATCH_WINDOW_SECONDS || '86400'),
+    bridgeStuckAfterSeconds: parseInt(process.env.BRIDGE_STUCK_AFTER_SECONDS || '1800'),
+    bridgeEscalateAfterSeconds: parseInt(process.env.BRIDGE_ESCALATE_AFTER_SECONDS || '21600'),
+    destinationLogRange: parseInt(process.env.DESTINATION_LOG_RANGE || '2000'),
+    sourceLogRange: parseInt(process.env.SOURCE_LOG_RANGE || '2000'),
+    sourceConfirmations: parseInt(process.env.SOURCE_CONFIRMATIONS || '3'),
+    adminApiKeys: parseAdminApiKeys(process.env.ADMIN_API_KEYS || ''),
+    adminOperators: parseAdminOperators(process.env.ADMIN_OPERATORS || ''),
+    // 'sqlite' is the old name for 'database', from before Postgres was supported
+    rateLimitBackend: ['database', 'sqlite'].includes(process.env.RATE_LIMIT_BACKEND ?? '') ? 'database' : 'memory',
+    rateLimitWindowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60'),
+    heartbeatIpLimit: parseInt(process.env.HEARTBEAT_IP_LIMIT || '30'),
+    heartbeatAddressLimit: parseInt(process.env.HEARTBEAT_ADDRESS_LIMIT || '6'),
+    adminIpLimit: parseInt(process.env.ADMIN_IP_LIMIT || '60'),
+    unregisteredCacheSeconds: parseInt(process.env.UNREGISTERED_CACHE_SECONDS || '300'),
+    registrationCacheSeconds: parseInt(process.env.REGISTRATION_CACHE_SECONDS || '60'),
+    maxBodyBytes: parseInt(process.env.MAX_BODY_BYTES || '8192'),
+    trustProxy: process.env.TRUST_PROXY,
+    warningThresholds: parseWarningThresholds(process.env.WARNING_THRESHOLDS || '50%,25%,24h'),
+    smtp: loadSmtpConfig(),
+    webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+    notificationMaxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5'),
+    notificationRetryBaseSeconds: parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || '60'),
+    claimUrl: process.env.CLAIM_URL || 'http://localhost:3000/claim',
+    gracePeriodSeconds: parseInt(process.env.GRACE_PERIOD_SECONDS || '86400'),
+    guardianVetoHoldSeconds: parseInt(process.env.GUARDIAN_VETO_HOLD_SECONDS || '604800'),
+    maxFeePerGas: parseGwei(process.env.MAX_FEE_PER_GAS_GWEI || '100'),
+    maxPriorityFeePerGas: parseGwei(process.env.MAX_PRIORITY_FEE_PER_GAS_GWEI || '3'),
+    feeBumpPercent: parseInt(process.env.FEE_BUMP_PERCENT || '20'),
+    txStuckAfterSeconds: parseInt(process.env.TX_STUCK_AFTER_SECONDS || '180'),
+    maxFeeBumps: parseInt(process.env.MAX_FEE_BUMPS || '5'),
+    liquidationMinUsd: parseFloat(process.env.LIQUIDATION_MIN_USD || '10'),
+    priceSource: process.env.PRICE_SOURCE === 'oracle' ? 'oracle' : 'quote',
+    tokenPricesUsd: parseTokenPrices(process.env.TOKEN_PRICES_USD || ''),
+    routeProviders: (process.env.ROUTE_PROVIDERS || 'lifi').split(',').map(name => name.trim()).filter(Boolean),
+    routeSelection: process.env.ROUTE_SELECTION === 'best' ? 'best' : 'first',
+    routeProviderMaxFailures: parseInt(process.env.ROUTE_PROVIDER_MAX_FAILURES || '3'),
+    routeProviderCooldownSeconds: parseInt(process.env.ROUTE_PROVIDER_COOLDOWN_SECONDS || '300'),
+    lifi: loadLiFiOptions(),
+    healthMinBalance: parseEther(process.env.HEALTH_MIN_BALANCE_ETH || '0.01'),
+    healthMaxBlockAgeSeconds: parseInt(process.env.HEALTH_MAX_BLOCK_AGE_SECONDS || '300'),
+    healthCheckTimeoutMs: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000'),
+    storageBackend: process.env.STORAGE_BACKEND === 'postgres' ? 'postgres' : 'sqlite',
+    databaseUrl: process.env.DATABASE_URL || undefined,
+    databasePoolSize: parseInt(process.env.DATABASE_POOL_SIZE || '10'),
+    autoMigrate: process.env.AUTO_MIGRATE !== 'false',
+    instanceId: process.env.INSTANCE_ID || `${hostname()}-${process.pid}`,
+    leaderLeaseSeconds: parseInt(process.env.LEADER_LEASE_SECONDS || '30'),
     port: parseInt(process.env.PORT || '3001'),
   };
 }
 
-export function createClients(config: Config): {
-  publicClient: PublicClient;
-  walletClient: WalletClient;
-} {
-  const account = privateKeyToAccount(config.watchtowerPrivateKey);
+/**
+ * Find the viem chain definition for a chain id, or define a minimal one for unknown chains
+ */
+export function resolveChain(chainId: number, rpcUrl: string): Chain {
+  const known = (Object.values(chains) as Chain[]).find(chain => chain.id === chainId);
+  if (known) return known;
 
-  const publicClient = createPublicClient({
-    chain: sepolia,
-    transport: http(config.sepoliaRpcUrl),
+  return defineChain({
+    id: chainId,
+    name: `chain-${chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
   });
+}
 
-  const walletClient = createWalletClient({
-    account,
-    chain: sepolia,
-    transport: http(config.sepoliaRpcUrl),
-  });
+/**
+ * Create public and wallet clients for every source deployment, keyed by chain id
+ */
+export function createClients(config: Config): Map<number, SourceClients> {
+  const account = privateKeyToAccount(config.watchtowerPrivateKey);
+  const clients = new Map<number, SourceClients>();
+
+  for (const source of config.sources) {
+    const chain = resolveChain(source.chainId, source.rpcUrl);
+
+    const publicClient = createPublicClient({
+      chain,
+      transport: withRpcMetrics(http(source.rpcUrl), source.chainId),
+    });
+
+    const walletClient = createWalletClient({
+      account,
+      chain,
+      transport: withRpcMetrics(http(source.rpcUrl), source.chainId),
+    });
+
+    clients.set(source.chainId, { source, publicClient, walletClient });
+  }
 
-  return { publicClient, walletClient };
+  return clients;
 }
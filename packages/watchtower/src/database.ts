@@ -1,180 +1,1861 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
+import { assertKnownSchema, getSchemaVersion, LATEST_SCHEMA_VERSION, migrate, type MigrationContext } from './migrations.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+export const DEFAULT_DB_PATH = path.join(__dirname, '..', 'data', 'heartbeats.db');
+
+/**
+ * Placeholder signature stored for users seen on-chain before their first signed heartbeat
+ */
+export const PENDING_HEARTBEAT_SIGNATURE = '0x-pending-first-heartbeat';
+
+/**
+ * `lastSeen` is the last signed off-chain heartbeat, `onchainLastSeen` the last `Ping` seen on-chain
+ */
 export interface HeartbeatRecord {
+  chainId: number;
   userAddress: string;
   lastSeen: number;
+  onchainLastSeen: number | null;
   signature: string;
   inactivityPeriod: number;
   createdAt: number;
   updatedAt: number;
 }
 
-export class HeartbeatStore {
-  private db: Database.Database;
+export interface HeartbeatRow {
+  chain_id: number;
+  user_address: string;
+  last_seen: number;
+  onchain_last_seen: number | null;
+  signature: string;
+  inactivity_period: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export type LivenessSource = 'offchain' | 'onchain';
+
+/**
+ * The later of a user's off-chain and on-chain liveness, and where it came from.
+ * A placeholder row from a Registered event has no off-chain heartbeat, only the chain counts.
+ */
+export function latestLiveness(record: HeartbeatRecord): { lastSeen: number; source: LivenessSource } {
+  if (record.signature === PENDING_HEARTBEAT_SIGNATURE) {
+    return { lastSeen: record.onchainLastSeen ?? 0, source: 'onchain' };
+  }
+  if (record.onchainLastSeen !== null && record.onchainLastSeen > record.lastSeen) {
+    return { lastSeen: record.onchainLastSeen, source: 'onchain' };
+  }
+  return { lastSeen: record.lastSeen, source: 'offchain' };
+}
+
+/**
+ * Lifecycle of a liquidation job:
+ * queued -> quoting -> simulated -> submitting -> submitted -> confirmed
+ * `submitting` holds the signed transaction and nonce before the broadcast, so a restart can tell
+ * from the chain whether it went out.
+ * Any step can move to `failed` (retried later) or `abandoned` (given up).
+ * Jobs worth less than LIQUIDATION_MIN_USD are `deferred` and re-valued on every run.
+ */
+export type LiquidationJobState =
+  | 'queued'
+  | 'quoting'
+  | 'simulated'
+  | 'submitting'
+  | 'submitted'
+  | 'confirmed'
+  | 'failed'
+  | 'deferred'
+  | 'abandoned';
+
+/**
+ * States in which a job still has work left to do
+ */
+export const ACTIVE_JOB_STATES: LiquidationJobState[] = ['queued', 'quoting', 'simulated', 'submitting', 'submitted', 'failed', 'deferred'];
+
+/**
+ * Why a job's last attempt failed. `amount-mismatch` means the user's balance, allowance or
+ * deposits moved away from what the route was quoted for, it is retried without using up an attempt.
+ */
+export type LiquidationFailureKind = 'amount-mismatch' | 'simulation' | 'gas' | 'reverted' | 'error';
+
+/**
+ * The route a job was submitted with, kept so the bridge can be tracked after a restart
+ */
+export interface LiquidationJobRoute {
+  provider: string | null;
+  quoteId: string | null;
+  toAmount: string | null;
+  toAmountMin: string | null;
+}
+
+/**
+ * A liquidation or settlement transaction as last broadcast, kept so it can still be replaced after
+ * a restart. `hashes` lists every broadcast at this nonce, oldest first.
+ */
+export interface SubmittedTransaction {
+  to: string;
+  data: string;
+  gas: string;
+  nonce: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  hashes: string[];
+}
+
+export interface LiquidationJob {
+  id: string;
+  chainId: number;
+  userAddress: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  state: LiquidationJobState;
+  attempts: number;
+  lastError: string | null;
+  failureKind: LiquidationFailureKind | null;
+  txHash: string | null;
+  transaction: SubmittedTransaction | null;
+  route: LiquidationJobRoute | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LiquidationJobRow {
+  id: string;
+  chain_id: number;
+  user_address: string;
+  token_address: string;
+  token_symbol: string;
+  state: LiquidationJobState;
+  attempts: number;
+  last_error: string | null;
+  failure_kind: LiquidationFailureKind | null;
+  tx_hash: string | null;
+  tx_details: string | null;
+  route_provider: string | null;
+  quote_id: string | null;
+  quote_to_amount: string | null;
+  quote_to_amount_min: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface LiquidationJobUpdate {
+  state: LiquidationJobState;
+  lastError?: string | null;
+  failureKind?: LiquidationFailureKind | null;
+  txHash?: string | null;
+  transaction?: SubmittedTransaction | null;
+  route?: LiquidationJobRoute;
+  incrementAttempts?: boolean;
+  // A deferral doesn't count as a failed attempt
+  refundAttempt?: boolean;
+  // Start counting attempts from zero again, for jobs an operator replays
+  resetAttempts?: boolean;
+}
+
+/**
+ * pending -> confirmed once the matching vault deposit is seen.
+ * Unmatched bridges become `stuck` and later `escalated` for manual follow-up.
+ */
+export type BridgeStatus = 'pending' | 'confirmed' | 'stuck' | 'escalated';
+
+export const OPEN_BRIDGE_STATUSES: BridgeStatus[] = ['pending', 'stuck', 'escalated'];
+
+export interface PendingBridge {
+  id: string;
+  jobId: string | null;
+  sourceChainId: number;
+  userAddress: string;
+  beneficiary: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  amount: string;
+  quoteId: string | null;
+  expectedAmount: string | null;
+  minAmount: string | null;
+  sourceTxHash: string;
+  status: BridgeStatus;
+  destinationTxHash: string | null;
+  receivedAmount: string | null;
+  createdAt: number;
+  updatedAt: number;
+  confirmedAt: number | null;
+}
+
+export interface PendingBridgeRow {
+  id: string;
+  job_id: string | null;
+  source_chain_id: number;
+  user_address: string;
+  beneficiary: string;
+  token_address: string;
+  token_symbol: string;
+  amount: string;
+  quote_id: string | null;
+  expected_amount: string | null;
+  min_amount: string | null;
+  source_tx_hash: string;
+  status: BridgeStatus;
+  destination_tx_hash: string | null;
+  received_amount: string | null;
+  created_at: number;
+  updated_at: number;
+  confirmed_at: number | null;
+}
+
+export type NewPendingBridge = Pick<
+  PendingBridge,
+  'jobId' | 'sourceChainId' | 'userAddress' | 'beneficiary' | 'tokenAddress' | 'tokenSymbol' | 'amount' | 'quoteId' | 'expectedAmount' | 'minAmount' | 'sourceTxHash'
+>;
+
+export type SettlementStatus = 'submitted' | 'confirmed' | 'failed';
+
+export interface SettlementRecord {
+  id: string;
+  chainId: number;
+  userAddress: string;
+  // The hash that was mined once confirmed, the latest broadcast until then
+  txHash: string;
+  // Null for settlements sent before every broadcast was stored
+  transaction: SubmittedTransaction | null;
+  status: SettlementStatus;
+  offchainLastSeen: number;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SettlementRow {
+  id: string;
+  chain_id: number;
+  user_address: string;
+  tx_hash: string;
+  tx_details: string | null;
+  status: SettlementStatus;
+  offchain_last_seen: number;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export type AuditOutcome = 'allowed' | 'denied';
+
+export interface AuditEntry {
+  id: string;
+  actor: string;
+  role: string | null;
+  authMethod: string | null;
+  action: string;
+  details: string | null;
+  ip: string | null;
+  outcome: AuditOutcome;
+  createdAt: number;
+}
+
+export interface AuditRow {
+  id: string;
+  actor: string;
+  role: string | null;
+  auth_method: string | null;
+  action: string;
+  details: string | null;
+  ip: string | null;
+  outcome: AuditOutcome;
+  created_at: number;
+}
+
+/**
+ * A LazarusSource event stored by the indexer. `args` holds the decoded event arguments,
+ * with uint256 values as decimal strings.
+ */
+export interface ChainEvent {
+  chainId: number;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  eventName: string;
+  userAddress: string | null;
+  args: Record<string, string>;
+  createdAt: number;
+}
+
+export type NewChainEvent = Omit<ChainEvent, 'createdAt'>;
+
+export interface ChainEventRow {
+  chain_id: number;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  event_name: string;
+  user_address: string | null;
+  args: string;
+  created_at: number;
+}
+
+/**
+ * A grace window before liquidation: pending -> released (jobs may be queued),
+ * or cancelled by a heartbeat or a guardian veto.
+ */
+export type PendingLiquidationStatus = 'pending' | 'released' | 'cancelled';
+
+export type CancelReason = 'heartbeat' | 'veto';
+
+export interface PendingLiquidation {
+  id: string;
+  chainId: number;
+  userAddress: string;
+  status: PendingLiquidationStatus;
+  startedAt: number;
+  expiresAt: number;
+  cancelReason: CancelReason | null;
+  cancelledBy: string | null;
+  resolvedAt: number | null;
+  updatedAt: number;
+}
+
+export interface PendingLiquidationRow {
+  id: string;
+  chain_id: number;
+  user_address: string;
+  status: PendingLiquidationStatus;
+  started_at: number;
+  expires_at: number;
+  cancel_reason: CancelReason | null;
+  cancelled_by: string | null;
+  resolved_at: number | null;
+  updated_at: number;
+}
+
+export interface Guardian {
+  chainId: number;
+  userAddress: string;
+  guardianAddress: string;
+  createdAt: number;
+}
+
+export interface GuardianRow {
+  chain_id: number;
+  user_address: string;
+  guardian_address: string;
+  created_at: number;
+}
+
+export type NotificationChannelType = 'webhook' | 'email';
+
+/**
+ * Where an address wants to be notified. Webhook channels carry the secret their payloads are signed with.
+ */
+export interface NotificationChannel {
+  id: string;
+  chainId: number;
+  address: string;
+  channelType: NotificationChannelType;
+  target: string;
+  secret: string | null;
+  createdAt: number;
+}
+
+export interface NotificationChannelRow {
+  id: string;
+  chain_id: number;
+  address: string;
+  channel_type: NotificationChannelType;
+  target: string;
+  secret: string | null;
+  created_at: number;
+}
+
+/**
+ * pending -> delivered, or `failed` once every retry is used up
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface NotificationDelivery {
+  id: string;
+  channelId: string;
+  chainId: number;
+  address: string;
+  kind: string;
+  dedupeKey: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  deliveredAt: number | null;
+}
+
+export interface NotificationDeliveryRow {
+  id: string;
+  channel_id: string;
+  chain_id: number;
+  address: string;
+  kind: string;
+  dedupe_key: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number;
+  created_at: number;
+  updated_at: number;
+  delivered_at: number | null;
+}
+
+/**
+ * A named lease held by one watchtower instance until `expiresAt`, unless it renews it first
+ */
+export interface Lease {
+  name: string;
+  holder: string;
+  acquiredAt: number;
+  renewedAt: number;
+  expiresAt: number;
+}
+
+export interface LeaseRow {
+  name: string;
+  holder: string;
+  acquired_at: number;
+  renewed_at: number;
+  expires_at: number;
+}
+
+// Row mappers shared by every backend, the tables have the same columns everywhere
+
+export function toHeartbeatRecord(row: HeartbeatRow): HeartbeatRecord {
+  return {
+    chainId: row.chain_id,
+    userAddress: row.user_address,
+    lastSeen: row.last_seen,
+    onchainLastSeen: row.onchain_last_seen,
+    signature: row.signature,
+    inactivityPeriod: row.inactivity_period,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toLiquidationJob(row: LiquidationJobRow): LiquidationJob {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    userAddress: row.user_address,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    state: row.state,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    failureKind: row.failure_kind,
+    txHash: row.tx_hash,
+    transaction: row.tx_details ? (JSON.parse(row.tx_details) as SubmittedTransaction) : null,
+    route: row.route_provider || row.quote_id || row.quote_to_amount || row.quote_to_amount_min
+      ? {
+          provider: row.route_provider,
+          quoteId: row.quote_id,
+          toAmount: row.quote_to_amount,
+          toAmountMin: row.quote_to_amount_min,
+        }
+      : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toSettlement(row: SettlementRow): SettlementRecord {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    userAddress: row.user_address,
+    txHash: row.tx_hash,
+    transaction: row.tx_details ? (JSON.parse(row.tx_details) as SubmittedTransaction) : null,
+    status: row.status,
+    offchainLastSeen: row.offchain_last_seen,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toPendingBridge(row: PendingBridgeRow): PendingBridge {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    sourceChainId: row.source_chain_id,
+    userAddress: row.user_address,
+    beneficiary: row.beneficiary,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    amount: row.amount,
+    quoteId: row.quote_id,
+    expectedAmount: row.expected_amount,
+    minAmount: row.min_amount,
+    sourceTxHash: row.source_tx_hash,
+    status: row.status,
+    destinationTxHash: row.destination_tx_hash,
+    receivedAmount: row.received_amount,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    confirmedAt: row.confirmed_at,
+  };
+}
+
+export function toChainEvent(row: ChainEventRow): ChainEvent {
+  return {
+    chainId: row.chain_id,
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+    eventName: row.event_name,
+    userAddress: row.user_address,
+    args: JSON.parse(row.args),
+    createdAt: row.created_at,
+  };
+}
+
+export function toGuardian(row: GuardianRow): Guardian {
+  return {
+    chainId: row.chain_id,
+    userAddress: row.user_address,
+    guardianAddress: row.guardian_address,
+    createdAt: row.created_at,
+  };
+}
+
+export function toPendingLiquidation(row: PendingLiquidationRow): PendingLiquidation {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    userAddress: row.user_address,
+    status: row.status,
+    startedAt: row.started_at,
+    expiresAt: row.expires_at,
+    cancelReason: row.cancel_reason,
+    cancelledBy: row.cancelled_by,
+    resolvedAt: row.resolved_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toNotificationChannel(row: NotificationChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    address: row.address,
+    channelType: row.channel_type,
+    target: row.target,
+    secret: row.secret,
+    createdAt: row.created_at,
+  };
+}
+
+export function toNotificationDelivery(row: NotificationDeliveryRow): NotificationDelivery {
+  return {
+    id: row.id,
+    channelId: row.channel_id,
+    chainId: row.chain_id,
+    address: row.address,
+    kind: row.kind,
+    dedupeKey: row.dedupe_key,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+/**
+ * Tables copied by `exportData` and `importData`, in the order they are imported.
+ * Rate limits and leases only matter to running instances and are left out.
+ */
+export const DUMP_TABLES = [
+  'heartbeats',
+  'heartbeat_nonces',
+  'liquidation_jobs',
+  'settlements',
+  'pending_bridges',
+  'pending_liquidations',
+  'guardians',
+  'notification_channels',
+  'notification_deliveries',
+  'checkpoints',
+  'chain_events',
+  'indexed_blocks',
+  'audit_log',
+];
+
+/**
+ * Every row of the dumped tables as stored. Both backends have the same columns,
+ * so a dump taken from one can be imported into the other.
+ */
+export interface StoreDump {
+  backend: StorageBackend;
+  exportedAt: number;
+  tables: Record<string, Array<Record<string, unknown>>>;
+}
+
+/**
+ * Throw unless every table and column in a dump is one we know, they end up in SQL
+ */
+export function assertValidDump(dump: StoreDump): void {
+  if (!dump || typeof dump.tables !== 'object') {
+    throw new Error('Not a watchtower dump, no "tables"');
+  }
+  for (const [table, rows] of Object.entries(dump.tables)) {
+    if (!DUMP_TABLES.includes(table)) {
+      throw new Error(`Unknown table "${table}" in dump`);
+    }
+    for (const row of rows) {
+      const bad = Object.keys(row).find(column => !/^[a-z_]+$/.test(column));
+      if (bad !== undefined) {
+        throw new Error(`Invalid column "${bad}" in table "${table}"`);
+      }
+    }
+  }
+}
+
+export function toLease(row: LeaseRow): Lease {
+  return {
+    name: row.name,
+    holder: row.holder,
+    acquiredAt: row.acquired_at,
+    renewedAt: row.renewed_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    actor: row.actor,
+    role: row.role,
+    authMethod: row.auth_method,
+    action: row.action,
+    details: row.details,
+    ip: row.ip,
+    outcome: row.outcome,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Everything the watchtower persists: heartbeats, liquidation jobs, settlements, bridges, indexer
+ * checkpoints and events, grace periods, notifications, rate limits and the audit log.
+ * Implemented by `SqliteHeartbeatStore` (a local file) and `PostgresHeartbeatStore` (shared by replicas).
+ */
+export interface HeartbeatStore {
+  /**
+   * Record a heartbeat for a user on a source chain, seen at `lastSeen` (now by default)
+   */
+  recordHeartbeat(chainId: number, userAddress: string, signature: string, inactivityPeriod: number, lastSeen?: number): Promise<HeartbeatRecord>;
+
+  /**
+   * Get heartbeat record for a specific user on a source chain
+   */
+  getHeartbeat(chainId: number, userAddress: string): Promise<HeartbeatRecord | null>;
+
+  /**
+   * Change a tracked user's inactivity period without touching their liveness
+   */
+  updateInactivityPeriod(chainId: number, userAddress: string, inactivityPeriod: number): Promise<void>;
+
+  /**
+   * Get all users on a source chain who haven't pinged in their specified duration (in ms)
+   */
+  getInactiveUsers(chainId: number): Promise<HeartbeatRecord[]>;
+
+  /**
+   * Remove a user from the heartbeat tracking (after liquidation)
+   */
+  removeUser(chainId: number, userAddress: string): Promise<void>;
+
+  /**
+   * Get all tracked users, optionally limited to one source chain
+   */
+  getAllUsers(chainId?: number): Promise<HeartbeatRecord[]>;
+
+  /**
+   * Record an on-chain Ping for a tracked user, keeping the latest one (ms)
+   */
+  recordOnchainPing(chainId: number, userAddress: string, pingedAt: number): Promise<void>;
+
+  /**
+   * Overwrite a user's on-chain liveness, e.g. with the contract's lastPing after a reorg
+   */
+  setOnchainLastSeen(chainId: number, userAddress: string, onchainLastSeen: number | null): Promise<void>;
+
+  /**
+   * Mark a heartbeat nonce as used.
+   * Returns false if the user already used this nonce, i.e. the heartbeat is a replay.
+   * signedAt is the heartbeat's own timestamp in seconds.
+   */
+  consumeNonce(chainId: number, userAddress: string, nonce: string, signedAt: number): Promise<boolean>;
+
+  /**
+   * Hand back a nonce consumed by a request that was then turned away for reasons of our own
+   * (rate limit, RPC outage), so the user's retry isn't rejected as a replay
+   */
+  releaseNonce(chainId: number, userAddress: string, nonce: string): Promise<void>;
+
+  /**
+   * Delete nonces signed before the given timestamp (in seconds).
+   * Heartbeats that old already fail the timestamp check, so their nonces are no longer needed.
+   */
+  pruneNonces(signedBefore: number): Promise<number>;
+
+  /**
+   * Queue a liquidation job for a user/token pair.
+   * Returns the existing job if one is still in flight, so repeated cron runs never double-queue.
+   */
+  enqueueLiquidationJob(chainId: number, userAddress: string, tokenAddress: string, tokenSymbol: string): Promise<LiquidationJob>;
+
+  /**
+   * Move a liquidation job to a new state
+   */
+  updateLiquidationJob(id: string, update: LiquidationJobUpdate): Promise<void>;
+
+  /**
+   * Get a single liquidation job
+   */
+  getLiquidationJob(id: string): Promise<LiquidationJob | null>;
+
+  /**
+   * Get liquidation jobs in any of the given states, oldest first, optionally limited to one source chain
+   */
+  getLiquidationJobs(states: LiquidationJobState[], chainId?: number): Promise<LiquidationJob[]>;
+
+  /**
+   * Number of liquidation jobs per source chain and state
+   */
+  countLiquidationJobs(): Promise<Array<{ chainId: number; state: LiquidationJobState; count: number }>>;
+
+  /**
+   * Get every liquidation job recorded for a user, oldest first
+   */
+  getUserLiquidationJobs(chainId: number, userAddress: string): Promise<LiquidationJob[]>;
+
+  /**
+   * Record a pingFor transaction signed to settle a user's off-chain heartbeat
+   */
+  recordSettlement(chainId: number, userAddress: string, transaction: SubmittedTransaction, offchainLastSeen: number): Promise<SettlementRecord>;
+
+  /**
+   * Update the outcome of a settlement transaction
+   */
+  updateSettlement(id: string, status: SettlementStatus, error?: string | null): Promise<void>;
+
+  /**
+   * Point a settlement at the broadcast that replaced or was mined instead of its original one.
+   * `transaction`, when given, is stored with every hash it was broadcast under.
+   */
+  updateSettlementTxHash(id: string, txHash: string, transaction?: SubmittedTransaction): Promise<void>;
+
+  /**
+   * Get settlements for a user, newest first
+   */
+  getUserSettlements(chainId: number, userAddress: string, limit?: number): Promise<SettlementRecord[]>;
+
+  /**
+   * Get settlements on a source chain that are still waiting for a receipt
+   */
+  getPendingSettlements(chainId: number): Promise<SettlementRecord[]>;
+
+  /**
+   * Start tracking a bridge after a confirmed liquidation.
+   * Registering the same source transaction twice returns the existing row.
+   */
+  createPendingBridge(bridge: NewPendingBridge): Promise<PendingBridge>;
+
+  /**
+   * Get a single tracked bridge
+   */
+  getPendingBridge(id: string): Promise<PendingBridge | null>;
+
+  /**
+   * Get tracked bridges in any of the given statuses, oldest first
+   */
+  getBridgesByStatus(statuses: BridgeStatus[]): Promise<PendingBridge[]>;
+
+  /**
+   * Number of tracked bridges per status
+   */
+  countBridgesByStatus(): Promise<Array<{ status: BridgeStatus; count: number }>>;
+
+  /**
+   * Mark a bridge as arrived at the vault
+   */
+  confirmBridge(id: string, destinationTxHash: string, receivedAmount: string): Promise<void>;
+
+  /**
+   * Move an unconfirmed bridge to a new escalation status
+   */
+  updateBridgeStatus(id: string, status: BridgeStatus): Promise<void>;
+
+  /**
+   * Get the last processed block for a named log scanner
+   */
+  getCheckpoint(name: string): Promise<bigint | null>;
+
+  /**
+   * Store the last processed block for a named log scanner
+   */
+  setCheckpoint(name: string, blockNumber: bigint): Promise<void>;
+
+  /**
+   * Store an indexed event, returns false if it was already stored
+   */
+  insertChainEvent(event: NewChainEvent): Promise<boolean>;
+
+  /**
+   * Get indexed events, newest first
+   */
+  getChainEvents(chainId: number, filter?: { userAddress?: string; eventName?: string; limit?: number }): Promise<ChainEvent[]>;
+
+  /**
+   * Remember the hash of a block the indexer has processed
+   */
+  recordBlockHash(chainId: number, blockNumber: bigint, blockHash: string): Promise<void>;
+
+  /**
+   * Get the most recently processed block hashes, newest first
+   */
+  getRecentBlockHashes(chainId: number, limit: number): Promise<Array<{ blockNumber: bigint; blockHash: string }>>;
+
+  /**
+   * Delete events and block hashes above a block after a reorg, returning the removed events
+   */
+  rollbackChainEvents(chainId: number, afterBlock: bigint): Promise<ChainEvent[]>;
+
+  /**
+   * Forget block hashes below the given block, events are kept
+   */
+  pruneBlockHashes(chainId: number, beforeBlock: bigint): Promise<number>;
+
+  /**
+   * Designate a guardian who may veto a user's pending liquidation
+   */
+  addGuardian(chainId: number, userAddress: string, guardianAddress: string): Promise<void>;
+  removeGuardian(chainId: number, userAddress: string, guardianAddress: string): Promise<boolean>;
+  getGuardians(chainId: number, userAddress: string): Promise<Guardian[]>;
+
+  /**
+   * Open a grace window for a user, returns the open one if there already is one
+   */
+  startPendingLiquidation(chainId: number, userAddress: string, expiresAt: number): Promise<PendingLiquidation>;
+  getPendingLiquidation(id: string): Promise<PendingLiquidation | null>;
+  getOpenPendingLiquidation(chainId: number, userAddress: string): Promise<PendingLiquidation | null>;
+
+  /**
+   * The most recent grace window for a user, whatever its status
+   */
+  getLatestPendingLiquidation(chainId: number, userAddress: string): Promise<PendingLiquidation | null>;
+  getPendingLiquidations(statuses: PendingLiquidationStatus[], chainId?: number): Promise<PendingLiquidation[]>;
+  releasePendingLiquidation(id: string): Promise<void>;
+
+  /**
+   * Cancel a user's open grace window, returns the cancelled window if there was one
+   */
+  cancelPendingLiquidation(chainId: number, userAddress: string, reason: CancelReason, cancelledBy: string): Promise<PendingLiquidation | null>;
+
+  /**
+   * Subscribe an address to a channel, returns the existing channel if it is already subscribed
+   */
+  addNotificationChannel(
+    chainId: number,
+    address: string,
+    channelType: NotificationChannelType,
+    target: string,
+    secret: string | null
+  ): Promise<NotificationChannel>;
+
+  /**
+   * Unsubscribe a channel and drop its undelivered notifications
+   */
+  removeNotificationChannel(chainId: number, address: string, channelType: NotificationChannelType, target: string): Promise<boolean>;
+  getNotificationChannel(id: string): Promise<NotificationChannel | null>;
+
+  /**
+   * Get every channel an address is subscribed with on a source chain
+   */
+  getNotificationChannels(chainId: number, address: string): Promise<NotificationChannel[]>;
+
+  /**
+   * Queue a notification for a channel.
+   * Returns null when one with the same dedupe key was already queued for that channel.
+   */
+  enqueueNotification(channel: NotificationChannel, kind: string, dedupeKey: string, payload: string): Promise<NotificationDelivery | null>;
+  getNotificationDelivery(id: string): Promise<NotificationDelivery | null>;
+
+  /**
+   * Get pending notifications whose next attempt is due, oldest first
+   */
+  getDueNotifications(now: number, limit?: number): Promise<NotificationDelivery[]>;
+  markNotificationDelivered(id: string): Promise<void>;
+
+  /**
+   * Record a failed attempt. With a retry time the notification stays pending, without one it is given up.
+   */
+  markNotificationFailed(id: string, error: string, retryAt: number | null): Promise<void>;
+
+  /**
+   * Get the delivery log, newest first
+   */
+  getNotificationDeliveries(filter?: { address?: string; status?: DeliveryStatus[]; limit?: number }): Promise<NotificationDelivery[]>;
+
+  /**
+   * Count a hit against a fixed rate limit window and return the hits so far in that window.
+   * A hit in a newer window resets the counter.
+   */
+  hitRateLimit(key: string, windowStart: number): Promise<number>;
+
+  /**
+   * Delete rate limit counters for windows that started before the given time (ms)
+   */
+  pruneRateLimits(windowStartBefore: number): Promise<number>;
+
+  /**
+   * Append an entry to the admin audit log
+   */
+  recordAudit(entry: Omit<AuditEntry, 'id' | 'createdAt'>): Promise<void>;
+
+  /**
+   * Get the most recent audit log entries, newest first
+   */
+  getAuditLog(limit?: number): Promise<AuditEntry[]>;
+
+  /**
+   * Take the lease for `holder` if it is free or expired, or extend it if `holder` already has it.
+   * Returns the lease as it stands afterwards, which belongs to someone else when taking it failed.
+   */
+  acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease>;
+
+  /**
+   * Give up a lease so another instance can take it right away. Returns false if `holder` didn't have it.
+   */
+  releaseLease(name: string, holder: string): Promise<boolean>;
+
+  /**
+   * Get a lease, expired or not
+   */
+  getLease(name: string): Promise<Lease | null>;
+
+  /**
+   * Copy every row of the dumped tables, for backups and for moving between backends
+   */
+  exportData(): Promise<StoreDump>;
+
+  /**
+   * Insert the rows of a dump in one transaction, keeping existing rows with the same key.
+   * Returns how many rows were inserted per table.
+   */
+  importData(dump: StoreDump): Promise<Record<string, number>>;
+
+  /**
+   * Write a row and roll it back, throws if the database is locked or read-only
+   */
+  checkWritable(): Promise<void>;
+
+  /**
+   * Close the database connection
+   */
+  close(): Promise<void>;
+}
+
+export type StorageBackend = 'sqlite' | 'postgres';
 
-  constructor(dbPath?: string) {
-    const defaultPath = path.join(__dirname, '..', 'data', 'heartbeats.db');
-    this.db = new Database(dbPath || defaultPath);
-    this.init();
-  }
-
-  private init(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS heartbeats (
-        user_address TEXT PRIMARY KEY,
-        last_seen INTEGER NOT NULL,
-        signature TEXT NOT NULL,
-        inactivity_period INTEGER NOT NULL DEFAULT 604800,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `);
+export interface HeartbeatStoreOptions {
+  backend?: StorageBackend;
+  // SQLite file, DEFAULT_DB_PATH unless given
+  dbPath?: string;
+  // Postgres connection string and pool size
+  databaseUrl?: string | null;
+  poolSize?: number;
+  // Apply pending migrations on open (AUTO_MIGRATE), otherwise refuse to open a database that is behind
+  autoMigrate?: boolean;
+  // Chain that rows from before multi-chain support are assigned to, see MigrationContext
+  legacyChainId?: number;
+}
 
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_heartbeats_last_seen 
-      ON heartbeats(last_seen)
-    `);
+/**
+ * The store in a local SQLite file. Queries are synchronous under the hood, so the
+ * transactions here never interleave with other callers.
+ */
+export class SqliteHeartbeatStore implements HeartbeatStore {
+  private db: Database.Database;
+
+  constructor(dbPath?: string, options: HeartbeatStoreOptions = {}) {
+    this.db = new Database(dbPath || DEFAULT_DB_PATH);
+    this.init(options.autoMigrate ?? true, { legacyChainId: options.legacyChainId });
   }
 
   /**
-   * Record a heartbeat for a user
+   * Check the schema version, then apply pending migrations unless `autoMigrate` is off,
+   * in which case a database that is behind refuses to open
    */
-  recordHeartbeat(userAddress: string, signature: string, inactivityPeriod: number): HeartbeatRecord {
+  private init(autoMigrate: boolean, context: MigrationContext): void {
+    assertKnownSchema(this.db);
+
+    if (!autoMigrate) {
+      const version = getSchemaVersion(this.db);
+      if (version < LATEST_SCHEMA_VERSION) {
+        throw new Error(
+          `Database schema version ${version} is behind ${LATEST_SCHEMA_VERSION}, run \`npm run migrate -- up\` or set AUTO_MIGRATE=true`
+        );
+      }
+      return;
+    }
+
+    migrate(this.db, LATEST_SCHEMA_VERSION, context);
+  }
+
+  async recordHeartbeat(
+    chainId: number,
+    userAddress: string,
+    signature: string,
+    inactivityPeriod: number,
+    lastSeen = Date.now()
+  ): Promise<HeartbeatRecord> {
     const now = Date.now();
     const normalizedAddress = userAddress.toLowerCase();
 
     const stmt = this.db.prepare(`
-      INSERT INTO heartbeats (user_address, last_seen, signature, inactivity_period, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-      ON CONFLICT(user_address) DO UPDATE SET
+      INSERT INTO heartbeats (chain_id, user_address, last_seen, signature, inactivity_period, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(chain_id, user_address) DO UPDATE SET
         last_seen = excluded.last_seen,
         signature = excluded.signature,
         inactivity_period = excluded.inactivity_period,
         updated_at = excluded.updated_at
+      RETURNING *
     `);
 
-    stmt.run(normalizedAddress, now, signature, inactivityPeriod, now, now);
+    const row = stmt.get(chainId, normalizedAddress, lastSeen, signature, inactivityPeriod, now, now) as HeartbeatRow;
+    return toHeartbeatRecord(row);
+  }
 
-    return {
-      userAddress: normalizedAddress,
-      lastSeen: now,
-      signature,
-      inactivityPeriod,
-      createdAt: now,
-      updatedAt: now,
-    };
+  async getHeartbeat(chainId: number, userAddress: string): Promise<HeartbeatRecord | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM heartbeats
+      WHERE chain_id = ? AND user_address = ?
+    `).get(chainId, userAddress.toLowerCase()) as HeartbeatRow | undefined;
+
+    return row ? toHeartbeatRecord(row) : null;
   }
 
-  /**
-   * Get heartbeat record for a specific user
-   */
-  getHeartbeat(userAddress: string): HeartbeatRecord | null {
+  async updateInactivityPeriod(chainId: number, userAddress: string, inactivityPeriod: number): Promise<void> {
+    this.db.prepare(`
+      UPDATE heartbeats SET inactivity_period = ?, updated_at = ?
+      WHERE chain_id = ? AND user_address = ?
+    `).run(inactivityPeriod, Date.now(), chainId, userAddress.toLowerCase());
+  }
+
+  async getInactiveUsers(chainId: number): Promise<HeartbeatRecord[]> {
+    const now = Date.now();
+
+    // Select users where now - (later of off-chain and on-chain liveness) > inactivity_period (converted to ms),
+    // placeholder rows only count their on-chain liveness as in latestLiveness
+    const rows = this.db.prepare(`
+      SELECT * FROM heartbeats
+      WHERE chain_id = ?
+        AND ? - MAX(CASE WHEN signature = ? THEN 0 ELSE last_seen END, COALESCE(onchain_last_seen, 0)) > (inactivity_period * 1000)
+    `).all(chainId, now, PENDING_HEARTBEAT_SIGNATURE) as HeartbeatRow[];
+
+    return rows.map(row => toHeartbeatRecord(row));
+  }
+
+  async removeUser(chainId: number, userAddress: string): Promise<void> {
     const stmt = this.db.prepare(`
-      SELECT user_address, last_seen, signature, inactivity_period, created_at, updated_at
-      FROM heartbeats
-      WHERE user_address = ?
+      DELETE FROM heartbeats WHERE chain_id = ? AND user_address = ?
     `);
+    stmt.run(chainId, userAddress.toLowerCase());
+  }
 
-    const row = stmt.get(userAddress.toLowerCase()) as {
-      user_address: string;
-      last_seen: number;
-      signature: string;
-      inactivity_period: number;
-      created_at: number;
-      updated_at: number;
-    } | undefined;
-
-    if (!row) return null;
-
-    return {
-      userAddress: row.user_address,
-      lastSeen: row.last_seen,
-      signature: row.signature,
-      inactivityPeriod: row.inactivity_period,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
+  async getAllUsers(chainId?: number): Promise<HeartbeatRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM heartbeats
+      WHERE ? IS NULL OR chain_id = ?
+    `).all(chainId ?? null, chainId ?? null) as HeartbeatRow[];
+
+    return rows.map(row => toHeartbeatRecord(row));
   }
 
-  /**
-   * Get all users who haven't pinged in their specified duration (in ms)
-   */
-  getInactiveUsers(): HeartbeatRecord[] {
-    const now = Date.now();
+  async recordOnchainPing(chainId: number, userAddress: string, pingedAt: number): Promise<void> {
+    this.db.prepare(`
+      UPDATE heartbeats
+      SET onchain_last_seen = MAX(COALESCE(onchain_last_seen, 0), ?), updated_at = ?
+      WHERE chain_id = ? AND user_address = ?
+    `).run(pingedAt, Date.now(), chainId, userAddress.toLowerCase());
+  }
+
+  async setOnchainLastSeen(chainId: number, userAddress: string, onchainLastSeen: number | null): Promise<void> {
+    this.db.prepare(`
+      UPDATE heartbeats SET onchain_last_seen = ?, updated_at = ?
+      WHERE chain_id = ? AND user_address = ?
+    `).run(onchainLastSeen, Date.now(), chainId, userAddress.toLowerCase());
+  }
 
-    // Select users where now - last_seen > inactivity_period (converted to ms)
+  async consumeNonce(chainId: number, userAddress: string, nonce: string, signedAt: number): Promise<boolean> {
     const stmt = this.db.prepare(`
-      SELECT user_address, last_seen, signature, inactivity_period, created_at, updated_at
-      FROM heartbeats
-      WHERE ? - last_seen > (inactivity_period * 1000)
+      INSERT INTO heartbeat_nonces (chain_id, user_address, nonce, signed_at, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(chain_id, user_address, nonce) DO NOTHING
     `);
 
-    const rows = stmt.all(now) as Array<{
-      user_address: string;
-      last_seen: number;
-      signature: string;
-      inactivity_period: number;
-      created_at: number;
-      updated_at: number;
-    }>;
+    const result = stmt.run(chainId, userAddress.toLowerCase(), nonce, signedAt, Date.now());
+    return result.changes === 1;
+  }
 
-    return rows.map(row => ({
-      userAddress: row.user_address,
-      lastSeen: row.last_seen,
-      signature: row.signature,
-      inactivityPeriod: row.inactivity_period,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+  async releaseNonce(chainId: number, userAddress: string, nonce: string): Promise<void> {
+    const stmt = this.db.prepare(`
+      DELETE FROM heartbeat_nonces WHERE chain_id = ? AND user_address = ? AND nonce = ?
+    `);
+    stmt.run(chainId, userAddress.toLowerCase(), nonce);
   }
 
-  /**
-   * Remove a user from the heartbeat tracking (after liquidation)
-   */
-  removeUser(userAddress: string): void {
+  async pruneNonces(signedBefore: number): Promise<number> {
     const stmt = this.db.prepare(`
-      DELETE FROM heartbeats WHERE user_address = ?
+      DELETE FROM heartbeat_nonces WHERE signed_at < ?
     `);
-    stmt.run(userAddress.toLowerCase());
+    return stmt.run(signedBefore).changes;
   }
 
-  /**
-   * Get all tracked users
-   */
-  getAllUsers(): HeartbeatRecord[] {
+  async enqueueLiquidationJob(chainId: number, userAddress: string, tokenAddress: string, tokenSymbol: string): Promise<LiquidationJob> {
+    const normalizedUser = userAddress.toLowerCase();
+    const normalizedToken = tokenAddress.toLowerCase();
+
+    const enqueue = this.db.transaction((): LiquidationJob => {
+      const existing = this.db.prepare(`
+        SELECT * FROM liquidation_jobs
+        WHERE chain_id = ? AND user_address = ? AND token_address = ?
+          AND state IN (${ACTIVE_JOB_STATES.map(() => '?').join(', ')})
+        ORDER BY created_at DESC
+        LIMIT 1
+      `).get(chainId, normalizedUser, normalizedToken, ...ACTIVE_JOB_STATES) as LiquidationJobRow | undefined;
+
+      if (existing) return toLiquidationJob(existing);
+
+      const now = Date.now();
+      const job: LiquidationJob = {
+        id: randomUUID(),
+        chainId,
+        userAddress: normalizedUser,
+        tokenAddress: normalizedToken,
+        tokenSymbol,
+        state: 'queued',
+        attempts: 0,
+        lastError: null,
+        failureKind: null,
+        txHash: null,
+        transaction: null,
+        route: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      this.db.prepare(`
+        INSERT INTO liquidation_jobs (id, chain_id, user_address, token_address, token_symbol, state, attempts, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?)
+      `).run(job.id, chainId, job.userAddress, job.tokenAddress, job.tokenSymbol, job.state, now, now);
+
+      return job;
+    });
+
+    return enqueue();
+  }
+
+  async updateLiquidationJob(id: string, update: LiquidationJobUpdate): Promise<void> {
     const stmt = this.db.prepare(`
-      SELECT user_address, last_seen, signature, inactivity_period, created_at, updated_at
-      FROM heartbeats
+      UPDATE liquidation_jobs SET
+        state = ?,
+        last_error = CASE WHEN ? THEN ? ELSE last_error END,
+        failure_kind = CASE WHEN ? THEN ? ELSE failure_kind END,
+        tx_hash = CASE WHEN ? THEN ? ELSE tx_hash END,
+        tx_details = CASE WHEN ? THEN ? ELSE tx_details END,
+        route_provider = CASE WHEN ? THEN ? ELSE route_provider END,
+        quote_id = CASE WHEN ? THEN ? ELSE quote_id END,
+        quote_to_amount = CASE WHEN ? THEN ? ELSE quote_to_amount END,
+        quote_to_amount_min = CASE WHEN ? THEN ? ELSE quote_to_amount_min END,
+        attempts = CASE WHEN ? THEN 0 ELSE attempts + ? END,
+        updated_at = ?
+      WHERE id = ?
     `);
 
-    const rows = stmt.all() as Array<{
-      user_address: string;
-      last_seen: number;
-      signature: string;
-      inactivity_period: number;
-      created_at: number;
-      updated_at: number;
-    }>;
+    stmt.run(
+      update.state,
+      update.lastError !== undefined ? 1 : 0,
+      update.lastError ?? null,
+      update.failureKind !== undefined ? 1 : 0,
+      update.failureKind ?? null,
+      update.txHash !== undefined ? 1 : 0,
+      update.txHash ?? null,
+      update.transaction !== undefined ? 1 : 0,
+      update.transaction ? JSON.stringify(update.transaction) : null,
+      update.route ? 1 : 0,
+      update.route?.provider ?? null,
+      update.route ? 1 : 0,
+      update.route?.quoteId ?? null,
+      update.route ? 1 : 0,
+      update.route?.toAmount ?? null,
+      update.route ? 1 : 0,
+      update.route?.toAmountMin ?? null,
+      update.resetAttempts ? 1 : 0,
+      (update.incrementAttempts ? 1 : 0) - (update.refundAttempt ? 1 : 0),
+      Date.now(),
+      id
+    );
+  }
+
+  async getLiquidationJob(id: string): Promise<LiquidationJob | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM liquidation_jobs WHERE id = ?
+    `).get(id) as LiquidationJobRow | undefined;
 
-    return rows.map(row => ({
-      userAddress: row.user_address,
-      lastSeen: row.last_seen,
-      signature: row.signature,
-      inactivityPeriod: row.inactivity_period,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return row ? toLiquidationJob(row) : null;
   }
 
-  /**
-   * Close the database connection
-   */
-  close(): void {
+  async getLiquidationJobs(states: LiquidationJobState[], chainId?: number): Promise<LiquidationJob[]> {
+    if (states.length === 0) return [];
+
+    const rows = this.db.prepare(`
+      SELECT * FROM liquidation_jobs
+      WHERE state IN (${states.map(() => '?').join(', ')})
+        AND (? IS NULL OR chain_id = ?)
+      ORDER BY created_at ASC
+    `).all(...states, chainId ?? null, chainId ?? null) as LiquidationJobRow[];
+
+    return rows.map(row => toLiquidationJob(row));
+  }
+
+  async countLiquidationJobs(): Promise<Array<{ chainId: number; state: LiquidationJobState; count: number }>> {
+    const rows = this.db.prepare(`
+      SELECT chain_id, state, COUNT(*) AS count FROM liquidation_jobs
+      GROUP BY chain_id, state
+    `).all() as Array<{ chain_id: number; state: LiquidationJobState; count: number }>;
+
+    return rows.map(row => ({ chainId: row.chain_id, state: row.state, count: row.count }));
+  }
+
+  async getUserLiquidationJobs(chainId: number, userAddress: string): Promise<LiquidationJob[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM liquidation_jobs
+      WHERE chain_id = ? AND user_address = ?
+      ORDER BY created_at ASC
+    `).all(chainId, userAddress.toLowerCase()) as LiquidationJobRow[];
+
+    return rows.map(row => toLiquidationJob(row));
+  }
+
+  async recordSettlement(chainId: number, userAddress: string, transaction: SubmittedTransaction, offchainLastSeen: number): Promise<SettlementRecord> {
+    const now = Date.now();
+    const record: SettlementRecord = {
+      id: randomUUID(),
+      chainId,
+      userAddress: userAddress.toLowerCase(),
+      txHash: transaction.hashes[0],
+      transaction,
+      status: 'submitted',
+      offchainLastSeen,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO settlements (id, chain_id, user_address, tx_hash, tx_details, status, offchain_last_seen, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(record.id, chainId, record.userAddress, record.txHash, JSON.stringify(transaction), record.status, offchainLastSeen, now, now);
+
+    return record;
+  }
+
+  async updateSettlement(id: string, status: SettlementStatus, error: string | null = null): Promise<void> {
+    this.db.prepare(`
+      UPDATE settlements SET status = ?, error = ?, updated_at = ? WHERE id = ?
+    `).run(status, error, Date.now(), id);
+  }
+
+  async updateSettlementTxHash(id: string, txHash: string, transaction?: SubmittedTransaction): Promise<void> {
+    this.db.prepare(`
+      UPDATE settlements SET
+        tx_hash = ?,
+        tx_details = CASE WHEN ? THEN ? ELSE tx_details END,
+        updated_at = ?
+      WHERE id = ?
+    `).run(txHash, transaction !== undefined ? 1 : 0, transaction ? JSON.stringify(transaction) : null, Date.now(), id);
+  }
+
+  async getUserSettlements(chainId: number, userAddress: string, limit = 20): Promise<SettlementRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM settlements
+      WHERE chain_id = ? AND user_address = ?
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).all(chainId, userAddress.toLowerCase(), limit) as SettlementRow[];
+
+    return rows.map(row => toSettlement(row));
+  }
+
+  async getPendingSettlements(chainId: number): Promise<SettlementRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM settlements WHERE chain_id = ? AND status = 'submitted' ORDER BY created_at ASC
+    `).all(chainId) as SettlementRow[];
+
+    return rows.map(row => toSettlement(row));
+  }
+
+  async createPendingBridge(bridge: NewPendingBridge): Promise<PendingBridge> {
+    const now = Date.now();
+
+    this.db.prepare(`
+      INSERT INTO pending_bridges (
+        id, job_id, source_chain_id, user_address, beneficiary, token_address, token_symbol,
+        amount, quote_id, expected_amount, min_amount, source_tx_hash, status, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+      ON CONFLICT(source_chain_id, source_tx_hash) DO NOTHING
+    `).run(
+      randomUUID(),
+      bridge.jobId,
+      bridge.sourceChainId,
+      bridge.userAddress.toLowerCase(),
+      bridge.beneficiary.toLowerCase(),
+      bridge.tokenAddress.toLowerCase(),
+      bridge.tokenSymbol,
+      bridge.amount,
+      bridge.quoteId,
+      bridge.expectedAmount,
+      bridge.minAmount,
+      bridge.sourceTxHash,
+      now,
+      now
+    );
+
+    const row = this.db.prepare(`
+      SELECT * FROM pending_bridges WHERE source_chain_id = ? AND source_tx_hash = ?
+    `).get(bridge.sourceChainId, bridge.sourceTxHash) as PendingBridgeRow;
+
+    return toPendingBridge(row);
+  }
+
+  async getPendingBridge(id: string): Promise<PendingBridge | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM pending_bridges WHERE id = ?
+    `).get(id) as PendingBridgeRow | undefined;
+
+    return row ? toPendingBridge(row) : null;
+  }
+
+  async getBridgesByStatus(statuses: BridgeStatus[]): Promise<PendingBridge[]> {
+    if (statuses.length === 0) return [];
+
+    const rows = this.db.prepare(`
+      SELECT * FROM pending_bridges
+      WHERE status IN (${statuses.map(() => '?').join(', ')})
+      ORDER BY created_at ASC
+    `).all(...statuses) as PendingBridgeRow[];
+
+    return rows.map(row => toPendingBridge(row));
+  }
+
+  async countBridgesByStatus(): Promise<Array<{ status: BridgeStatus; count: number }>> {
+    return this.db.prepare(`
+      SELECT status, COUNT(*) AS count FROM pending_bridges
+      GROUP BY status
+    `).all() as Array<{ status: BridgeStatus; count: number }>;
+  }
+
+  async confirmBridge(id: string, destinationTxHash: string, receivedAmount: string): Promise<void> {
+    const now = Date.now();
+    this.db.prepare(`
+      UPDATE pending_bridges SET
+        status = 'confirmed',
+        destination_tx_hash = ?,
+        received_amount = ?,
+        confirmed_at = ?,
+        updated_at = ?
+      WHERE id = ?
+    `).run(destinationTxHash, receivedAmount, now, now, id);
+  }
+
+  async updateBridgeStatus(id: string, status: BridgeStatus): Promise<void> {
+    this.db.prepare(`
+      UPDATE pending_bridges SET status = ?, updated_at = ? WHERE id = ?
+    `).run(status, Date.now(), id);
+  }
+
+  async getCheckpoint(name: string): Promise<bigint | null> {
+    const row = this.db.prepare(`
+      SELECT block_number FROM checkpoints WHERE name = ?
+    `).get(name) as { block_number: number } | undefined;
+
+    return row ? BigInt(row.block_number) : null;
+  }
+
+  async setCheckpoint(name: string, blockNumber: bigint): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO checkpoints (name, block_number, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        block_number = excluded.block_number,
+        updated_at = excluded.updated_at
+    `).run(name, Number(blockNumber), Date.now());
+  }
+
+  async insertChainEvent(event: NewChainEvent): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO chain_events
+        (chain_id, block_number, block_hash, tx_hash, log_index, event_name, user_address, args, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.chainId,
+      event.blockNumber,
+      event.blockHash,
+      event.txHash.toLowerCase(),
+      event.logIndex,
+      event.eventName,
+      event.userAddress?.toLowerCase() ?? null,
+      JSON.stringify(event.args),
+      Date.now()
+    );
+
+    return result.changes > 0;
+  }
+
+  async getChainEvents(chainId: number, filter: { userAddress?: string; eventName?: string; limit?: number } = {}): Promise<ChainEvent[]> {
+    const conditions = ['chain_id = ?'];
+    const params: Array<string | number> = [chainId];
+
+    if (filter.userAddress) {
+      conditions.push('user_address = ?');
+      params.push(filter.userAddress.toLowerCase());
+    }
+    if (filter.eventName) {
+      conditions.push('event_name = ?');
+      params.push(filter.eventName);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM chain_events
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY block_number DESC, log_index DESC
+      LIMIT ?
+    `).all(...params, filter.limit ?? 100) as ChainEventRow[];
+
+    return rows.map(row => toChainEvent(row));
+  }
+
+  async recordBlockHash(chainId: number, blockNumber: bigint, blockHash: string): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO indexed_blocks (chain_id, block_number, block_hash)
+      VALUES (?, ?, ?)
+      ON CONFLICT(chain_id, block_number) DO UPDATE SET block_hash = excluded.block_hash
+    `).run(chainId, Number(blockNumber), blockHash);
+  }
+
+  async getRecentBlockHashes(chainId: number, limit: number): Promise<Array<{ blockNumber: bigint; blockHash: string }>> {
+    const rows = this.db.prepare(`
+      SELECT block_number, block_hash FROM indexed_blocks
+      WHERE chain_id = ?
+      ORDER BY block_number DESC
+      LIMIT ?
+    `).all(chainId, limit) as Array<{ block_number: number; block_hash: string }>;
+
+    return rows.map(row => ({ blockNumber: BigInt(row.block_number), blockHash: row.block_hash }));
+  }
+
+  async rollbackChainEvents(chainId: number, afterBlock: bigint): Promise<ChainEvent[]> {
+    const rollback = this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT * FROM chain_events WHERE chain_id = ? AND block_number > ?
+        ORDER BY block_number DESC, log_index DESC
+      `).all(chainId, Number(afterBlock)) as ChainEventRow[];
+
+      this.db.prepare(`
+        DELETE FROM chain_events WHERE chain_id = ? AND block_number > ?
+      `).run(chainId, Number(afterBlock));
+      this.db.prepare(`
+        DELETE FROM indexed_blocks WHERE chain_id = ? AND block_number > ?
+      `).run(chainId, Number(afterBlock));
+
+      return rows;
+    });
+
+    return rollback().map(row => toChainEvent(row));
+  }
+
+  async pruneBlockHashes(chainId: number, beforeBlock: bigint): Promise<number> {
+    return this.db.prepare(`
+      DELETE FROM indexed_blocks WHERE chain_id = ? AND block_number < ?
+    `).run(chainId, Number(beforeBlock)).changes;
+  }
+
+  async addGuardian(chainId: number, userAddress: string, guardianAddress: string): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO guardians (chain_id, user_address, guardian_address, created_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(chain_id, user_address, guardian_address) DO NOTHING
+    `).run(chainId, userAddress.toLowerCase(), guardianAddress.toLowerCase(), Date.now());
+  }
+
+  async removeGuardian(chainId: number, userAddress: string, guardianAddress: string): Promise<boolean> {
+    return this.db.prepare(`
+      DELETE FROM guardians WHERE chain_id = ? AND user_address = ? AND guardian_address = ?
+    `).run(chainId, userAddress.toLowerCase(), guardianAddress.toLowerCase()).changes > 0;
+  }
+
+  async getGuardians(chainId: number, userAddress: string): Promise<Guardian[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM guardians WHERE chain_id = ? AND user_address = ?
+      ORDER BY created_at ASC
+    `).all(chainId, userAddress.toLowerCase()) as GuardianRow[];
+
+    return rows.map(row => toGuardian(row));
+  }
+
+  async startPendingLiquidation(chainId: number, userAddress: string, expiresAt: number): Promise<PendingLiquidation> {
+    const normalizedUser = userAddress.toLowerCase();
+
+    const start = this.db.transaction((): PendingLiquidationRow => {
+      const open = this.db.prepare(`
+        SELECT * FROM pending_liquidations
+        WHERE chain_id = ? AND user_address = ? AND status = 'pending'
+        ORDER BY started_at DESC
+        LIMIT 1
+      `).get(chainId, normalizedUser) as PendingLiquidationRow | undefined;
+      if (open) return open;
+
+      const now = Date.now();
+      return this.db.prepare(`
+        INSERT INTO pending_liquidations (id, chain_id, user_address, status, started_at, expires_at, updated_at)
+        VALUES (?, ?, ?, 'pending', ?, ?, ?)
+        RETURNING *
+      `).get(randomUUID(), chainId, normalizedUser, now, expiresAt, now) as PendingLiquidationRow;
+    });
+
+    return toPendingLiquidation(start());
+  }
+
+  async getPendingLiquidation(id: string): Promise<PendingLiquidation | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM pending_liquidations WHERE id = ?
+    `).get(id) as PendingLiquidationRow | undefined;
+
+    return row ? toPendingLiquidation(row) : null;
+  }
+
+  async getOpenPendingLiquidation(chainId: number, userAddress: string): Promise<PendingLiquidation | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM pending_liquidations
+      WHERE chain_id = ? AND user_address = ? AND status = 'pending'
+      ORDER BY started_at DESC
+      LIMIT 1
+    `).get(chainId, userAddress.toLowerCase()) as PendingLiquidationRow | undefined;
+
+    return row ? toPendingLiquidation(row) : null;
+  }
+
+  async getLatestPendingLiquidation(chainId: number, userAddress: string): Promise<PendingLiquidation | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM pending_liquidations
+      WHERE chain_id = ? AND user_address = ?
+      ORDER BY started_at DESC
+      LIMIT 1
+    `).get(chainId, userAddress.toLowerCase()) as PendingLiquidationRow | undefined;
+
+    return row ? toPendingLiquidation(row) : null;
+  }
+
+  async getPendingLiquidations(statuses: PendingLiquidationStatus[], chainId?: number): Promise<PendingLiquidation[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM pending_liquidations
+      WHERE status IN (${statuses.map(() => '?').join(', ')})
+        AND (? IS NULL OR chain_id = ?)
+      ORDER BY started_at DESC
+    `).all(...statuses, chainId ?? null, chainId ?? null) as PendingLiquidationRow[];
+
+    return rows.map(row => toPendingLiquidation(row));
+  }
+
+  async releasePendingLiquidation(id: string): Promise<void> {
+    const now = Date.now();
+    this.db.prepare(`
+      UPDATE pending_liquidations SET status = 'released', resolved_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'pending'
+    `).run(now, now, id);
+  }
+
+  async cancelPendingLiquidation(chainId: number, userAddress: string, reason: CancelReason, cancelledBy: string): Promise<PendingLiquidation | null> {
+    const now = Date.now();
+    const row = this.db.prepare(`
+      UPDATE pending_liquidations
+      SET status = 'cancelled', cancel_reason = ?, cancelled_by = ?, resolved_at = ?, updated_at = ?
+      WHERE chain_id = ? AND user_address = ? AND status = 'pending'
+      RETURNING *
+    `).get(reason, cancelledBy.toLowerCase(), now, now, chainId, userAddress.toLowerCase()) as PendingLiquidationRow | undefined;
+
+    return row ? toPendingLiquidation(row) : null;
+  }
+
+  async addNotificationChannel(
+    chainId: number,
+    address: string,
+    channelType: NotificationChannelType,
+    target: string,
+    secret: string | null
+  ): Promise<NotificationChannel> {
+    const normalizedAddress = address.toLowerCase();
+
+    this.db.prepare(`
+      INSERT INTO notification_channels (id, chain_id, address, channel_type, target, secret, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(chain_id, address, channel_type, target) DO NOTHING
+    `).run(randomUUID(), chainId, normalizedAddress, channelType, target, secret, Date.now());
+
+    const row = this.db.prepare(`
+      SELECT * FROM notification_channels
+      WHERE chain_id = ? AND address = ? AND channel_type = ? AND target = ?
+    `).get(chainId, normalizedAddress, channelType, target) as NotificationChannelRow;
+
+    return toNotificationChannel(row);
+  }
+
+  async removeNotificationChannel(chainId: number, address: string, channelType: NotificationChannelType, target: string): Promise<boolean> {
+    const remove = this.db.transaction(() => {
+      const row = this.db.prepare(`
+        SELECT id FROM notification_channels
+        WHERE chain_id = ? AND address = ? AND channel_type = ? AND target = ?
+      `).get(chainId, address.toLowerCase(), channelType, target) as { id: string } | undefined;
+
+      if (!row) return false;
+
+      this.db.prepare(`
+        DELETE FROM notification_deliveries WHERE channel_id = ? AND status = 'pending'
+      `).run(row.id);
+      this.db.prepare(`DELETE FROM notification_channels WHERE id = ?`).run(row.id);
+      return true;
+    });
+
+    return remove();
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM notification_channels WHERE id = ?
+    `).get(id) as NotificationChannelRow | undefined;
+
+    return row ? toNotificationChannel(row) : null;
+  }
+
+  async getNotificationChannels(chainId: number, address: string): Promise<NotificationChannel[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM notification_channels
+      WHERE chain_id = ? AND address = ?
+      ORDER BY created_at ASC
+    `).all(chainId, address.toLowerCase()) as NotificationChannelRow[];
+
+    return rows.map(row => toNotificationChannel(row));
+  }
+
+  async enqueueNotification(channel: NotificationChannel, kind: string, dedupeKey: string, payload: string): Promise<NotificationDelivery | null> {
+    const now = Date.now();
+    const id = randomUUID();
+
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO notification_deliveries
+        (id, channel_id, chain_id, address, kind, dedupe_key, payload, status, attempts, next_attempt_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)
+    `).run(id, channel.id, channel.chainId, channel.address, kind, dedupeKey, payload, now, now, now);
+
+    return result.changes > 0 ? this.getNotificationDelivery(id) : null;
+  }
+
+  async getNotificationDelivery(id: string): Promise<NotificationDelivery | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM notification_deliveries WHERE id = ?
+    `).get(id) as NotificationDeliveryRow | undefined;
+
+    return row ? toNotificationDelivery(row) : null;
+  }
+
+  async getDueNotifications(now: number, limit = 100): Promise<NotificationDelivery[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM notification_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `).all(now, limit) as NotificationDeliveryRow[];
+
+    return rows.map(row => toNotificationDelivery(row));
+  }
+
+  async markNotificationDelivered(id: string): Promise<void> {
+    const now = Date.now();
+    this.db.prepare(`
+      UPDATE notification_deliveries
+      SET status = 'delivered', attempts = attempts + 1, last_error = NULL, delivered_at = ?, updated_at = ?
+      WHERE id = ?
+    `).run(now, now, id);
+  }
+
+  async markNotificationFailed(id: string, error: string, retryAt: number | null): Promise<void> {
+    this.db.prepare(`
+      UPDATE notification_deliveries
+      SET status = ?, attempts = attempts + 1, last_error = ?, next_attempt_at = COALESCE(?, next_attempt_at), updated_at = ?
+      WHERE id = ?
+    `).run(retryAt === null ? 'failed' : 'pending', error, retryAt, Date.now(), id);
+  }
+
+  async getNotificationDeliveries(filter: { address?: string; status?: DeliveryStatus[]; limit?: number } = {}): Promise<NotificationDelivery[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.address) {
+      conditions.push('address = ?');
+      params.push(filter.address.toLowerCase());
+    }
+    if (filter.status && filter.status.length > 0) {
+      conditions.push(`status IN (${filter.status.map(() => '?').join(', ')})`);
+      params.push(...filter.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM notification_deliveries ${where}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).all(...params, filter.limit ?? 100) as NotificationDeliveryRow[];
+
+    return rows.map(row => toNotificationDelivery(row));
+  }
+
+  async hitRateLimit(key: string, windowStart: number): Promise<number> {
+    const row = this.db.prepare(`
+      INSERT INTO rate_limits (key, window_start, count)
+      VALUES (?, ?, 1)
+      ON CONFLICT(key) DO UPDATE SET
+        count = CASE WHEN rate_limits.window_start = excluded.window_start THEN rate_limits.count + 1 ELSE 1 END,
+        window_start = excluded.window_start
+      RETURNING count
+    `).get(key, windowStart) as { count: number };
+
+    return row.count;
+  }
+
+  async pruneRateLimits(windowStartBefore: number): Promise<number> {
+    return this.db.prepare(`
+      DELETE FROM rate_limits WHERE window_start < ?
+    `).run(windowStartBefore).changes;
+  }
+
+  async recordAudit(entry: Omit<AuditEntry, 'id' | 'createdAt'>): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO audit_log (id, actor, role, auth_method, action, details, ip, outcome, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      randomUUID(),
+      entry.actor,
+      entry.role,
+      entry.authMethod,
+      entry.action,
+      entry.details,
+      entry.ip,
+      entry.outcome,
+      Date.now()
+    );
+  }
+
+  async getAuditLog(limit = 100): Promise<AuditEntry[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM audit_log ORDER BY created_at DESC LIMIT ?
+    `).all(limit) as AuditRow[];
+
+    return rows.map(row => toAuditEntry(row));
+  }
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease> {
+    const now = Date.now();
+    const row = this.db.prepare(`
+      INSERT INTO leases (name, holder, acquired_at, renewed_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        acquired_at = CASE WHEN leases.holder = excluded.holder THEN leases.acquired_at ELSE excluded.acquired_at END,
+        holder = excluded.holder,
+        renewed_at = excluded.renewed_at,
+        expires_at = excluded.expires_at
+      WHERE leases.holder = excluded.holder OR leases.expires_at <= excluded.renewed_at
+      RETURNING *
+    `).get(name, holder, now, now, now + ttlMs) as LeaseRow | undefined;
+
+    return toLease(row ?? this.db.prepare(`SELECT * FROM leases WHERE name = ?`).get(name) as LeaseRow);
+  }
+
+  async releaseLease(name: string, holder: string): Promise<boolean> {
+    return this.db.prepare(`
+      DELETE FROM leases WHERE name = ? AND holder = ?
+    `).run(name, holder).changes > 0;
+  }
+
+  async getLease(name: string): Promise<Lease | null> {
+    const row = this.db.prepare(`SELECT * FROM leases WHERE name = ?`).get(name) as LeaseRow | undefined;
+    return row ? toLease(row) : null;
+  }
+
+  async exportData(): Promise<StoreDump> {
+    const tables: StoreDump['tables'] = {};
+    for (const table of DUMP_TABLES) {
+      tables[table] = this.db.prepare(`SELECT * FROM ${table}`).all() as Array<Record<string, unknown>>;
+    }
+    return { backend: 'sqlite', exportedAt: Date.now(), tables };
+  }
+
+  async importData(dump: StoreDump): Promise<Record<string, number>> {
+    assertValidDump(dump);
+
+    const load = this.db.transaction((): Record<string, number> => {
+      const inserted: Record<string, number> = {};
+      for (const table of DUMP_TABLES) {
+        inserted[table] = 0;
+        for (const row of dump.tables[table] ?? []) {
+          const columns = Object.keys(row);
+          inserted[table] += this.db.prepare(`
+            INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+          `).run(...columns.map(column => row[column])).changes;
+        }
+      }
+      return inserted;
+    });
+
+    return load();
+  }
+
+  async checkWritable(): Promise<void> {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO checkpoints (name, block_number, updated_at) VALUES ('health-check', 0, ?)
+      `).run(Date.now());
+    } finally {
+      this.db.exec('ROLLBACK');
+    }
+  }
+
+  async close(): Promise<void> {
     this.db.close();
   }
 }
@@ -182,9 +1863,27 @@ export class HeartbeatStore {
 // Singleton instance for the application
 let storeInstance: HeartbeatStore | null = null;
 
-export function getHeartbeatStore(dbPath?: string): HeartbeatStore {
+/**
+ * Open the application's store on the configured backend, once. Postgres is loaded only when used.
+ */
+export async function openHeartbeatStore(options: HeartbeatStoreOptions = {}): Promise<HeartbeatStore> {
+  if (storeInstance) return storeInstance;
+
+  if (options.backend === 'postgres') {
+    const { PostgresHeartbeatStore } = await import('./postgresStore.js');
+    storeInstance = await PostgresHeartbeatStore.open(options);
+  } else {
+    storeInstance = new SqliteHeartbeatStore(options.dbPath, options);
+  }
+  return storeInstance;
+}
+
+/**
+ * The store opened by `openHeartbeatStore`
+ */
+export function getHeartbeatStore(): HeartbeatStore {
   if (!storeInstance) {
-    storeInstance = new HeartbeatStore(dbPath);
+    throw new Error('Heartbeat store is not open, call openHeartbeatStore() first');
   }
   return storeInstance;
 }
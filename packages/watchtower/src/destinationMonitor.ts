@@ -1,5 +1,17 @@
-import { createPublicClient, http, type Address, type Log } from 'viem';
-import { arbitrum } from 'viem/chains';
+import { createPublicClient, http, type Address, type PublicClient } from 'viem';
+import {
+  getHeartbeatStore,
+  OPEN_BRIDGE_STATUSES,
+  type BridgeStatus,
+  type NewPendingBridge,
+  type PendingBridge,
+} from './database.js';
+import { resolveChain, type Config } from './config.js';
+import { notifyBridgeArrival } from './notifications.js';
+import { createLogger, withLogContext } from './logger.js';
+import { withRpcMetrics } from './metrics.js';
+
+const log = createLogger('destination');
 
 // LazarusVault ABI (minimal for event monitoring)
 const LazarusVaultABI = [
@@ -21,121 +33,205 @@ interface DepositedEvent {
   amount: bigint;
   blockNumber: bigint;
   transactionHash: `0x${string}`;
-}
-
-interface PendingBridge {
-  userAddress: Address;
-  beneficiary: Address;
-  sourceTxHash: `0x${string}`;
   timestamp: number;
-  tokenSymbol: string;
 }
 
-// In-memory store for pending bridges
-const pendingBridges: Map<string, PendingBridge> = new Map();
+// How far back the very first scan starts, before any checkpoint exists
+const INITIAL_LOOKBACK_BLOCKS = 10_000n;
+
+// Deposits may carry a block timestamp slightly before we registered the bridge
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Order in which an unconfirmed bridge escalates
+const ESCALATION_ORDER: BridgeStatus[] = ['pending', 'stuck', 'escalated'];
+
+// Guards against overlapping scans
+let destinationCheckRunning = false;
 
 /**
- * Add a pending bridge to monitor
+ * Start tracking a bridge after a confirmed liquidation
  */
-export function addPendingBridge(bridge: PendingBridge): void {
-  const key = `${bridge.beneficiary}-${bridge.sourceTxHash}`;
-  pendingBridges.set(key, bridge);
-  console.log(`[DestMonitor] Added pending bridge for ${bridge.beneficiary} (${bridge.tokenSymbol})`);
+export async function addPendingBridge(bridge: NewPendingBridge): Promise<PendingBridge> {
+  const pending = await getHeartbeatStore().createPendingBridge(bridge);
+  log.info('Added pending bridge', { bridgeId: pending.id, beneficiary: bridge.beneficiary, token: bridge.tokenSymbol });
+  return pending;
 }
 
 /**
  * Create a destination chain client
  */
-export function createDestinationClient(rpcUrl: string) {
+export function createDestinationClient(config: Config): PublicClient {
   return createPublicClient({
-    chain: arbitrum, // Arc Network / Arbitrum
-    transport: http(rpcUrl),
+    chain: resolveChain(config.destinationChainId, config.destinationRpcUrl),
+    transport: withRpcMetrics(http(config.destinationRpcUrl), config.destinationChainId),
   });
 }
 
 /**
- * Check for Deposited events on the vault
+ * Fetch Deposited events on the vault for a block range.
+ * Errors are thrown rather than swallowed, so the caller never checkpoints past a range it failed to read.
  */
 export async function checkDestinationDeposits(
-  rpcUrl: string,
+  client: PublicClient,
   vaultAddress: Address,
-  fromBlock: bigint
+  fromBlock: bigint,
+  toBlock: bigint
 ): Promise<DepositedEvent[]> {
-  const client = createDestinationClient(rpcUrl);
+  const logs = await client.getLogs({
+    address: vaultAddress,
+    event: LazarusVaultABI[0],
+    fromBlock,
+    toBlock,
+  });
 
-  try {
-    const logs = await client.getLogs({
-      address: vaultAddress,
-      event: {
-        type: 'event',
-        name: 'Deposited',
-        inputs: [
-          { type: 'address', indexed: true, name: 'depositor' },
-          { type: 'address', indexed: true, name: 'beneficiary' },
-          { type: 'uint256', indexed: false, name: 'amount' },
-        ],
-      },
-      fromBlock,
-      toBlock: 'latest',
-    });
+  const timestamps = new Map<bigint, number>();
+  const deposits: DepositedEvent[] = [];
 
-    return logs.map((log) => ({
+  for (const log of logs) {
+    let timestamp = timestamps.get(log.blockNumber);
+    if (timestamp === undefined) {
+      const block = await client.getBlock({ blockNumber: log.blockNumber });
+      timestamp = Number(block.timestamp) * 1000;
+      timestamps.set(log.blockNumber, timestamp);
+    }
+
+    deposits.push({
       depositor: log.args.depositor!,
       beneficiary: log.args.beneficiary!,
       amount: log.args.amount!,
       blockNumber: log.blockNumber,
       transactionHash: log.transactionHash,
-    }));
-  } catch (error) {
-    console.error('[DestMonitor] Error fetching deposit events:', error);
-    return [];
+      timestamp,
+    });
   }
+
+  return deposits;
+}
+
+/**
+ * A deposit matches a bridge when it goes to the same beneficiary, lands within the
+ * matching window after the liquidation, and its amount is within tolerance of the quote.
+ * Bridges without a quote (mock routes) are matched on beneficiary and time only.
+ */
+function matchesBridge(bridge: PendingBridge, deposit: DepositedEvent, config: Config): boolean {
+  if (deposit.beneficiary.toLowerCase() !== bridge.beneficiary) return false;
+
+  const windowEnd = bridge.createdAt + config.bridgeMatchWindowSeconds * 1000;
+  if (deposit.timestamp < bridge.createdAt - CLOCK_SKEW_MS || deposit.timestamp > windowEnd) return false;
+
+  const tolerance = BigInt(config.bridgeAmountToleranceBps);
+  if (bridge.minAmount !== null) {
+    const floor = (BigInt(bridge.minAmount) * (10000n - tolerance)) / 10000n;
+    if (deposit.amount < floor) return false;
+  }
+  if (bridge.expectedAmount !== null) {
+    const ceiling = (BigInt(bridge.expectedAmount) * (10000n + tolerance)) / 10000n;
+    if (deposit.amount > ceiling) return false;
+  }
+
+  return true;
 }
 
 /**
  * Run destination monitoring check
- * Matches pending bridges with actual deposits
+ * Scans new vault deposits from the last checkpoint, matches them with pending bridges,
+ * then escalates bridges that are still unmatched
  */
 export async function runDestinationCheck(
-  rpcUrl: string,
-  vaultAddress: Address,
-  fromBlock: bigint
-): Promise<{ confirmed: string[]; stuck: PendingBridge[] }> {
-  const deposits = await checkDestinationDeposits(rpcUrl, vaultAddress, fromBlock);
-  const confirmed: string[] = [];
+  config: Config
+): Promise<{ confirmed: PendingBridge[]; stuck: PendingBridge[]; escalated: PendingBridge[] }> {
+  const confirmed: PendingBridge[] = [];
   const stuck: PendingBridge[] = [];
+  const escalated: PendingBridge[] = [];
 
-  // Check each pending bridge
-  const staleThreshold = 30 * 60 * 1000; // 30 minutes
-  const now = Date.now();
-
-  for (const [key, bridge] of pendingBridges.entries()) {
-    // Check if there's a matching deposit
-    const matchingDeposit = deposits.find(
-      (d) => d.beneficiary.toLowerCase() === bridge.beneficiary.toLowerCase()
-    );
-
-    if (matchingDeposit) {
-      console.log(
-        `[DestMonitor] ✅ Bridge confirmed for ${bridge.beneficiary}: ${matchingDeposit.transactionHash}`
-      );
-      confirmed.push(key);
-      pendingBridges.delete(key);
-    } else if (now - bridge.timestamp > staleThreshold) {
-      // Bridge is taking too long, flag as potentially stuck
-      console.warn(
-        `[DestMonitor] ⚠️ Bridge may be stuck for ${bridge.beneficiary} (source tx: ${bridge.sourceTxHash})`
-      );
-      stuck.push(bridge);
-    }
+  if (destinationCheckRunning) {
+    log.info('Previous check still in progress, skipping');
+    return { confirmed, stuck, escalated };
   }
 
-  return { confirmed, stuck };
+  destinationCheckRunning = true;
+  try {
+    const store = getHeartbeatStore();
+    const client = createDestinationClient(config);
+    const checkpointName = `vault-deposits:${config.destinationChainId}:${config.lazarusVaultAddress.toLowerCase()}`;
+
+    const latest = await client.getBlockNumber();
+    const checkpoint = await store.getCheckpoint(checkpointName)
+      ?? (latest > INITIAL_LOOKBACK_BLOCKS ? latest - INITIAL_LOOKBACK_BLOCKS : 0n);
+
+    const open = await store.getBridgesByStatus(OPEN_BRIDGE_STATUSES);
+
+    if (open.length === 0) {
+      // Nothing could match, skip straight to the head
+      await store.setCheckpoint(checkpointName, latest);
+    } else {
+      const range = BigInt(config.destinationLogRange);
+
+      for (let from = checkpoint + 1n; from <= latest; from += range) {
+        const to = from + range - 1n < latest ? from + range - 1n : latest;
+        const deposits = await checkDestinationDeposits(client, config.lazarusVaultAddress, from, to);
+
+        for (const deposit of deposits) {
+          // Oldest bridge first, each bridge and each deposit is matched at most once
+          const index = open.findIndex(bridge => matchesBridge(bridge, deposit, config));
+          if (index === -1) continue;
+
+          const [bridge] = open.splice(index, 1);
+          await store.confirmBridge(bridge.id, deposit.transactionHash, deposit.amount.toString());
+          const confirmedBridge = (await store.getPendingBridge(bridge.id))!;
+          await withLogContext({ bridgeId: bridge.id }, () => {
+            log.info('Bridge confirmed', {
+              beneficiary: bridge.beneficiary,
+              destinationTxHash: deposit.transactionHash,
+              amount: deposit.amount,
+            });
+            return notifyBridgeArrival(config, confirmedBridge);
+          });
+          confirmed.push(confirmedBridge);
+        }
+
+        await store.setCheckpoint(checkpointName, to);
+      }
+    }
+
+    // Escalate whatever is still unmatched by age
+    const now = Date.now();
+    for (const bridge of open) {
+      const age = now - bridge.createdAt;
+      const target: BridgeStatus = age > config.bridgeEscalateAfterSeconds * 1000
+        ? 'escalated'
+        : age > config.bridgeStuckAfterSeconds * 1000
+          ? 'stuck'
+          : 'pending';
+
+      if (ESCALATION_ORDER.indexOf(target) <= ESCALATION_ORDER.indexOf(bridge.status)) continue;
+
+      await store.updateBridgeStatus(bridge.id, target);
+      const updated = { ...bridge, status: target };
+
+      if (target === 'escalated') {
+        log.error('Bridge escalated, needs manual follow-up', {
+          bridgeId: bridge.id,
+          beneficiary: bridge.beneficiary,
+          sourceTxHash: bridge.sourceTxHash,
+        });
+        escalated.push(updated);
+      } else {
+        // Bridge is taking too long, flag as potentially stuck
+        log.warn('Bridge may be stuck', { bridgeId: bridge.id, beneficiary: bridge.beneficiary, sourceTxHash: bridge.sourceTxHash });
+        stuck.push(updated);
+      }
+    }
+
+    return { confirmed, stuck, escalated };
+  } finally {
+    destinationCheckRunning = false;
+  }
 }
 
 /**
- * Get all pending bridges (for API endpoint)
+ * Get tracked bridges (for API endpoint), by default the ones not yet confirmed
  */
-export function getPendingBridges(): PendingBridge[] {
-  return Array.from(pendingBridges.values());
+export function getPendingBridges(statuses: BridgeStatus[] = OPEN_BRIDGE_STATUSES): Promise<PendingBridge[]> {
+  return getHeartbeatStore().getBridgesByStatus(statuses);
 }
@@ -0,0 +1,349 @@
+import { keccak256, parseUnits, type Address, type Hex, type PublicClient, type TransactionReceipt } from 'viem';
+import type { Config, SourceClients } from './config.js';
+import type { SubmittedTransaction } from './database.js';
+import { assertLeader } from './leader.js';
+import type { Route } from './routes.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('gas');
+
+// Extra gas on top of the estimate, state can shift between estimate and inclusion
+const GAS_LIMIT_BUFFER_PERCENT = 20n;
+
+// Nodes reject replacements that don't raise both fees by at least 10%
+const MIN_FEE_BUMP_PERCENT = 10n;
+
+const RECEIPT_POLL_INTERVAL_MS = 4000;
+
+export interface FeeSettings {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface TransactionRequest {
+  to: Address;
+  data: Hex;
+  gas: bigint;
+}
+
+/**
+ * A transaction the watchtower sent, with every hash it was (re)broadcast under at this nonce
+ */
+export interface ManagedTransaction extends TransactionRequest, FeeSettings {
+  nonce: number;
+  hashes: Hex[];
+}
+
+/**
+ * A managed transaction as stored with a liquidation job or settlement
+ */
+export function toSubmittedTransaction(tx: ManagedTransaction): SubmittedTransaction {
+  return {
+    to: tx.to,
+    data: tx.data,
+    gas: tx.gas.toString(),
+    nonce: tx.nonce,
+    maxFeePerGas: tx.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas.toString(),
+    hashes: tx.hashes,
+  };
+}
+
+export function fromSubmittedTransaction(tx: SubmittedTransaction): ManagedTransaction {
+  return {
+    to: tx.to as Address,
+    data: tx.data as Hex,
+    gas: BigInt(tx.gas),
+    nonce: tx.nonce,
+    maxFeePerGas: BigInt(tx.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas),
+    hashes: tx.hashes as Hex[],
+  };
+}
+
+/**
+ * Hands out nonces for the watchtower account on one chain.
+ * Sends are serialized so concurrent jobs (liquidations, settlements) never reuse a nonce.
+ * The nonce is only consumed when the send succeeds, any failure re-reads it from the chain.
+ */
+class NonceManager {
+  private next: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly clients: SourceClients) {}
+
+  withNonce<T>(send: (nonce: number) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      if (this.next === null) {
+        const { publicClient, walletClient } = this.clients;
+        this.next = await publicClient.getTransactionCount({ address: walletClient.account!.address, blockTag: 'pending' });
+      }
+
+      try {
+        const result = await send(this.next);
+        this.next++;
+        return result;
+      } catch (error) {
+        this.next = null;
+        throw error;
+      }
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Re-read the nonce from the chain before the next send, once the sends already queued are done
+   */
+  resync(): void {
+    this.queue = this.queue.then(() => {
+      this.next = null;
+    });
+  }
+}
+
+const nonceManagers = new Map<number, NonceManager>();
+
+function getNonceManager(clients: SourceClients): NonceManager {
+  let manager = nonceManagers.get(clients.source.chainId);
+  if (!manager) {
+    manager = new NonceManager(clients);
+    nonceManagers.set(clients.source.chainId, manager);
+  }
+  return manager;
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function capFees(config: Config, fees: FeeSettings): FeeSettings {
+  const maxFeePerGas = minBigInt(fees.maxFeePerGas, config.maxFeePerGas);
+  const maxPriorityFeePerGas = minBigInt(fees.maxPriorityFeePerGas, config.maxPriorityFeePerGas);
+  return { maxFeePerGas, maxPriorityFeePerGas: minBigInt(maxPriorityFeePerGas, maxFeePerGas) };
+}
+
+/**
+ * Current EIP-1559 fees for a chain, capped at MAX_FEE_PER_GAS_GWEI and MAX_PRIORITY_FEE_PER_GAS_GWEI
+ */
+export async function estimateFees(publicClient: PublicClient, config: Config): Promise<FeeSettings> {
+  const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+  return capFees(config, { maxFeePerGas, maxPriorityFeePerGas });
+}
+
+/**
+ * Fees for replacing a stuck transaction, raised by FEE_BUMP_PERCENT and never below the
+ * current network fees. Returns null once the caps leave no room for a valid replacement.
+ */
+async function bumpFees(publicClient: PublicClient, config: Config, fees: FeeSettings): Promise<FeeSettings | null> {
+  const percent = maxBigInt(BigInt(config.feeBumpPercent), MIN_FEE_BUMP_PERCENT);
+  const minMaxFee = fees.maxFeePerGas + (fees.maxFeePerGas * MIN_FEE_BUMP_PERCENT) / 100n;
+  const minPriorityFee = fees.maxPriorityFeePerGas + (fees.maxPriorityFeePerGas * MIN_FEE_BUMP_PERCENT) / 100n;
+
+  const network = await estimateFees(publicClient, config);
+  const bumped = capFees(config, {
+    maxFeePerGas: maxBigInt(fees.maxFeePerGas + (fees.maxFeePerGas * percent) / 100n, network.maxFeePerGas),
+    maxPriorityFeePerGas: maxBigInt(
+      fees.maxPriorityFeePerGas + (fees.maxPriorityFeePerGas * percent) / 100n,
+      network.maxPriorityFeePerGas
+    ),
+  });
+
+  if (bumped.maxFeePerGas < minMaxFee || bumped.maxPriorityFeePerGas < minPriorityFee) {
+    return null;
+  }
+  return bumped;
+}
+
+/**
+ * Gas estimate with a safety buffer, to be used as the transaction's gas limit
+ */
+export function withGasBuffer(estimate: bigint): bigint {
+  return estimate + (estimate * GAS_LIMIT_BUFFER_PERCENT) / 100n;
+}
+
+interface SignedTransaction {
+  hash: Hex;
+  serialized: Hex;
+}
+
+/**
+ * Sign locally so the hash is known (and can be stored) before anything is sent.
+ * Signing is deterministic, the same fields always give the same hash.
+ */
+async function sign(clients: SourceClients, tx: TransactionRequest, nonce: number, fees: FeeSettings): Promise<SignedTransaction> {
+  const { walletClient } = clients;
+  const serialized = await walletClient.signTransaction({
+    to: tx.to,
+    data: tx.data,
+    gas: tx.gas,
+    nonce,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    chain: walletClient.chain,
+    account: walletClient.account!,
+  });
+  return { hash: keccak256(serialized), serialized };
+}
+
+async function send(clients: SourceClients, signed: SignedTransaction): Promise<void> {
+  await clients.walletClient.sendRawTransaction({ serializedTransaction: signed.serialized });
+}
+
+/**
+ * Send a transaction with the next local nonce and the given (or current) capped fees.
+ * `onSigned` runs with the signed transaction before it is broadcast, so callers can persist the
+ * nonce and hash first. If the broadcast then fails, the transaction may still have reached the node.
+ * Throws a LeadershipLostError, before signing, once this instance no longer holds the scheduler lease.
+ */
+export async function sendManagedTransaction(
+  clients: SourceClients,
+  config: Config,
+  request: TransactionRequest,
+  fees?: FeeSettings,
+  onSigned?: (tx: ManagedTransaction) => void | Promise<void>
+): Promise<ManagedTransaction> {
+  const settings = fees ?? await estimateFees(clients.publicClient, config);
+
+  return getNonceManager(clients).withNonce(async nonce => {
+    await assertLeader(config);
+    const signed = await sign(clients, request, nonce, settings);
+    const tx: ManagedTransaction = { ...request, ...settings, nonce, hashes: [signed.hash] };
+    await onSigned?.(tx);
+    await send(clients, signed);
+    return tx;
+  });
+}
+
+/**
+ * Broadcast a stored transaction again exactly as it was last signed, for one that may never
+ * have reached the node. A node that already has it answers with an error, which is ignored.
+ */
+export async function rebroadcastManagedTransaction(clients: SourceClients, config: Config, tx: ManagedTransaction): Promise<void> {
+  await assertLeader(config);
+  const signed = await sign(clients, tx, tx.nonce, tx);
+  try {
+    await send(clients, signed);
+  } catch (error) {
+    log.warn('Rebroadcast rejected', { chainId: clients.source.chainId, nonce: tx.nonce, txHash: signed.hash, error });
+  }
+}
+
+/**
+ * Receipt of whichever broadcast of a transaction was mined, if any
+ */
+export async function findReceipt(publicClient: PublicClient, hashes: readonly Hex[]): Promise<TransactionReceipt | null> {
+  for (const hash of hashes) {
+    try {
+      return await publicClient.getTransactionReceipt({ hash });
+    } catch {
+      // Not mined (or not known), try the next one
+    }
+  }
+  return null;
+}
+
+async function pollReceipt(publicClient: PublicClient, hashes: readonly Hex[], timeoutMs: number): Promise<TransactionReceipt | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const receipt = await findReceipt(publicClient, hashes);
+    if (receipt || Date.now() >= deadline) return receipt;
+    await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Wait for a managed transaction to be mined. When it is still pending after TX_STUCK_AFTER_SECONDS
+ * it is rebroadcast at the same nonce with bumped fees, up to MAX_FEE_BUMPS times in total.
+ * `onReplaced` runs before every rebroadcast so callers can persist the new hash before it is sent.
+ * Returns null if the transaction is still pending once all bumps are used, and the local nonce is
+ * then read from the chain's pending count again. Throws a LeadershipLostError instead of bumping
+ * once this instance no longer holds the scheduler lease, the new leader takes the transaction over.
+ */
+export async function waitForManagedTransaction(
+  clients: SourceClients,
+  config: Config,
+  tx: ManagedTransaction,
+  onReplaced?: (tx: ManagedTransaction) => void | Promise<void>
+): Promise<TransactionReceipt | null> {
+  const { source, publicClient } = clients;
+  let current = tx;
+  let bumps = tx.hashes.length - 1;
+
+  for (;;) {
+    const receipt = await pollReceipt(publicClient, current.hashes, config.txStuckAfterSeconds * 1000);
+    if (receipt) return receipt;
+
+    // Giving up leaves the nonce to the node: if the transaction was dropped, the next send reuses it
+    if (bumps >= config.maxFeeBumps) {
+      log.warn('Transaction still pending after all fee bumps', { chainId: source.chainId, nonce: current.nonce, bumps });
+      getNonceManager(clients).resync();
+      return null;
+    }
+
+    await assertLeader(config);
+    const fees = await bumpFees(publicClient, config, current);
+    if (!fees) {
+      log.warn('Transaction is stuck at the fee cap', { chainId: source.chainId, nonce: current.nonce });
+      getNonceManager(clients).resync();
+      return null;
+    }
+
+    try {
+      const signed = await sign(clients, current, current.nonce, fees);
+      current = { ...current, ...fees, hashes: [...current.hashes, signed.hash] };
+      bumps++;
+      await onReplaced?.(current);
+      await send(clients, signed);
+      log.info('Replaced stuck transaction', {
+        chainId: source.chainId,
+        nonce: current.nonce,
+        txHash: signed.hash,
+        maxFeePerGas: fees.maxFeePerGas,
+      });
+    } catch (error) {
+      // Usually "nonce too low": one of the earlier broadcasts was mined in the meantime
+      const mined = await findReceipt(publicClient, current.hashes);
+      if (mined) return mined;
+      throw error;
+    }
+  }
+}
+
+function toScaledPrice(priceUSD: string): bigint {
+  return parseUnits(Number(priceUSD).toFixed(12), 12);
+}
+
+/**
+ * Value of a token amount in the chain's native currency (wei), or null if it can't be priced.
+ * The wrapped native token (e.g. WETH on an ETH chain) counts 1:1, anything else needs the
+ * USD prices the route provider returned with its route.
+ */
+export function valueInNative(
+  clients: SourceClients,
+  tokenSymbol: string,
+  amount: bigint,
+  route: Route | null
+): bigint | null {
+  const native = clients.walletClient.chain?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 };
+  if (tokenSymbol.toUpperCase() === `W${native.symbol.toUpperCase()}`) {
+    return amount;
+  }
+
+  const tokenPrice = route?.fromPriceUSD;
+  const nativePrice = route?.nativePriceUSD;
+  if (!route || !tokenPrice || !nativePrice || route.fromDecimals === null || Number(nativePrice) <= 0) {
+    return null;
+  }
+
+  return (
+    (amount * toScaledPrice(tokenPrice) * 10n ** BigInt(native.decimals)) /
+    (10n ** BigInt(route.fromDecimals) * toScaledPrice(nativePrice))
+  );
+}
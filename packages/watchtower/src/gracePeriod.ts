@@ -0,0 +1,214 @@
+import { verifyTypedData, type Address } from 'viem';
+import {
+  getHeartbeatStore,
+  latestLiveness,
+  type CancelReason,
+  type HeartbeatRecord,
+  type LiquidationJob,
+  type PendingLiquidation,
+} from './database.js';
+import type { Config } from './config.js';
+import { notifyAddress } from './notifications.js';
+import { getHeartbeatDomain, verifySignedRequest, type VerificationResult } from './yellowSignature.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('grace');
+
+/**
+ * EIP-712 Types for a user adding or removing a guardian, signed by the user
+ */
+export const GUARDIAN_UPDATE_TYPES = {
+  GuardianUpdate: [
+    { name: 'action', type: 'string' },
+    { name: 'guardian', type: 'address' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * EIP-712 Types for a guardian vetoing a user's pending liquidation, signed by the guardian
+ */
+export const GUARDIAN_VETO_TYPES = {
+  GuardianVeto: [
+    { name: 'user', type: 'address' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+export interface GuardianUpdate {
+  action: 'add' | 'remove';
+  guardian: Address;
+  timestamp: bigint;
+  nonce: bigint;
+}
+
+export interface GuardianVeto {
+  user: Address;
+  timestamp: bigint;
+  nonce: bigint;
+}
+
+export function verifyGuardianUpdate(
+  update: GuardianUpdate,
+  signature: `0x${string}`,
+  userAddress: Address,
+  chainId: number
+): Promise<VerificationResult> {
+  return verifySignedRequest('Guardian update', update.timestamp, update.nonce, userAddress, chainId, () =>
+    verifyTypedData({
+      address: userAddress,
+      domain: getHeartbeatDomain(chainId),
+      types: GUARDIAN_UPDATE_TYPES,
+      primaryType: 'GuardianUpdate',
+      message: update,
+      signature,
+    })
+  );
+}
+
+export function verifyGuardianVeto(
+  veto: GuardianVeto,
+  signature: `0x${string}`,
+  guardianAddress: Address,
+  chainId: number
+): Promise<VerificationResult> {
+  return verifySignedRequest('Veto', veto.timestamp, veto.nonce, guardianAddress, chainId, () =>
+    verifyTypedData({
+      address: guardianAddress,
+      domain: getHeartbeatDomain(chainId),
+      types: GUARDIAN_VETO_TYPES,
+      primaryType: 'GuardianVeto',
+      message: veto,
+      signature,
+    })
+  );
+}
+
+/**
+ * Warn the user and their guardians that a grace window has opened
+ */
+async function notifyGraceStarted(window: PendingLiquidation): Promise<void> {
+  const store = getHeartbeatStore();
+  const { chainId, userAddress, expiresAt } = window;
+  const expires = new Date(expiresAt).toISOString();
+
+  await notifyAddress(chainId, userAddress, `grace:${window.id}`, {
+    kind: 'grace-started',
+    chainId,
+    address: userAddress,
+    subject: 'Lazarus: your funds will be liquidated unless you check in',
+    text: [
+      `Your Lazarus deadline for ${userAddress} on chain ${chainId} has passed.`,
+      `Your funds will be liquidated and bridged to your beneficiary after ${expires}.`,
+      '',
+      'Send a heartbeat before then to cancel, or ask one of your guardians to veto.',
+    ].join('\n'),
+    data: { pendingLiquidationId: window.id, expiresAt },
+  });
+
+  for (const { guardianAddress } of await store.getGuardians(chainId, userAddress)) {
+    await notifyAddress(chainId, guardianAddress, `grace:${window.id}`, {
+      kind: 'guardian-grace-started',
+      chainId,
+      address: guardianAddress,
+      subject: `Lazarus: ${userAddress} is about to be liquidated`,
+      text: [
+        `${userAddress} named you as a guardian and has missed their Lazarus deadline on chain ${chainId}.`,
+        `Their funds will be liquidated after ${expires}.`,
+        '',
+        'If you know they are alive, sign a veto to cancel the liquidation.',
+      ].join('\n'),
+      data: { pendingLiquidationId: window.id, userAddress, expiresAt },
+    });
+  }
+}
+
+/**
+ * Decide whether liquidation jobs may be queued for a user the chain says can be liquidated.
+ * The first time, a grace window opens and notifications go out. Jobs are only allowed once
+ * the window has expired without a heartbeat or veto. After a veto, no new window opens
+ * for GUARDIAN_VETO_HOLD_SECONDS. Windows opened before the user's last heartbeat are ignored.
+ */
+export async function checkGracePeriod(config: Config, record: HeartbeatRecord): Promise<boolean> {
+  if (config.gracePeriodSeconds <= 0) return true;
+
+  const store = getHeartbeatStore();
+  const now = Date.now();
+  const { lastSeen } = latestLiveness(record);
+
+  const latest = await store.getLatestPendingLiquidation(record.chainId, record.userAddress);
+  const current = latest && latest.startedAt > lastSeen ? latest : null;
+
+  if (current?.status === 'released') return true;
+
+  if (current?.status === 'pending') {
+    if (now < current.expiresAt) return false;
+
+    await store.releasePendingLiquidation(current.id);
+    log.info('Grace period over, queueing liquidation', { chainId: record.chainId, user: record.userAddress });
+    return true;
+  }
+
+  if (
+    current?.status === 'cancelled' &&
+    current.cancelReason === 'veto' &&
+    current.resolvedAt !== null &&
+    now < current.resolvedAt + config.guardianVetoHoldSeconds * 1000
+  ) {
+    return false;
+  }
+
+  const window = await store.startPendingLiquidation(record.chainId, record.userAddress, now + config.gracePeriodSeconds * 1000);
+  log.info('Entered the grace period', {
+    chainId: record.chainId,
+    user: record.userAddress,
+    expiresAt: new Date(window.expiresAt).toISOString(),
+  });
+  await notifyGraceStarted(window);
+  return false;
+}
+
+/**
+ * Why a queued job must not liquidate its user any more, null while it still may. Jobs are retried
+ * long after they were queued, so a heartbeat (off-chain or a Ping) since the job was queued, or no
+ * released grace window since the last heartbeat, means the user is alive or was vetoed.
+ * The on-chain deadline can't tell, it stays expired until a settlement lands.
+ */
+export async function reasonToAbandon(config: Config, job: LiquidationJob): Promise<string | null> {
+  const store = getHeartbeatStore();
+  const record = await store.getHeartbeat(job.chainId, job.userAddress);
+  // Nothing off-chain to go by, the on-chain check decides
+  if (!record) return null;
+
+  const { lastSeen, source } = latestLiveness(record);
+  if (lastSeen > job.createdAt) {
+    return `User checked in (${source}) after the job was queued`;
+  }
+
+  if (config.gracePeriodSeconds > 0) {
+    const latest = await store.getLatestPendingLiquidation(job.chainId, job.userAddress);
+    if (!latest || latest.startedAt <= lastSeen || latest.status !== 'released') {
+      return `No released grace window since the user's last heartbeat (${latest?.status ?? 'none'})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cancel a user's open grace window, if any
+ */
+export async function cancelGracePeriod(
+  chainId: number,
+  userAddress: string,
+  reason: CancelReason,
+  cancelledBy: string
+): Promise<PendingLiquidation | null> {
+  const cancelled = await getHeartbeatStore().cancelPendingLiquidation(chainId, userAddress, reason, cancelledBy);
+  if (cancelled) {
+    log.info('Pending liquidation cancelled', { chainId, user: userAddress, reason, cancelledBy });
+  }
+  return cancelled;
+}
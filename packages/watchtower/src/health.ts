@@ -0,0 +1,239 @@
+import { formatEther, isAddressEqual } from 'viem';
+import { LazarusSourceABI, type Config, type SourceClients } from './config.js';
+import { getHeartbeatStore } from './database.js';
+import { createDestinationClient } from './destinationMonitor.js';
+import { indexerCheckpointName } from './indexer.js';
+import { getLeaderSince, getLeaderStatus } from './leader.js';
+import { checkLiFiReachable } from './lifi.js';
+
+/**
+ * `warn` checks don't stop the watchtower from doing its job right now, `fail` checks do
+ */
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+/**
+ * What a check found, with whatever figures it read along the way
+ */
+export interface CheckResult {
+  status: CheckStatus;
+  detail?: string;
+  [key: string]: unknown;
+}
+
+export interface HealthCheck extends CheckResult {
+  name: string;
+  chainId?: number;
+}
+
+export interface ReadinessReport {
+  status: 'ok' | 'degraded' | 'fail';
+  timestamp: string;
+  checks: HealthCheck[];
+}
+
+// How long a scheduled task may go without a successful run, a few times its schedule
+const TASK_MAX_AGE_SECONDS: Record<string, number> = {
+  indexer: 5 * 60,
+  liquidation: 2.5 * 60 * 60,
+  settlement: 45 * 60,
+  reconciliation: 13 * 60 * 60,
+  warnings: 15 * 60,
+  notifications: 5 * 60,
+  destination: 15 * 60,
+};
+
+// Readiness is cached briefly, the endpoint is unauthenticated and every check costs RPC calls
+const READINESS_CACHE_MS = 10_000;
+
+const startedAt = Date.now();
+const lastSuccess = new Map<string, number>();
+
+let cachedReport: { at: number; report: Promise<ReadinessReport> } | null = null;
+
+function taskKey(task: string, chainId?: number): string {
+  return chainId === undefined ? task : `${task}:${chainId}`;
+}
+
+/**
+ * Remember that a scheduled task finished without throwing
+ */
+export function recordTaskSuccess(task: string, chainId?: number): void {
+  lastSuccess.set(taskKey(task, chainId), Date.now());
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run one check, turning a thrown error or timeout into a failed check
+ */
+async function runCheck(
+  config: Config,
+  name: string,
+  chainId: number | undefined,
+  check: () => Promise<CheckResult>,
+  onError: CheckStatus = 'fail'
+): Promise<HealthCheck> {
+  try {
+    return { name, chainId, ...await withTimeout(check(), config.healthCheckTimeoutMs) };
+  } catch (error) {
+    return { name, chainId, status: onError, detail: error instanceof Error ? error.message.split('\n')[0] : 'Unknown error' };
+  }
+}
+
+async function checkSourceRpc(clients: SourceClients, config: Config): Promise<CheckResult> {
+  const block = await clients.publicClient.getBlock();
+  const blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - Number(block.timestamp));
+
+  const checkpoint = await getHeartbeatStore().getCheckpoint(indexerCheckpointName(clients));
+  const indexerLagBlocks = checkpoint === null ? null : Number(block.number - checkpoint);
+
+  if (blockAgeSeconds > config.healthMaxBlockAgeSeconds) {
+    return {
+      status: 'fail',
+      detail: `latest block is ${blockAgeSeconds}s old (max ${config.healthMaxBlockAgeSeconds}s)`,
+      blockNumber: block.number.toString(),
+      blockAgeSeconds,
+      indexerLagBlocks,
+    };
+  }
+  return { status: 'ok', blockNumber: block.number.toString(), blockAgeSeconds, indexerLagBlocks };
+}
+
+async function checkSignerBalance(clients: SourceClients, config: Config): Promise<CheckResult> {
+  const address = clients.walletClient.account!.address;
+  const balance = await clients.publicClient.getBalance({ address });
+
+  return {
+    status: balance < config.healthMinBalance ? 'fail' : 'ok',
+    detail: balance < config.healthMinBalance
+      ? `balance ${formatEther(balance)} is below ${formatEther(config.healthMinBalance)}`
+      : undefined,
+    address,
+    balance: formatEther(balance),
+  };
+}
+
+async function checkWatchtowerAddress(clients: SourceClients): Promise<CheckResult> {
+  const signer = clients.walletClient.account!.address;
+  const onchain = await clients.publicClient.readContract({
+    address: clients.source.lazarusSourceAddress,
+    abi: LazarusSourceABI,
+    functionName: 'watchtower',
+  });
+
+  if (!isAddressEqual(onchain, signer)) {
+    return { status: 'fail', detail: `LazarusSource.watchtower() is ${onchain}, not our signer ${signer}`, signer, onchain };
+  }
+  return { status: 'ok', signer };
+}
+
+async function checkDestinationRpc(config: Config): Promise<CheckResult> {
+  const block = await createDestinationClient(config).getBlock();
+  const blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - Number(block.timestamp));
+
+  return {
+    status: blockAgeSeconds > config.healthMaxBlockAgeSeconds ? 'warn' : 'ok',
+    detail: blockAgeSeconds > config.healthMaxBlockAgeSeconds
+      ? `latest block is ${blockAgeSeconds}s old (max ${config.healthMaxBlockAgeSeconds}s)`
+      : undefined,
+    blockNumber: block.number.toString(),
+    blockAgeSeconds,
+  };
+}
+
+/**
+ * Reports the leader. Having none only warns, the tasks wait until a replica takes the lease.
+ */
+async function checkLeader(config: Config): Promise<CheckResult> {
+  const leader = await getLeaderStatus(config);
+  return {
+    status: leader.leader ? 'ok' : 'warn',
+    detail: leader.leader ? undefined : 'no instance holds the leader lease',
+    ...leader,
+  };
+}
+
+/**
+ * Age of the last successful run of each scheduled task. Only the leader runs them, so followers skip
+ * this. A task that hasn't run since this instance became leader is measured from then, so a fresh
+ * leader isn't reported as stale.
+ */
+function checkTasks(config: Config): HealthCheck[] {
+  const now = Date.now();
+  const checks: HealthCheck[] = [];
+  const leaderSince = getLeaderSince();
+  if (leaderSince === null) return checks;
+
+  for (const [task, maxAgeSeconds] of Object.entries(TASK_MAX_AGE_SECONDS)) {
+    const perChain = !['notifications', 'destination'].includes(task);
+    const chainIds: Array<number | undefined> = perChain ? config.sources.map(source => source.chainId) : [undefined];
+
+    for (const chainId of chainIds) {
+      const last = lastSuccess.get(taskKey(task, chainId)) ?? null;
+      const ageSeconds = Math.floor((now - Math.max(last ?? 0, leaderSince)) / 1000);
+      const stale = ageSeconds > maxAgeSeconds;
+
+      checks.push({
+        name: `task:${task}`,
+        chainId,
+        status: stale ? 'fail' : 'ok',
+        detail: stale ? `no successful run for ${ageSeconds}s (max ${maxAgeSeconds}s)` : undefined,
+        lastSuccessAt: last === null ? null : new Date(last).toISOString(),
+      });
+    }
+  }
+
+  return checks;
+}
+
+async function buildReadinessReport(clients: Map<number, SourceClients>, config: Config): Promise<ReadinessReport> {
+  const pending: Array<Promise<HealthCheck>> = [];
+
+  for (const sourceClients of clients.values()) {
+    const chainId = sourceClients.source.chainId;
+    pending.push(
+      runCheck(config, 'source-rpc', chainId, () => checkSourceRpc(sourceClients, config)),
+      runCheck(config, 'signer-balance', chainId, () => checkSignerBalance(sourceClients, config)),
+      runCheck(config, 'watchtower-address', chainId, () => checkWatchtowerAddress(sourceClients))
+    );
+  }
+
+  // Bridges are still tracked later if the destination chain or LI.FI is briefly unavailable
+  pending.push(runCheck(config, 'destination-rpc', config.destinationChainId, () => checkDestinationRpc(config), 'warn'));
+  if (config.routeProviders.includes('lifi')) {
+    pending.push(runCheck(config, 'lifi', undefined, async () => {
+      const status = await checkLiFiReachable(config.lifi);
+      return { status: 'ok', httpStatus: status };
+    }, 'warn'));
+  }
+
+  pending.push(runCheck(config, 'database', undefined, async () => {
+    await getHeartbeatStore().checkWritable();
+    return { status: 'ok' };
+  }));
+  pending.push(runCheck(config, 'leader', undefined, () => checkLeader(config)));
+
+  const checks = [...await Promise.all(pending), ...checkTasks(config)];
+  const status = checks.some(check => check.status === 'fail')
+    ? 'fail'
+    : checks.some(check => check.status === 'warn') ? 'degraded' : 'ok';
+
+  return { status, timestamp: new Date().toISOString(), checks };
+}
+
+/**
+ * Run every readiness check, reusing a report from the last few seconds
+ */
+export function getReadinessReport(clients: Map<number, SourceClients>, config: Config): Promise<ReadinessReport> {
+  const now = Date.now();
+  if (!cachedReport || now - cachedReport.at > READINESS_CACHE_MS) {
+    cachedReport = { at: now, report: buildReadinessReport(clients, config) };
+  }
+  return cachedReport.report;
+}
@@ -0,0 +1,251 @@
+import type { Address } from 'viem';
+import { getHeartbeatStore, PENDING_HEARTBEAT_SIGNATURE, type NewChainEvent } from './database.js';
+import { Config, LazarusSourceABI, type SourceClients } from './config.js';
+import { fetchRegistration, invalidateRegistration } from './registration.js';
+import { cancelGracePeriod } from './gracePeriod.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('indexer');
+
+type SourceEvent = Extract<(typeof LazarusSourceABI)[number], { type: 'event' }>;
+
+// Every event LazarusSource emits that the watchtower cares about
+const SOURCE_EVENTS = LazarusSourceABI.filter((item): item is SourceEvent => item.type === 'event');
+
+// Events that change what the heartbeat store holds for a user
+const STATE_EVENTS = new Set(['Registered', 'InactivityPeriodUpdated', 'Ping']);
+
+// How far back the very first scan starts when the deployment has no startBlock
+const INITIAL_LOOKBACK_BLOCKS = 10_000n;
+
+// How many stored block hashes are compared against the chain when looking for a fork
+const REORG_SEARCH_DEPTH = 64;
+
+// Block hashes older than this (behind the safe head) are dropped
+const BLOCK_HASH_HISTORY = 1_000n;
+
+// Guards against overlapping runs on the same chain
+const runningChains = new Set<number>();
+
+export interface IndexerResult {
+  chainId: number;
+  fromBlock: bigint;
+  toBlock: bigint;
+  events: number;
+  rolledBack: number;
+}
+
+/**
+ * Checkpoint of the last block indexed for a source deployment
+ */
+export function indexerCheckpointName(clients: SourceClients): string {
+  return `source-events:${clients.source.chainId}:${clients.source.lazarusSourceAddress.toLowerCase()}`;
+}
+
+/**
+ * Apply a newly indexed event to the heartbeat store.
+ * Events without local state (deposits, withdrawals) are only kept in chain_events.
+ */
+async function applyEvent(clients: SourceClients, config: Config, event: NewChainEvent): Promise<void> {
+  const store = getHeartbeatStore();
+  const { chainId, userAddress, args } = event;
+  if (!userAddress) return;
+
+  switch (event.eventName) {
+    case 'Registered': {
+      log.info('User registered', { chainId, user: userAddress, inactivityPeriod: args.inactivityPeriod });
+      // No signature yet, track the user with a placeholder until their first heartbeat.
+      // register() is their first on-chain heartbeat, so the deadline runs from the event's block,
+      // not from when it was indexed. The placeholder itself vouches for nothing.
+      if (!(await store.getHeartbeat(chainId, userAddress))) {
+        const block = await clients.publicClient.getBlock({ blockNumber: BigInt(event.blockNumber) });
+        await store.recordHeartbeat(chainId, userAddress, PENDING_HEARTBEAT_SIGNATURE, Number(args.inactivityPeriod), 0);
+        await store.recordOnchainPing(chainId, userAddress, Number(block.timestamp) * 1000);
+      }
+      break;
+    }
+    case 'InactivityPeriodUpdated': {
+      log.info('User updated inactivity period', { chainId, user: userAddress, inactivityPeriod: args.newPeriod });
+      await store.updateInactivityPeriod(chainId, userAddress, Number(args.newPeriod));
+      break;
+    }
+    case 'Ping': {
+      // A direct ping() or our own pingFor, either way the user is alive on-chain
+      const pingedAt = Number(args.timestamp) * 1000;
+      await store.recordOnchainPing(chainId, userAddress, pingedAt);
+
+      const open = await store.getOpenPendingLiquidation(chainId, userAddress);
+      if (open && pingedAt > open.startedAt) {
+        await cancelGracePeriod(chainId, userAddress, 'heartbeat', userAddress);
+      }
+      break;
+    }
+    case 'Liquidated': {
+      log.info('User liquidated', { chainId, user: userAddress, token: args.token });
+      break;
+    }
+  }
+
+  invalidateRegistration(config, chainId, userAddress);
+}
+
+/**
+ * Bring a user's row back in line with the chain after their events were rolled back
+ */
+async function resyncUser(clients: SourceClients, config: Config, userAddress: string): Promise<void> {
+  const chainId = clients.source.chainId;
+  const store = getHeartbeatStore();
+  invalidateRegistration(config, chainId, userAddress);
+
+  try {
+    const status = await fetchRegistration(clients, userAddress as Address);
+    if (!status.registered) {
+      await store.removeUser(chainId, userAddress);
+    } else {
+      await store.updateInactivityPeriod(chainId, userAddress, status.inactivityPeriod);
+      await store.setOnchainLastSeen(chainId, userAddress, status.lastPing > 0 ? status.lastPing : null);
+    }
+  } catch (error) {
+    log.error('Could not resync user after reorg', { chainId, user: userAddress, error });
+  }
+}
+
+/**
+ * Compare stored block hashes with the chain, newest first.
+ * Returns the last block both agree on, or null if the newest stored block is still canonical.
+ */
+async function findForkPoint(clients: SourceClients): Promise<bigint | null> {
+  const store = getHeartbeatStore();
+  const recent = await store.getRecentBlockHashes(clients.source.chainId, REORG_SEARCH_DEPTH);
+  if (recent.length === 0) return null;
+
+  for (const [i, known] of recent.entries()) {
+    const block = await clients.publicClient.getBlock({ blockNumber: known.blockNumber });
+    if (block.hash === known.blockHash) {
+      return i === 0 ? null : known.blockNumber;
+    }
+  }
+
+  // Nothing we stored survived, rewind past all of it
+  return recent[recent.length - 1].blockNumber - 1n;
+}
+
+/**
+ * Undo everything indexed above the fork block and rewind the checkpoint
+ */
+async function rollback(clients: SourceClients, config: Config, forkBlock: bigint): Promise<number> {
+  const chainId = clients.source.chainId;
+  const store = getHeartbeatStore();
+
+  const removed = await store.rollbackChainEvents(chainId, forkBlock);
+  await store.setCheckpoint(indexerCheckpointName(clients), forkBlock);
+  log.warn('Reorg detected, rolled back events', { chainId, events: removed.length, forkBlock });
+
+  const affected = new Set(
+    removed
+      .filter(event => event.userAddress && STATE_EVENTS.has(event.eventName))
+      .map(event => event.userAddress!)
+  );
+  for (const userAddress of affected) {
+    await resyncUser(clients, config, userAddress);
+  }
+
+  return removed.length;
+}
+
+/**
+ * Index LazarusSource events from the last checkpoint up to the confirmed head.
+ * The first run backfills from the deployment's startBlock. Ranges are bounded by
+ * SOURCE_LOG_RANGE and the checkpoint advances only after a range is fully stored.
+ */
+export async function runIndexer(clients: SourceClients, config: Config): Promise<IndexerResult | null> {
+  const { source, publicClient } = clients;
+  const chainId = source.chainId;
+
+  if (runningChains.has(chainId)) {
+    log.info('Previous run still in progress, skipping', { chainId });
+    return null;
+  }
+
+  runningChains.add(chainId);
+  try {
+    const store = getHeartbeatStore();
+    const name = indexerCheckpointName(clients);
+
+    const latest = await publicClient.getBlockNumber();
+    const confirmations = BigInt(config.sourceConfirmations);
+    const safeHead = latest > confirmations ? latest - confirmations : 0n;
+
+    let rolledBack = 0;
+    let checkpoint = await store.getCheckpoint(name);
+    if (checkpoint === null) {
+      checkpoint = source.startBlock !== undefined
+        ? BigInt(Math.max(source.startBlock - 1, 0))
+        : (safeHead > INITIAL_LOOKBACK_BLOCKS ? safeHead - INITIAL_LOOKBACK_BLOCKS : 0n);
+    } else {
+      const forkBlock = await findForkPoint(clients);
+      if (forkBlock !== null) {
+        rolledBack = await rollback(clients, config, forkBlock);
+        checkpoint = forkBlock;
+      }
+    }
+
+    const fromBlock = checkpoint + 1n;
+    const range = BigInt(config.sourceLogRange);
+    let events = 0;
+
+    for (let from = fromBlock; from <= safeHead; from += range) {
+      const to = from + range - 1n < safeHead ? from + range - 1n : safeHead;
+
+      const logs = await publicClient.getLogs({
+        address: source.lazarusSourceAddress,
+        events: SOURCE_EVENTS,
+        fromBlock: from,
+        toBlock: to,
+      });
+
+      for (const log of logs) {
+        const args = Object.fromEntries(
+          Object.entries(log.args).map(([key, value]) => [
+            key,
+            typeof value === 'string' ? value.toLowerCase() : String(value),
+          ])
+        );
+
+        const event: NewChainEvent = {
+          chainId,
+          blockNumber: Number(log.blockNumber),
+          blockHash: log.blockHash,
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          eventName: log.eventName,
+          userAddress: args.user ?? null,
+          args,
+        };
+
+        await store.recordBlockHash(chainId, log.blockNumber, log.blockHash);
+        if (await store.insertChainEvent(event)) {
+          await applyEvent(clients, config, event);
+          events++;
+        }
+      }
+
+      // The range end's hash is what the next run checks for a reorg
+      const block = await publicClient.getBlock({ blockNumber: to });
+      await store.recordBlockHash(chainId, to, block.hash);
+      await store.setCheckpoint(name, to);
+    }
+
+    if (safeHead > BLOCK_HASH_HISTORY) {
+      await store.pruneBlockHashes(chainId, safeHead - BLOCK_HASH_HISTORY);
+    }
+
+    if (events > 0 || rolledBack > 0) {
+      log.info('Indexed events', { chainId, events, toBlock: safeHead });
+    }
+
+    return { chainId, fromBlock, toBlock: safeHead, events, rolledBack };
+  } finally {
+    runningChains.delete(chainId);
+  }
+}
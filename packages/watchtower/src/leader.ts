@@ -0,0 +1,153 @@
+import { getHeartbeatStore } from './database.js';
+import type { Config } from './config.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('leader');
+
+// The lease every replica competes for, whoever holds it runs the scheduled tasks
+const SCHEDULER_LEASE = 'scheduler';
+
+/**
+ * Who runs the scheduled tasks, as seen by this instance
+ */
+export interface LeaderStatus {
+  instanceId: string;
+  isLeader: boolean;
+  leader: string | null;
+  leaderSince: number | null;
+  leaseExpiresAt: number | null;
+}
+
+/**
+ * Thrown when this instance is about to act as leader without holding the scheduler lease
+ */
+export class LeadershipLostError extends Error {
+  constructor(readonly leader: string | null) {
+    super(leader ? `Not the leader, ${leader} holds the scheduler lease` : 'Not the leader, the scheduler lease has lapsed');
+    this.name = 'LeadershipLostError';
+  }
+}
+
+let leaderSince: number | null = null;
+// Measured on our own clock from before the renewal was sent, so we never outlive the stored lease
+let leaseExpiresAt = 0;
+let renewTimer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+/**
+ * Whether this instance holds an unexpired lease and should run the scheduled tasks
+ */
+export function isLeader(): boolean {
+  return leaderSince !== null && Date.now() < leaseExpiresAt;
+}
+
+/**
+ * When this instance last became leader, null while it isn't
+ */
+export function getLeaderSince(): number | null {
+  return isLeader() ? leaderSince : null;
+}
+
+function stepDown(reason: string, fields: Record<string, unknown> = {}): void {
+  if (leaderSince === null) return;
+  log.warn('Lost leadership', { reason, ledForSeconds: Math.floor((Date.now() - leaderSince) / 1000), ...fields });
+  leaderSince = null;
+  leaseExpiresAt = 0;
+}
+
+async function renewLease(config: Config, onElected: () => void): Promise<void> {
+  const ttlMs = config.leaderLeaseSeconds * 1000;
+  const sentAt = Date.now();
+
+  try {
+    const lease = await getHeartbeatStore().acquireLease(SCHEDULER_LEASE, config.instanceId, ttlMs);
+    // Shutting down, the lease is released or lapses on its own
+    if (stopped) return;
+    if (lease.holder !== config.instanceId) {
+      stepDown('lease held by another instance', { leader: lease.holder });
+      return;
+    }
+
+    leaseExpiresAt = sentAt + ttlMs;
+    if (leaderSince === null) {
+      leaderSince = Date.now();
+      log.info('Became leader', { instanceId: config.instanceId, leaseSeconds: config.leaderLeaseSeconds });
+      onElected();
+    }
+  } catch (error) {
+    log.error('Could not renew leader lease', { error });
+    // Keep leading until the lease we already have runs out, the database may be back by then
+    if (leaderSince !== null && Date.now() >= leaseExpiresAt) {
+      stepDown('lease expired while the database was unreachable');
+    }
+  }
+}
+
+/**
+ * Throw a LeadershipLostError unless this instance still holds the scheduler lease, on its own
+ * clock and in the store. Checked before every transaction is sent, so a leader that lost the
+ * lease partway through a run stops there instead of sending next to the new leader.
+ */
+export async function assertLeader(config: Config): Promise<void> {
+  const lease = await getHeartbeatStore().getLease(SCHEDULER_LEASE);
+  const holder = lease !== null && lease.expiresAt > Date.now() ? lease.holder : null;
+
+  if (isLeader() && holder === config.instanceId) return;
+  stepDown('lease no longer held in the store', { leader: holder });
+  throw new LeadershipLostError(holder);
+}
+
+/**
+ * Compete for the scheduler lease, renewing it three times per LEADER_LEASE_SECONDS.
+ * `onElected` runs every time this instance takes over. Resolves after the first attempt.
+ */
+export async function startLeaderElection(config: Config, onElected: () => void): Promise<void> {
+  const intervalMs = Math.max(1000, Math.floor((config.leaderLeaseSeconds * 1000) / 3));
+
+  const tick = async (): Promise<void> => {
+    await renewLease(config, onElected);
+    if (!stopped) {
+      renewTimer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  await tick();
+}
+
+/**
+ * Stop renewing and hand the lease back, so another replica takes over on its next attempt
+ * instead of waiting for the lease to expire
+ */
+export async function stopLeaderElection(config: Config): Promise<void> {
+  stopped = true;
+  if (renewTimer) {
+    clearTimeout(renewTimer);
+    renewTimer = null;
+  }
+  if (leaderSince === null) return;
+
+  leaderSince = null;
+  leaseExpiresAt = 0;
+  try {
+    await getHeartbeatStore().releaseLease(SCHEDULER_LEASE, config.instanceId);
+    log.info('Released leadership', { instanceId: config.instanceId });
+  } catch (error) {
+    log.error('Could not release leader lease', { error });
+  }
+}
+
+/**
+ * The current leader according to the store, and whether it is us
+ */
+export async function getLeaderStatus(config: Config): Promise<LeaderStatus> {
+  const lease = await getHeartbeatStore().getLease(SCHEDULER_LEASE);
+  const live = lease !== null && lease.expiresAt > Date.now();
+
+  return {
+    instanceId: config.instanceId,
+    isLeader: isLeader(),
+    leader: live ? lease.holder : null,
+    leaderSince: getLeaderSince(),
+    leaseExpiresAt: live ? lease.expiresAt : null,
+  };
+}
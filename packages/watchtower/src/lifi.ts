@@ -1,4 +1,9 @@
 import type { Address } from 'viem';
+import { checkLiFiCalldata } from './lifiCalldata.js';
+import { createLogger } from './logger.js';
+import { lifiRequestDuration } from './metrics.js';
+import { TtlCache } from './rateLimit.js';
+import type { Route, RouteProvider, RouteRequest } from './routes.js';
 
 /**
  * LI.FI Quote Request
@@ -18,6 +23,7 @@ export interface LiFiQuoteRequest {
  * LI.FI Quote Response (simplified)
  */
 export interface LiFiQuoteResponse {
+  id: string;
   transactionRequest: {
     to: Address;
     data: `0x${string}`;
@@ -36,6 +42,8 @@ export interface LiFiQuoteResponse {
       token: {
         address: Address;
         symbol: string;
+        decimals?: number;
+        priceUSD?: string;
       };
     }>;
   };
@@ -44,6 +52,7 @@ export interface LiFiQuoteResponse {
       address: Address;
       symbol: string;
       decimals: number;
+      priceUSD?: string;
     };
     toToken: {
       address: Address;
@@ -53,14 +62,183 @@ export interface LiFiQuoteResponse {
   };
 }
 
+/**
+ * How the LI.FI client talks to the API, from the LIFI_* settings
+ */
+export interface LiFiClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  quoteCacheSeconds: number;
+}
+
+export const DEFAULT_LIFI_OPTIONS: LiFiClientOptions = {
+  baseUrl: 'https://li.quest/v1',
+  timeoutMs: 10_000,
+  maxRetries: 3,
+  retryBaseMs: 500,
+  quoteCacheSeconds: 30,
+};
+
+const log = createLogger('lifi');
+
+// A Retry-After longer than this fails the request instead of stalling the liquidation loop
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Significant digits kept when bucketing amounts for the quote cache
+const AMOUNT_BUCKET_DIGITS = 3;
+
+interface CachedQuote {
+  fromAmount: string;
+  quote: LiFiQuoteResponse;
+}
+
+const quoteCaches = new Map<number, TtlCache<CachedQuote>>();
+
+function getQuoteCache(ttlSeconds: number): TtlCache<CachedQuote> {
+  let cache = quoteCaches.get(ttlSeconds);
+  if (!cache) {
+    cache = new TtlCache<CachedQuote>(ttlSeconds * 1000);
+    quoteCaches.set(ttlSeconds, cache);
+  }
+  return cache;
+}
+
+/**
+ * Round an amount down to a few significant digits, so one cache slot covers a range of amounts
+ */
+function amountBucket(amount: string): string {
+  if (amount.length <= AMOUNT_BUCKET_DIGITS) return amount;
+  return amount.slice(0, AMOUNT_BUCKET_DIGITS).padEnd(amount.length, '0');
+}
+
+function quoteCacheKey(params: LiFiQuoteRequest): string {
+  return [
+    params.fromChain,
+    params.toChain,
+    params.fromToken.toLowerCase(),
+    params.toToken.toLowerCase(),
+    amountBucket(params.fromAmount),
+    params.toAddress.toLowerCase(),
+  ].join(':');
+}
+
+function backoffDelay(options: LiFiClientOptions, attempt: number): number {
+  // Exponential with jitter between half and the full delay
+  const delay = options.retryBaseMs * 2 ** attempt;
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * GET from the LI.FI API with a timeout per request.
+ * Network errors, timeouts, 429 and 5xx responses are retried up to `maxRetries` times with
+ * exponential backoff, waiting for Retry-After instead when LI.FI sends one.
+ */
+async function fetchLiFi(url: string, options: LiFiClientOptions): Promise<Response> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (options.apiKey) {
+    headers['x-lifi-api-key'] = options.apiKey;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < options.maxRetries;
+    const endTimer = lifiRequestDuration.startTimer();
+    let response: Response;
+
+    try {
+      response = await fetch(url, { headers, signal: AbortSignal.timeout(options.timeoutMs) });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      endTimer({ status: timedOut ? 'timeout' : 'error' });
+      const message = timedOut
+        ? `timed out after ${options.timeoutMs}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+      if (!canRetry) {
+        throw new Error(`LI.FI API request failed: ${message}`);
+      }
+      const delay = backoffDelay(options, attempt);
+      log.warn('LI.FI request failed, retrying', { attempt: attempt + 1, delayMs: delay, error: message });
+      await sleep(delay);
+      continue;
+    }
+
+    endTimer({ status: response.status });
+    if (response.ok) return response;
+
+    const retryable = response.status === 429 || response.status >= 500;
+    const errorText = await response.text();
+    if (!retryable || !canRetry) {
+      throw new Error(`LI.FI API error: ${response.status} - ${errorText}`);
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfter !== null && retryAfter > MAX_RETRY_DELAY_MS) {
+      throw new Error(`LI.FI API error: ${response.status}, retry after ${Math.ceil(retryAfter / 1000)}s`);
+    }
+    const delay = retryAfter ?? backoffDelay(options, attempt);
+    log.warn('LI.FI request failed, retrying', { attempt: attempt + 1, status: response.status, delayMs: delay });
+    await sleep(delay);
+  }
+}
+
+/**
+ * Check that the LI.FI API answers, without retries. Throws when it can't be reached or returns a 5xx.
+ */
+export async function checkLiFiReachable(options: LiFiClientOptions = DEFAULT_LIFI_OPTIONS): Promise<number> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (options.apiKey) {
+    headers['x-lifi-api-key'] = options.apiKey;
+  }
+
+  const response = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/chains`, {
+    headers,
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+  await response.body?.cancel();
+
+  if (response.status >= 500) {
+    throw new Error(`LI.FI API error: ${response.status}`);
+  }
+  return response.status;
+}
+
 /**
  * Fetch an evacuation route from LI.FI API
- * This gets the swap/bridge calldata to convert tokens and bridge to destination chain
+ * This gets the swap/bridge calldata to convert tokens and bridge to destination chain.
+ * Quotes are cached for `quoteCacheSeconds`, keyed by chains, tokens, amount bucket and receiver.
+ * The calldata encodes the exact amount, so a cached quote is only reused for that same amount
+ * and a different amount in the bucket replaces it.
  */
 export async function getEvacuationRoute(
-  params: LiFiQuoteRequest
+  params: LiFiQuoteRequest,
+  options: LiFiClientOptions = DEFAULT_LIFI_OPTIONS
 ): Promise<LiFiQuoteResponse> {
-  const LIFI_API_URL = 'https://li.quest/v1/quote';
+  const cache = options.quoteCacheSeconds > 0 ? getQuoteCache(options.quoteCacheSeconds) : null;
+  const cacheKey = quoteCacheKey(params);
+  const cached = cache?.get(cacheKey);
+  if (cached && cached.fromAmount === params.fromAmount) {
+    log.debug('Using cached quote', { quoteId: cached.quote.id, fromAmount: params.fromAmount });
+    return cached.quote;
+  }
 
   const queryParams = new URLSearchParams({
     fromChain: params.fromChain,
@@ -73,15 +251,18 @@ export async function getEvacuationRoute(
     slippage: (params.slippage || 0.03).toString(), // Default 3% slippage
   });
 
-  const response = await fetch(`${LIFI_API_URL}?${queryParams.toString()}`);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`LI.FI API error: ${response.status} - ${errorText}`);
-  }
+  const response = await fetchLiFi(`${options.baseUrl.replace(/\/+$/, '')}/quote?${queryParams.toString()}`, options);
+  const quote = await response.json() as LiFiQuoteResponse;
+  log.info('Received quote', {
+    quoteId: quote.id,
+    fromChain: params.fromChain,
+    toChain: params.toChain,
+    fromAmount: params.fromAmount,
+    toAmountMin: quote.estimate?.toAmountMin,
+  });
 
-  const data = await response.json();
-  return data as LiFiQuoteResponse;
+  cache?.set(cacheKey, { fromAmount: params.fromAmount, quote });
+  return quote;
 }
 
 /**
@@ -95,7 +276,8 @@ export async function getWethToUsdcRoute(
   beneficiaryAddress: Address,
   vaultAddress?: Address, // Optional vault address
   sourceChainId: number = 11155111,
-  destinationChainId: number = 42161
+  destinationChainId: number = 42161,
+  options: LiFiClientOptions = DEFAULT_LIFI_OPTIONS
 ): Promise<LiFiQuoteResponse> {
   // If a vault is provided, it becomes the receiver. 
   // The beneficiary address should ideally be part of a destination call, 
@@ -110,31 +292,7 @@ export async function getWethToUsdcRoute(
     fromAddress,
     toAddress: vaultAddress || beneficiaryAddress,
     slippage: 0.03,
-  });
-}
-
-/**
- * Build a mock swap data for testing (when LI.FI is not available on testnet)
- */
-export function buildMockSwapData(
-  token: Address,
-  amount: bigint,
-  beneficiary: Address,
-  destinationChainId: number
-): `0x${string}` {
-  // This is a simplified mock for testing
-  // In production, this would be the actual LI.FI calldata
-  const mockSelector = '0x50384546'; // mockBridge selector
-  
-  // Encode: mockBridge(address _token, uint256 _amount, address _receiver, uint256 _destinationChainId)
-  const encodedParams = [
-    token.slice(2).padStart(64, '0'),
-    amount.toString(16).padStart(64, '0'),
-    beneficiary.slice(2).padStart(64, '0'),
-    destinationChainId.toString(16).padStart(64, '0'),
-  ].join('');
-
-  return `${mockSelector}${encodedParams}` as `0x${string}`;
+  }, options);
 }
 
 /**
@@ -152,3 +310,58 @@ export function validateQuote(quote: LiFiQuoteResponse): boolean {
 
   return true;
 }
+
+/**
+ * Routes from the LI.FI quote API
+ */
+export class LiFiRouteProvider implements RouteProvider {
+  readonly name = 'lifi';
+
+  constructor(
+    private readonly diamondAddress: Address,
+    private readonly options: LiFiClientOptions = DEFAULT_LIFI_OPTIONS
+  ) {}
+
+  async getRoute(request: RouteRequest): Promise<Route> {
+    const quote = await getWethToUsdcRoute(
+      request.fromToken,
+      request.toToken,
+      request.amount,
+      request.fromAddress,
+      request.beneficiary,
+      request.receiver,
+      request.sourceChainId,
+      request.destinationChainId,
+      this.options
+    );
+
+    if (!validateQuote(quote)) {
+      throw new Error('Invalid LI.FI quote');
+    }
+
+    // The contract checks little beyond the beneficiary appearing somewhere, so check the rest here
+    const problems = checkLiFiCalldata(quote.transactionRequest.to, quote.transactionRequest.data, {
+      diamondAddress: this.diamondAddress,
+      destinationChainId: request.destinationChainId,
+      fromToken: request.fromToken,
+      amount: request.amount,
+      receivers: [request.receiver, request.beneficiary],
+    });
+    if (problems.length > 0) {
+      throw new Error(`LI.FI route rejected: ${problems.join('; ')}`);
+    }
+
+    return {
+      provider: this.name,
+      swapData: quote.transactionRequest.data,
+      quoteId: quote.id ?? null,
+      toAmount: quote.estimate.toAmount ?? null,
+      toAmountMin: quote.estimate.toAmountMin,
+      fromDecimals: quote.action?.fromToken?.decimals ?? null,
+      toDecimals: quote.action?.toToken?.decimals ?? null,
+      fromPriceUSD: quote.action?.fromToken?.priceUSD ?? null,
+      nativePriceUSD: quote.estimate.gasCosts?.[0]?.token.priceUSD ?? null,
+      testOnly: false,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { decodeAbiParameters, isAddressEqual, slice, toFunctionSelector, type Address, type Hex } from 'viem';
+
+// ILiFi.BridgeData, the first argument of every startBridgeTokensVia* / swapAndStartBridgeTokensVia* facet function
+const BRIDGE_DATA = {
+  type: 'tuple',
+  components: [
+    { name: 'transactionId', type: 'bytes32' },
+    { name: 'bridge', type: 'string' },
+    { name: 'integrator', type: 'string' },
+    { name: 'referrer', type: 'address' },
+    { name: 'sendingAssetId', type: 'address' },
+    { name: 'receiver', type: 'address' },
+    { name: 'minAmount', type: 'uint256' },
+    { name: 'destinationChainId', type: 'uint256' },
+    { name: 'hasSourceSwaps', type: 'bool' },
+    { name: 'hasDestinationCall', type: 'bool' },
+  ],
+} as const;
+
+// LibSwap.SwapData[], the second argument of the swapAndStartBridgeTokensVia* functions
+const SWAP_DATA = {
+  type: 'tuple[]',
+  components: [
+    { name: 'callTo', type: 'address' },
+    { name: 'approveTo', type: 'address' },
+    { name: 'sendingAssetId', type: 'address' },
+    { name: 'receivingAssetId', type: 'address' },
+    { name: 'fromAmount', type: 'uint256' },
+    { name: 'callData', type: 'bytes' },
+    { name: 'requiresDeposit', type: 'bool' },
+  ],
+} as const;
+
+const BRIDGE_DATA_TYPE = '(bytes32,string,string,address,address,address,uint256,uint256,bool,bool)';
+const SWAP_DATA_TYPE = '(address,address,address,address,uint256,bytes,bool)[]';
+
+// Same-chain swaps through GenericSwapFacet
+const SWAP_TOKENS_GENERIC = toFunctionSelector(`swapTokensGeneric(bytes32,string,string,address,uint256,${SWAP_DATA_TYPE})`);
+
+/**
+ * Bridge facets a route may call, with the facet's own data that follows BridgeData (and SwapData[]).
+ * Each one has a startBridgeTokensVia<Facet> and a swapAndStartBridgeTokensVia<Facet> function.
+ * Calldata for any other function is refused, add a facet here once its arguments have been checked.
+ */
+const BRIDGE_FACETS: Record<string, string> = {
+  AcrossV3: '(address,address,address,uint256,address,uint32,uint32,uint32,bytes)',
+  CBridge: '(uint32,uint64)',
+  Hop: '(uint256,uint256,uint256,uint256,uint256,address,uint256,uint256)',
+  Mayan: '(bytes32,address,bytes)',
+  Relay: '(bytes32,bytes32,bytes32,bytes)',
+  Stargate: '(uint16,(uint32,bytes32,uint256,uint256,bytes,bytes,bytes),(uint256,uint256),address)',
+};
+
+interface BridgeFunction {
+  name: string;
+  // swapAndStartBridgeTokensVia* take SwapData[] after BridgeData
+  sourceSwaps: boolean;
+}
+
+const BRIDGE_FUNCTIONS = new Map<Hex, BridgeFunction>(
+  Object.entries(BRIDGE_FACETS).flatMap(([facet, facetData]): Array<[Hex, BridgeFunction]> => [
+    [
+      toFunctionSelector(`startBridgeTokensVia${facet}(${BRIDGE_DATA_TYPE},${facetData})`),
+      { name: `startBridgeTokensVia${facet}`, sourceSwaps: false },
+    ],
+    [
+      toFunctionSelector(`swapAndStartBridgeTokensVia${facet}(${BRIDGE_DATA_TYPE},${SWAP_DATA_TYPE},${facetData})`),
+      { name: `swapAndStartBridgeTokensVia${facet}`, sourceSwaps: true },
+    ],
+  ])
+);
+
+export interface LiFiBridgeData {
+  transactionId: Hex;
+  bridge: string;
+  integrator: string;
+  referrer: Address;
+  sendingAssetId: Address;
+  receiver: Address;
+  minAmount: bigint;
+  destinationChainId: bigint;
+  hasSourceSwaps: boolean;
+  hasDestinationCall: boolean;
+}
+
+export interface LiFiSwapData {
+  callTo: Address;
+  approveTo: Address;
+  sendingAssetId: Address;
+  receivingAssetId: Address;
+  fromAmount: bigint;
+  callData: Hex;
+  requiresDeposit: boolean;
+}
+
+/**
+ * What a LI.FI diamond call will do. `bridgeData` is null for same-chain swaps.
+ */
+export interface DecodedLiFiCalldata {
+  selector: Hex;
+  functionName: string;
+  bridgeData: LiFiBridgeData | null;
+  swapData: LiFiSwapData[];
+  receiver: Address;
+  // null for same-chain swaps
+  destinationChainId: bigint | null;
+}
+
+/**
+ * What the liquidator means to do with a route
+ */
+export interface LiquidationIntent {
+  diamondAddress: Address;
+  destinationChainId: number;
+  fromToken: Address;
+  // Exactly what LazarusSource approves to the diamond, the liquidated amount minus the fee
+  amount: bigint;
+  // The vault, or the beneficiary when no vault is configured
+  receivers: Address[];
+}
+
+/**
+ * Decode calldata for the allowed LI.FI functions: startBridgeTokensVia* and swapAndStartBridgeTokensVia*
+ * of the facets in BRIDGE_FACETS (BridgeData first, SwapData[] second for the swapAndStart ones), and
+ * GenericSwapFacet.swapTokensGeneric. Facet-specific arguments after those are not decoded.
+ * Throws for any other function, or when the calldata doesn't fit.
+ */
+export function decodeLiFiCalldata(data: Hex): DecodedLiFiCalldata {
+  const selector = slice(data, 0, 4);
+  const args = slice(data, 4);
+
+  if (selector === SWAP_TOKENS_GENERIC) {
+    const [, , , receiver, , swapData] = decodeAbiParameters(
+      [
+        { type: 'bytes32' },
+        { type: 'string' },
+        { type: 'string' },
+        { type: 'address' },
+        { type: 'uint256' },
+        SWAP_DATA,
+      ],
+      args
+    );
+    return { selector, functionName: 'swapTokensGeneric', bridgeData: null, swapData: [...swapData], receiver, destinationChainId: null };
+  }
+
+  const bridgeFunction = BRIDGE_FUNCTIONS.get(selector);
+  if (!bridgeFunction) {
+    throw new Error(`Function ${selector} is not an allowed LI.FI bridge function`);
+  }
+
+  const [bridgeData] = decodeAbiParameters([BRIDGE_DATA], args);
+  if (bridgeData.hasSourceSwaps !== bridgeFunction.sourceSwaps) {
+    throw new Error(`${bridgeFunction.name} with hasSourceSwaps ${bridgeData.hasSourceSwaps}`);
+  }
+  const swapData = bridgeFunction.sourceSwaps
+    ? [...decodeAbiParameters([BRIDGE_DATA, SWAP_DATA], args)[1]]
+    : [];
+
+  return {
+    selector,
+    functionName: bridgeFunction.name,
+    bridgeData,
+    swapData,
+    receiver: bridgeData.receiver,
+    destinationChainId: bridgeData.destinationChainId,
+  };
+}
+
+/**
+ * Compare a LI.FI transaction with the liquidation it is meant to carry out.
+ * Returns every disagreement, an empty list means the route may be submitted.
+ */
+export function checkLiFiCalldata(to: Address, data: Hex, intent: LiquidationIntent): string[] {
+  const problems: string[] = [];
+
+  if (!isAddressEqual(to, intent.diamondAddress)) {
+    problems.push(`target ${to} is not the LI.FI diamond ${intent.diamondAddress}`);
+  }
+
+  let decoded: DecodedLiFiCalldata;
+  try {
+    decoded = decodeLiFiCalldata(data);
+  } catch (error) {
+    problems.push(`calldata could not be decoded (${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'})`);
+    return problems;
+  }
+
+  if (!intent.receivers.some(receiver => isAddressEqual(receiver, decoded.receiver))) {
+    problems.push(`receiver ${decoded.receiver} is not ${intent.receivers.join(' or ')}`);
+  }
+
+  if (decoded.destinationChainId === null) {
+    problems.push('route swaps on the source chain without bridging');
+  } else if (decoded.destinationChainId !== BigInt(intent.destinationChainId)) {
+    problems.push(`destination chain ${decoded.destinationChainId} is not ${intent.destinationChainId}`);
+  }
+
+  const [firstSwap] = decoded.swapData;
+  const sentToken = firstSwap ? firstSwap.sendingAssetId : decoded.bridgeData?.sendingAssetId;
+  const sentAmount = firstSwap ? firstSwap.fromAmount : decoded.bridgeData?.minAmount;
+
+  if (!sentToken || !isAddressEqual(sentToken, intent.fromToken)) {
+    problems.push(`sends token ${sentToken} instead of ${intent.fromToken}`);
+  }
+  if (sentAmount !== intent.amount) {
+    problems.push(`spends ${sentAmount} instead of the approved ${intent.amount}`);
+  }
+
+  if (decoded.bridgeData && decoded.swapData.length > 0) {
+    const lastSwap = decoded.swapData[decoded.swapData.length - 1];
+    if (!isAddressEqual(lastSwap.receivingAssetId, decoded.bridgeData.sendingAssetId)) {
+      problems.push(`swaps into ${lastSwap.receivingAssetId} but bridges ${decoded.bridgeData.sendingAssetId}`);
+    }
+  }
+
+  return problems;
+}
@@ -1,15 +1,121 @@
-import type { Address, PublicClient, WalletClient } from 'viem';
-import { getHeartbeatStore } from './database.js';
-import { buildMockSwapData, getWethToUsdcRoute, validateQuote } from './lifi.js';
-import { Config, LazarusSourceABI, ERC20ABI } from './config.js';
-
-const FALLBACK_INACTIVITY_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+import {
+  encodeFunctionData,
+  formatEther,
+  formatUnits,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+} from 'viem';
+import {
+  getHeartbeatStore,
+  ACTIVE_JOB_STATES,
+  type LiquidationFailureKind,
+  type LiquidationJob,
+  type LiquidationJobRoute,
+  type LiquidationJobState,
+} from './database.js';
+import { addPendingBridge } from './destinationMonitor.js';
+import {
+  estimateFees,
+  findReceipt,
+  fromSubmittedTransaction,
+  rebroadcastManagedTransaction,
+  sendManagedTransaction,
+  toSubmittedTransaction,
+  valueInNative,
+  waitForManagedTransaction,
+  withGasBuffer,
+  type ManagedTransaction,
+} from './gas.js';
+import { notifyLiquidation } from './notifications.js';
+import { createLogger, withLogContext } from './logger.js';
+import { liquidationAttemptsTotal, liquidationOutcomesTotal } from './metrics.js';
+import { valueLiquidation } from './pricing.js';
+import { findRoute, type Route } from './routes.js';
+import { checkGracePeriod, reasonToAbandon } from './gracePeriod.js';
+import { LeadershipLostError } from './leader.js';
+import { Config, LazarusSourceABI, ERC20ABI, type SourceClients, type TokenConfig } from './config.js';
+
+const BPS_DENOMINATOR = 10_000n;
+
+// Source chains whose queue is being worked, so the cron and the manual endpoint never overlap
+const runningChains = new Set<number>();
+
+const log = createLogger('liquidator');
+
+// LIQUIDATION_FEE_BPS per source chain
+const liquidationFeeBps = new Map<number, bigint>();
+
+// Quotes per attempt before a token whose amount keeps moving is retried on the next run
+const MAX_QUOTES_PER_ATTEMPT = 3;
+
+// Revert reasons that mean the approved amount and the amount the route spends disagree
+const AMOUNT_MISMATCH_ERRORS = /InsufficientBalance|InvalidAmount|InsufficientAllowance|exceeds (allowance|balance)/i;
+
+interface LiquidationAmounts {
+  blockNumber: bigint;
+  walletAmount: bigint;
+  depositedAmount: bigint;
+  amountToLiquidate: bigint;
+  fee: bigint;
+  amountToSwap: bigint;
+}
 
 export interface LiquidationResult {
+  jobId: string;
+  chainId: number;
   userAddress: Address;
+  tokenSymbol: string;
   success: boolean;
   txHash?: `0x${string}`;
+  routeProvider?: string;
   error?: string;
+  // Set when the attempt failed, unset when there was simply nothing to do (no funds, deferred)
+  failureKind?: LiquidationFailureKind;
+}
+
+/**
+ * What liquidating one token would do right now. Amounts are base units of the token,
+ * `gasCost` and `feeValue` are in wei.
+ */
+export interface LiquidationDryRun {
+  chainId: number;
+  userAddress: Address;
+  tokenSymbol: string;
+  wouldSubmit: boolean;
+  reason?: string;
+  beneficiary?: Address;
+  blockNumber?: string;
+  amountToLiquidate?: string;
+  fee?: string;
+  amountToSwap?: string;
+  routeProvider?: string;
+  toAmountMin?: string | null;
+  valueUSD?: number;
+  gasCost?: string;
+  feeValue?: string | null;
+}
+
+// Jobs an operator can put back in the queue
+const REPLAYABLE_JOB_STATES: LiquidationJobState[] = ['failed', 'abandoned'];
+
+/**
+ * LIQUIDATION_FEE_BPS from LazarusSource, read once per chain since it is a constant
+ */
+async function getLiquidationFeeBps(clients: SourceClients): Promise<bigint> {
+  const { source, publicClient } = clients;
+  let feeBps = liquidationFeeBps.get(source.chainId);
+  if (feeBps === undefined) {
+    feeBps = await publicClient.readContract({
+      address: source.lazarusSourceAddress,
+      abi: LazarusSourceABI,
+      functionName: 'LIQUIDATION_FEE_BPS',
+    });
+    liquidationFeeBps.set(source.chainId, feeBps);
+  }
+  return feeBps;
 }
 
 /**
@@ -18,7 +124,8 @@ export interface LiquidationResult {
 async function checkUserOnChain(
   publicClient: PublicClient,
   lazarusSourceAddress: Address,
-  userAddress: Address
+  userAddress: Address,
+  allowDead = false
 ): Promise<{ canLiquidate: boolean; beneficiary?: Address }> {
   try {
     const [canLiquidate] = await publicClient.readContract({
@@ -39,25 +146,27 @@ async function checkUserOnChain(
       args: [userAddress],
     });
 
-    if (!registered || dead) {
+    // The first confirmed token marks the user dead, the remaining tokens are still liquidatable
+    if (!registered || (dead && !allowDead)) {
       return { canLiquidate: false };
     }
 
     return { canLiquidate: true, beneficiary };
   } catch (error) {
-    console.error(`Error checking user ${userAddress} on-chain:`, error);
+    log.error('Error checking user on-chain', { user: userAddress, error });
     return { canLiquidate: false };
   }
 }
 
 /**
- * Check token allowance, balance, and deposited amount for a user
+ * Check token allowance, balance, and deposited amount for a user at a block
  */
 async function checkUserTokens(
   publicClient: PublicClient,
   tokenAddress: Address,
   userAddress: Address,
-  spenderAddress: Address
+  spenderAddress: Address,
+  blockNumber: bigint
 ): Promise<{ allowance: bigint; balance: bigint; depositedAmount: bigint }> {
   const [allowance, balance, depositedAmount] = await Promise.all([
     publicClient.readContract({
@@ -65,12 +174,14 @@ async function checkUserTokens(
       abi: ERC20ABI,
       functionName: 'allowance',
       args: [userAddress, spenderAddress],
+      blockNumber,
     }),
     publicClient.readContract({
       address: tokenAddress,
       abi: ERC20ABI,
       functionName: 'balanceOf',
       args: [userAddress],
+      blockNumber,
     }),
     // Read deposited funds from LazarusSource contract
     publicClient.readContract({
@@ -78,6 +189,7 @@ async function checkUserTokens(
       abi: LazarusSourceABI,
       functionName: 'userDeposits',
       args: [userAddress, tokenAddress],
+      blockNumber,
     }),
   ]);
 
@@ -85,206 +197,742 @@ async function checkUserTokens(
 }
 
 /**
- * Execute liquidation for a single user and token
+ * What `liquidate` would move at a block, using the contract's own arithmetic
+ */
+async function readLiquidationAmounts(
+  clients: SourceClients,
+  tokenAddress: Address,
+  userAddress: Address,
+  feeBps: bigint,
+  blockNumber: bigint
+): Promise<LiquidationAmounts> {
+  const { allowance, balance, depositedAmount } = await checkUserTokens(
+    clients.publicClient,
+    tokenAddress,
+    userAddress,
+    clients.source.lazarusSourceAddress,
+    blockNumber
+  );
+
+  // Calculate wallet-based amount (min of allowance and balance)
+  const walletAmount = allowance < balance ? allowance : balance;
+
+  // Total liquidatable = wallet funds + deposited funds in contract
+  const amountToLiquidate = walletAmount + depositedAmount;
+  const fee = (amountToLiquidate * feeBps) / BPS_DENOMINATOR;
+
+  return { blockNumber, walletAmount, depositedAmount, amountToLiquidate, fee, amountToSwap: amountToLiquidate - fee };
+}
+
+/**
+ * Correlation ids for everything logged while working on a job
+ */
+function jobContext(job: LiquidationJob): Record<string, unknown> {
+  return { jobId: job.id, chainId: job.chainId, user: job.userAddress, token: job.tokenSymbol };
+}
+
+/**
+ * Count where an attempt left the job, with the failure kind for failed and abandoned jobs
+ */
+async function recordOutcome(job: LiquidationJob): Promise<void> {
+  const current = await getHeartbeatStore().getLiquidationJob(job.id);
+  const outcome = current?.state ?? 'unknown';
+  const failed = outcome === 'failed' || outcome === 'abandoned';
+
+  liquidationOutcomesTotal.inc({
+    chain_id: job.chainId,
+    token: job.tokenSymbol,
+    outcome,
+    reason: failed ? current?.failureKind ?? 'error' : 'none',
+  });
+}
+
+/**
+ * Record a failed attempt, giving up once the job has used all its attempts.
+ * Amount mismatches are not the route's or the job's fault, they are retried without counting.
+ */
+async function failJob(job: LiquidationJob, config: Config, error: string, failureKind: LiquidationFailureKind = 'error'): Promise<void> {
+  const store = getHeartbeatStore();
+
+  if (failureKind === 'amount-mismatch') {
+    await store.updateLiquidationJob(job.id, { state: 'failed', lastError: error, failureKind, refundAttempt: true });
+    return;
+  }
+
+  const current = await store.getLiquidationJob(job.id);
+  const attempts = current?.attempts ?? job.attempts;
+
+  await store.updateLiquidationJob(job.id, {
+    state: attempts >= config.maxLiquidationAttempts ? 'abandoned' : 'failed',
+    lastError: error,
+    failureKind,
+  });
+}
+
+/**
+ * Execute the liquidation job for a single user and token
  */
 async function executeLiquidation(
-  publicClient: PublicClient,
-  walletClient: WalletClient,
+  clients: SourceClients,
   config: Config,
-  userAddress: Address,
-  beneficiary: Address,
-  tokenAddress: Address,
-  tokenSymbol: string
+  job: LiquidationJob
 ): Promise<LiquidationResult> {
+  const { source, publicClient, walletClient } = clients;
+  const store = getHeartbeatStore();
+  const userAddress = job.userAddress as Address;
+  const tokenAddress = job.tokenAddress as Address;
+  const tokenSymbol = job.tokenSymbol;
+  const base: Omit<LiquidationResult, 'success'> = { jobId: job.id, chainId: job.chainId, userAddress, tokenSymbol };
+  let submitting = false;
+
+  await store.updateLiquidationJob(job.id, { state: 'quoting', incrementAttempts: true });
+
   try {
-    // Check token allowance, balance, and deposited amount
-    const { allowance, balance, depositedAmount } = await checkUserTokens(
+    // The user may have checked in or been vetoed since the job was queued
+    const abandonReason = await reasonToAbandon(config, job);
+    if (abandonReason) {
+      await store.updateLiquidationJob(job.id, { state: 'abandoned', lastError: abandonReason });
+      return { ...base, success: false, error: abandonReason };
+    }
+
+    // Re-check on-chain, the user may have pinged since the job was queued
+    const { canLiquidate, beneficiary } = await checkUserOnChain(
       publicClient,
-      tokenAddress,
+      source.lazarusSourceAddress,
       userAddress,
-      config.lazarusSourceAddress
+      true
     );
 
-    // Calculate wallet-based amount (min of allowance and balance)
-    const walletAmount = allowance < balance ? allowance : balance;
-
-    // Total liquidatable = wallet funds + deposited funds in contract
-    const amountToLiquidate = walletAmount + depositedAmount;
-
-    if (amountToLiquidate === 0n) {
-      return {
-        userAddress,
-        success: false,
-        error: `User has no ${tokenSymbol} to liquidate (wallet: ${walletAmount}, deposited: ${depositedAmount})`,
-      };
+    if (!canLiquidate || !beneficiary) {
+      const error = `User ${userAddress} is no longer liquidatable`;
+      await store.updateLiquidationJob(job.id, { state: 'abandoned', lastError: error });
+      return { ...base, success: false, error };
     }
 
-    console.log(`[Liquidation] ${userAddress} - ${tokenSymbol}: wallet=${walletAmount}, deposited=${depositedAmount}, total=${amountToLiquidate}`);
+    const feeBps = await getLiquidationFeeBps(clients);
 
-    const feeBps = 100n;
-    const fee = (amountToLiquidate * feeBps) / 10000n;
-    const amountToSwap = amountToLiquidate - fee;
+    // Amounts are read at a pinned block, and read again after quoting. If they moved the route
+    // no longer matches what the contract will approve, so it is quoted again for the new amount.
+    let amounts = await readLiquidationAmounts(clients, tokenAddress, userAddress, feeBps, await publicClient.getBlockNumber());
+    let route: Route | null = null;
 
-    // Try to get LI.FI route, fall back to mock if API fails
-    let swapData: `0x${string}`;
-    
-    try {
-      const route = await getWethToUsdcRoute(
-        tokenAddress,
-        config.usdcAddress,
-        amountToSwap,
-        config.lazarusSourceAddress,
-        beneficiary,
-        config.lazarusVaultAddress, // Use vault if configured
-        config.sourceChainId,
-        config.destinationChainId
-      );
+    for (let quotes = 0; ; quotes++) {
+      const { walletAmount, depositedAmount, amountToLiquidate } = amounts;
 
-      if (!validateQuote(route)) {
-        throw new Error('Invalid LI.FI quote');
+      if (amountToLiquidate === 0n) {
+        const error = `User has no ${tokenSymbol} to liquidate (wallet: ${walletAmount}, deposited: ${depositedAmount})`;
+        await store.updateLiquidationJob(job.id, { state: 'abandoned', lastError: error });
+        return { ...base, success: false, error };
       }
 
-      swapData = route.transactionRequest.data;
-    } catch (lifiError) {
-      // DANGER: Mock data should ONLY be used in development/testnet
-      // In production, we must fail if LI.FI API is unavailable
-      const isDevelopment = process.env.NODE_ENV === 'development' || process.env.USE_MOCK_SWAP === 'true';
-      
-      if (!isDevelopment) {
-        throw new Error(`LI.FI API failed in production for user ${userAddress}: ${lifiError instanceof Error ? lifiError.message : 'Unknown error'}`);
+      if (quotes >= MAX_QUOTES_PER_ATTEMPT) {
+        const error = `Amount mismatch: ${tokenSymbol} amount kept changing while quoting (now ${amountToLiquidate} at block ${amounts.blockNumber})`;
+        await failJob(job, config, error, 'amount-mismatch');
+        return { ...base, success: false, error, failureKind: 'amount-mismatch' };
       }
-      
-      console.warn(`[DEV ONLY] LI.FI API failed for user ${userAddress}, using mock data:`, lifiError);
-      swapData = buildMockSwapData(
-        tokenAddress,
-        amountToSwap,
+
+      log.info('Read liquidation amounts', {
+        wallet: walletAmount,
+        deposited: depositedAmount,
+        total: amountToLiquidate,
+        blockNumber: amounts.blockNumber,
+      });
+
+      // Providers are tried in priority order, the mock provider only exists in development
+      route = await findRoute(config, {
+        sourceChainId: source.chainId,
+        destinationChainId: config.destinationChainId,
+        fromToken: tokenAddress,
+        toToken: config.usdcAddress,
+        amount: amounts.amountToSwap,
+        fromAddress: source.lazarusSourceAddress,
+        receiver: config.lazarusVaultAddress || beneficiary,
         beneficiary,
-        config.destinationChainId
-      );
+      });
+
+      const latest = await readLiquidationAmounts(clients, tokenAddress, userAddress, feeBps, await publicClient.getBlockNumber());
+      if (latest.amountToLiquidate === amountToLiquidate) {
+        amounts = latest;
+        break;
+      }
+
+      log.info('Amount moved while quoting, re-quoting', {
+        quoted: amountToLiquidate,
+        total: latest.amountToLiquidate,
+        blockNumber: latest.blockNumber,
+      });
+      amounts = latest;
     }
 
-    // Simulate the transaction first
+    const { amountToLiquidate, fee, amountToSwap, blockNumber } = amounts;
+
+    if (route.testOnly) {
+      log.warn('[DEV ONLY] Using a test route', { provider: route.provider });
+    }
+
+    const swapData = route.swapData;
+    const jobRoute: LiquidationJobRoute = {
+      provider: route.provider,
+      quoteId: route.quoteId,
+      toAmount: route.toAmount,
+      toAmountMin: route.toAmountMin,
+    };
+    base.routeProvider = route.provider;
+
+    // Dust isn't worth the gas and bridge fees, leave it for a later run
+    const valuation = await valueLiquidation(
+      clients,
+      config,
+      { address: tokenAddress, symbol: tokenSymbol },
+      amountToLiquidate,
+      amountToSwap,
+      route
+    );
+
+    if (!valuation) {
+      log.warn('No price for token, skipping the LIQUIDATION_MIN_USD check');
+    } else if (valuation.valueUSD < config.liquidationMinUsd) {
+      const error =
+        `deferred: below threshold (${formatUnits(amountToLiquidate, valuation.decimals)} ${tokenSymbol} ` +
+        `at $${valuation.priceUSD} from ${valuation.source} = $${valuation.valueUSD.toFixed(2)}, ` +
+        `minimum $${config.liquidationMinUsd})`;
+      await store.updateLiquidationJob(job.id, { state: 'deferred', lastError: error, refundAttempt: true });
+      return { ...base, success: false, error };
+    }
+
+    // Simulate the transaction first, against the same block the amounts were read at
     try {
       await publicClient.simulateContract({
-        address: config.lazarusSourceAddress,
+        address: source.lazarusSourceAddress,
         abi: LazarusSourceABI,
         functionName: 'liquidate',
         args: [userAddress, tokenAddress, swapData],
         account: walletClient.account,
+        blockNumber,
       });
     } catch (simError) {
-      return {
-        userAddress,
-        success: false,
-        error: `Simulation failed: ${simError instanceof Error ? simError.message : 'Unknown error'}`,
-      };
+      const reason = simError instanceof Error ? simError.message : 'Unknown error';
+      const latest = await readLiquidationAmounts(clients, tokenAddress, userAddress, feeBps, await publicClient.getBlockNumber());
+
+      if (latest.amountToLiquidate !== amountToLiquidate || AMOUNT_MISMATCH_ERRORS.test(reason)) {
+        const error = `Amount mismatch: quoted ${amountToSwap} of ${amountToLiquidate}, contract now has ${latest.amountToLiquidate} (${reason.split('\n')[0]})`;
+        await failJob(job, config, error, 'amount-mismatch');
+        return { ...base, success: false, error, failureKind: 'amount-mismatch' };
+      }
+
+      const error = `Simulation failed: ${reason}`;
+      await failJob(job, config, error, 'simulation');
+      return { ...base, success: false, error, failureKind: 'simulation' };
     }
 
-    // Execute the liquidation
-    const hash = await walletClient.writeContract({
-      address: config.lazarusSourceAddress,
+    await store.updateLiquidationJob(job.id, { state: 'simulated', route: jobRoute });
+
+    // The fee is all the watchtower gets back, don't spend more than that on gas
+    const [gasEstimate, fees] = await Promise.all([
+      publicClient.estimateContractGas({
+        address: source.lazarusSourceAddress,
+        abi: LazarusSourceABI,
+        functionName: 'liquidate',
+        args: [userAddress, tokenAddress, swapData],
+        account: walletClient.account!,
+        blockNumber,
+      }),
+      estimateFees(publicClient, config),
+    ]);
+    const gasCost = gasEstimate * fees.maxFeePerGas;
+    const feeValue = valueInNative(clients, tokenSymbol, fee, route);
+
+    if (feeValue === null && !route.testOnly) {
+      const error = `Cannot price the ${tokenSymbol} fee against gas, refusing to submit`;
+      await failJob(job, config, error, 'gas');
+      return { ...base, success: false, error, failureKind: 'gas' };
+    }
+    if (feeValue === null) {
+      log.warn('[DEV ONLY] No price for token with a test route, submitting without a gas check');
+    } else if (gasCost > feeValue) {
+      const error = `Gas cost ${formatEther(gasCost)} exceeds the ${feeBps} bps fee worth ${formatEther(feeValue)} (${fee} ${tokenSymbol})`;
+      await failJob(job, config, error, 'gas');
+      return { ...base, success: false, error, failureKind: 'gas' };
+    }
+
+    // Execute the liquidation. The signed transaction is persisted before it is broadcast, so a crash
+    // or a failed broadcast leaves a `submitting` job to reconcile instead of one that is sent twice.
+    const tx = await sendManagedTransaction(clients, config, {
+      to: source.lazarusSourceAddress,
+      data: encodeFunctionData({
+        abi: LazarusSourceABI,
+        functionName: 'liquidate',
+        args: [userAddress, tokenAddress, swapData],
+      }),
+      gas: withGasBuffer(gasEstimate),
+    }, fees, async signed => {
+      await store.updateLiquidationJob(job.id, {
+        state: 'submitting',
+        txHash: signed.hashes[0],
+        transaction: toSubmittedTransaction(signed),
+      });
+      submitting = true;
+    });
+
+    await store.updateLiquidationJob(job.id, { state: 'submitted' });
+
+    return await confirmSubmittedJob(clients, config, job, tx);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof LeadershipLostError && !submitting) {
+      // Nothing was signed, the new leader re-queues the job when it takes over. Abort the whole run.
+      throw error;
+    }
+    if (submitting) {
+      // The broadcast may have reached the node, the next run reconciles it against the chain
+      await store.updateLiquidationJob(job.id, { state: 'submitting', lastError: message });
+    } else {
+      await failJob(job, config, message);
+    }
+    return { ...base, success: false, error: message, failureKind: 'error' };
+  }
+}
+
+/**
+ * Wait for the receipt of a submitted liquidation and settle the job.
+ * A stuck transaction is replaced with higher fees at the same nonce, each replacement is stored
+ * on the job. If it is still pending after that, the job stays `submitted` and is checked again
+ * on the next run rather than sent a second time.
+ * A confirmed liquidation registers a pending bridge from its Liquidated event.
+ */
+async function confirmSubmittedJob(
+  clients: SourceClients,
+  config: Config,
+  job: LiquidationJob,
+  tx: ManagedTransaction | null
+): Promise<LiquidationResult> {
+  const { source, publicClient } = clients;
+  const store = getHeartbeatStore();
+  const base = {
+    jobId: job.id,
+    chainId: job.chainId,
+    userAddress: job.userAddress as Address,
+    tokenSymbol: job.tokenSymbol,
+    routeProvider: job.route?.provider ?? undefined,
+  };
+
+  let receipt: TransactionReceipt | null;
+  try {
+    // Jobs submitted before transactions were stored only have a hash to wait on
+    receipt = tx
+      ? await waitForManagedTransaction(clients, config, tx, replaced => {
+          return store.updateLiquidationJob(job.id, {
+            state: 'submitted',
+            txHash: replaced.hashes[replaced.hashes.length - 1],
+            transaction: toSubmittedTransaction(replaced),
+          });
+        })
+      : await publicClient.waitForTransactionReceipt({ hash: job.txHash as Hex });
+  } catch (error) {
+    const message = `Could not confirm ${job.txHash}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    await store.updateLiquidationJob(job.id, { state: 'submitted', lastError: message });
+    return { ...base, success: false, error: message };
+  }
+
+  if (!receipt) {
+    const error = `Transaction still pending after ${config.maxFeeBumps} fee bumps, will check again on the next run`;
+    await store.updateLiquidationJob(job.id, { state: 'submitted', lastError: error });
+    return { ...base, success: false, error };
+  }
+
+  // A replacement may have been mined instead of the first broadcast
+  const hash = receipt.transactionHash;
+
+  if (receipt.status === 'success') {
+    await store.updateLiquidationJob(job.id, { state: 'confirmed', lastError: null, failureKind: null, txHash: hash });
+
+    const [liquidated] = parseEventLogs({
       abi: LazarusSourceABI,
-      functionName: 'liquidate',
-      args: [userAddress, tokenAddress, swapData],
-      chain: walletClient.chain,
-      account: walletClient.account!,
+      eventName: 'Liquidated',
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === source.lazarusSourceAddress.toLowerCase()),
     });
 
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (liquidated) {
+      // The job row carries the route it was submitted with, also after a restart
+      const route = (await store.getLiquidationJob(job.id))?.route;
+      await addPendingBridge({
+        jobId: job.id,
+        sourceChainId: job.chainId,
+        userAddress: job.userAddress,
+        beneficiary: liquidated.args.beneficiary,
+        tokenAddress: job.tokenAddress,
+        tokenSymbol: job.tokenSymbol,
+        amount: liquidated.args.amount.toString(),
+        quoteId: route?.quoteId ?? null,
+        expectedAmount: route?.toAmount ?? null,
+        minAmount: route?.toAmountMin ?? null,
+        sourceTxHash: hash,
+      });
 
-    if (receipt.status === 'success') {
-      // User removal is now handled in runLiquidationCheck after all tokens are processed
-      return {
-        userAddress,
-        success: true,
+      await notifyLiquidation(config, {
+        chainId: job.chainId,
+        userAddress: job.userAddress,
+        beneficiary: liquidated.args.beneficiary,
+        tokenAddress: job.tokenAddress,
+        tokenSymbol: job.tokenSymbol,
+        amount: liquidated.args.amount.toString(),
+        expectedAmount: route?.toAmount ?? null,
         txHash: hash,
-      };
+      });
     } else {
-      return {
-        userAddress,
-        success: false,
-        error: 'Transaction reverted',
-        txHash: hash,
-      };
+      log.warn('No Liquidated event found, bridge not tracked', { txHash: hash });
     }
-  } catch (error) {
-    return {
-      userAddress,
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+
+    return { ...base, success: true, txHash: hash };
   }
+
+  await failJob(job, config, 'Transaction reverted', 'reverted');
+  return { ...base, success: false, error: 'Transaction reverted', failureKind: 'reverted', txHash: hash };
 }
 
 /**
- * Run the liquidation check job
- * This is called by the cron scheduler
+ * Settle jobs whose transaction is already on the wire, from the receipt instead of resending
  */
-export async function runLiquidationCheck(
-  publicClient: PublicClient,
-  walletClient: WalletClient,
+async function settleSubmittedJobs(
+  clients: SourceClients,
   config: Config
 ): Promise<LiquidationResult[]> {
-  console.log(`[${new Date().toISOString()}] Running liquidation check...`);
+  const store = getHeartbeatStore();
+  const results: LiquidationResult[] = [];
+
+  for (const job of await store.getLiquidationJobs(['submitted'], clients.source.chainId)) {
+    if (!job.txHash) {
+      await store.updateLiquidationJob(job.id, { state: 'queued', lastError: 'Submitted without a recorded tx hash' });
+      continue;
+    }
+
+    const tx = job.transaction ? fromSubmittedTransaction(job.transaction) : null;
+    results.push(await withLogContext(jobContext(job), () => {
+      log.info('Checking submitted job', { txHash: job.txHash });
+      return confirmSubmittedJob(clients, config, job, tx);
+    }));
+    await recordOutcome(job);
+  }
+
+  return results;
+}
+
+/**
+ * Settle jobs whose transaction was signed and stored but may not have been broadcast, against the chain.
+ * A mined broadcast or one the node still has becomes `submitted`. If the nonce was used by something
+ * else the transaction can never land and the job starts over, otherwise it is broadcast again.
+ */
+async function reconcileSubmittingJobs(clients: SourceClients, config: Config): Promise<void> {
+  const { publicClient, walletClient } = clients;
+  const store = getHeartbeatStore();
 
+  for (const job of await store.getLiquidationJobs(['submitting'], clients.source.chainId)) {
+    await withLogContext(jobContext(job), async () => {
+      if (!job.transaction) {
+        await store.updateLiquidationJob(job.id, { state: 'queued', lastError: 'Submitting without a recorded transaction' });
+        return;
+      }
+
+      const tx = fromSubmittedTransaction(job.transaction);
+      if (await findReceipt(publicClient, tx.hashes)) {
+        await store.updateLiquidationJob(job.id, { state: 'submitted' });
+        return;
+      }
+
+      const minedNonce = await publicClient.getTransactionCount({ address: walletClient.account!.address, blockTag: 'latest' });
+      if (minedNonce > tx.nonce) {
+        log.warn('Nonce was used by another transaction, re-queueing', { nonce: tx.nonce, txHash: job.txHash });
+        await store.updateLiquidationJob(job.id, {
+          state: 'queued',
+          lastError: `Nonce ${tx.nonce} was used by another transaction`,
+          txHash: null,
+          transaction: null,
+        });
+        return;
+      }
+
+      log.info('Rebroadcasting interrupted transaction', { nonce: tx.nonce, txHash: job.txHash });
+      await rebroadcastManagedTransaction(clients, config, tx);
+      await store.updateLiquidationJob(job.id, { state: 'submitted' });
+    });
+  }
+}
+
+/**
+ * Work through every queued or retryable job
+ */
+async function processLiquidationQueue(
+  clients: SourceClients,
+  config: Config
+): Promise<LiquidationResult[]> {
+  const chainId = clients.source.chainId;
   const store = getHeartbeatStore();
   const results: LiquidationResult[] = [];
+  const jobs = await store.getLiquidationJobs(['queued', 'failed', 'deferred'], chainId);
+  const touchedUsers = new Set<string>();
 
-  // Get all users who are inactive based on their OWN custom period
-  const inactiveUsers = store.getInactiveUsers();
+  log.info('Processing liquidation jobs', { chainId, jobs: jobs.length });
 
-  console.log(`Found ${inactiveUsers.length} potentially inactive users`);
+  for (const job of jobs) {
+    liquidationAttemptsTotal.inc({ chain_id: chainId, token: job.tokenSymbol });
 
-  for (const user of inactiveUsers) {
-    const userAddress = user.userAddress as Address;
-    
-    // Check on-chain status
-    const { canLiquidate, beneficiary } = await checkUserOnChain(
-      publicClient,
-      config.lazarusSourceAddress,
-      userAddress
-    );
+    const result = await withLogContext(jobContext(job), async () => {
+      log.info('Liquidating', { attempt: job.attempts + 1 });
+      const attempt = await executeLiquidation(clients, config, job);
+
+      if (attempt.success) {
+        log.info('Liquidated', { txHash: attempt.txHash });
+      } else if (attempt.failureKind) {
+        log.warn('Liquidation failed', { failureKind: attempt.failureKind, error: attempt.error });
+      } else {
+        // Expected outcomes such as a token the user doesn't hold or an amount below the minimum
+        log.info('Nothing liquidated', { reason: attempt.error });
+      }
+      return attempt;
+    });
+
+    await recordOutcome(job);
+    results.push(result);
+    touchedUsers.add(job.userAddress);
+  }
+
+  // Stop tracking a user once all their jobs are settled and at least one token was liquidated
+  for (const userAddress of touchedUsers) {
+    const userJobs = await store.getUserLiquidationJobs(chainId, userAddress);
+    const settled = userJobs.every(j => !ACTIVE_JOB_STATES.includes(j.state));
+    if (settled && userJobs.some(j => j.state === 'confirmed')) {
+      await store.removeUser(chainId, userAddress);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Go through the checks of a liquidation for one token, up to simulating the transaction and
+ * weighing gas against the fee, without touching the store or sending anything
+ */
+async function dryRunToken(
+  clients: SourceClients,
+  config: Config,
+  userAddress: Address,
+  beneficiary: Address,
+  token: TokenConfig
+): Promise<Omit<LiquidationDryRun, 'chainId' | 'userAddress' | 'tokenSymbol'>> {
+  const { source, publicClient, walletClient } = clients;
+  const feeBps = await getLiquidationFeeBps(clients);
+  const { blockNumber, amountToLiquidate, fee, amountToSwap } =
+    await readLiquidationAmounts(clients, token.address, userAddress, feeBps, await publicClient.getBlockNumber());
+
+  const result: Omit<LiquidationDryRun, 'chainId' | 'userAddress' | 'tokenSymbol'> = {
+    wouldSubmit: false,
+    beneficiary,
+    blockNumber: blockNumber.toString(),
+    amountToLiquidate: amountToLiquidate.toString(),
+    fee: fee.toString(),
+    amountToSwap: amountToSwap.toString(),
+  };
+
+  if (amountToLiquidate === 0n) {
+    return { ...result, reason: `User has no ${token.symbol} to liquidate` };
+  }
+
+  const route = await findRoute(config, {
+    sourceChainId: source.chainId,
+    destinationChainId: config.destinationChainId,
+    fromToken: token.address,
+    toToken: config.usdcAddress,
+    amount: amountToSwap,
+    fromAddress: source.lazarusSourceAddress,
+    receiver: config.lazarusVaultAddress || beneficiary,
+    beneficiary,
+  });
+  result.routeProvider = route.provider;
+  result.toAmountMin = route.toAmountMin;
+
+  const valuation = await valueLiquidation(clients, config, token, amountToLiquidate, amountToSwap, route);
+  if (valuation) {
+    result.valueUSD = valuation.valueUSD;
+    if (valuation.valueUSD < config.liquidationMinUsd) {
+      return { ...result, reason: `Worth $${valuation.valueUSD.toFixed(2)}, below LIQUIDATION_MIN_USD ($${config.liquidationMinUsd})` };
+    }
+  }
+
+  const call = {
+    address: source.lazarusSourceAddress,
+    abi: LazarusSourceABI,
+    functionName: 'liquidate',
+    args: [userAddress, token.address, route.swapData],
+    account: walletClient.account!,
+    blockNumber,
+  } as const;
+
+  try {
+    await publicClient.simulateContract(call);
+  } catch (error) {
+    return { ...result, reason: `Simulation failed: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}` };
+  }
+
+  const [gasEstimate, fees] = await Promise.all([publicClient.estimateContractGas(call), estimateFees(publicClient, config)]);
+  const gasCost = gasEstimate * fees.maxFeePerGas;
+  const feeValue = valueInNative(clients, token.symbol, fee, route);
+  result.gasCost = gasCost.toString();
+  result.feeValue = feeValue?.toString() ?? null;
+
+  if (feeValue === null && !route.testOnly) {
+    return { ...result, reason: `Cannot price the ${token.symbol} fee against gas` };
+  }
+  if (feeValue !== null && gasCost > feeValue) {
+    return { ...result, reason: `Gas cost ${formatEther(gasCost)} exceeds the fee worth ${formatEther(feeValue)}` };
+  }
+
+  return { ...result, wouldSubmit: true };
+}
+
+/**
+ * Work out what liquidating a user would do for each token, for operators to check before a run.
+ * The grace period and the job queue are not consulted, only the chain and the route providers.
+ */
+export async function dryRunLiquidation(
+  clients: SourceClients,
+  config: Config,
+  userAddress: Address,
+  tokens: TokenConfig[] = clients.source.supportedTokens
+): Promise<LiquidationDryRun[]> {
+  const { source, publicClient } = clients;
+  const { canLiquidate, beneficiary } = await checkUserOnChain(publicClient, source.lazarusSourceAddress, userAddress, true);
+  const results: LiquidationDryRun[] = [];
+
+  for (const token of tokens) {
+    const base = { chainId: source.chainId, userAddress, tokenSymbol: token.symbol };
 
     if (!canLiquidate || !beneficiary) {
-      console.log(`User ${userAddress} cannot be liquidated yet`);
+      results.push({ ...base, wouldSubmit: false, reason: 'User is not liquidatable on-chain' });
       continue;
     }
 
-    console.log(`Attempting to liquidate user ${userAddress}...`);
+    try {
+      results.push({ ...base, ...await dryRunToken(clients, config, userAddress, beneficiary, token) });
+    } catch (error) {
+      results.push({ ...base, wouldSubmit: false, reason: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Put failed and abandoned jobs back in the queue with their attempts counted from zero,
+ * optionally only the given ids. The next liquidation check works them. Returns the jobs as they were.
+ */
+export async function replayLiquidationJobs(chainId?: number, jobIds?: string[]): Promise<LiquidationJob[]> {
+  const store = getHeartbeatStore();
+  const jobs = (await store.getLiquidationJobs(REPLAYABLE_JOB_STATES, chainId))
+    .filter(job => !jobIds || jobIds.includes(job.id));
+
+  for (const job of jobs) {
+    log.info('Replaying liquidation job', { jobId: job.id, state: job.state, attempts: job.attempts });
+    await store.updateLiquidationJob(job.id, { state: 'queued', failureKind: null, resetAttempts: true });
+  }
 
-    // Iterate through ALL supported tokens
-    let anySuccess = false;
-    for (const token of config.supportedTokens) {
-      console.log(`  Checking ${token.symbol} for user ${userAddress}...`);
-      
-      const result = await executeLiquidation(
+  return jobs;
+}
+
+/**
+ * Run the liquidation check job for one source chain
+ * This is called by the cron scheduler
+ */
+export async function runLiquidationCheck(
+  clients: SourceClients,
+  config: Config
+): Promise<LiquidationResult[]> {
+  const { source, publicClient } = clients;
+
+  if (runningChains.has(source.chainId)) {
+    log.info('Liquidation check already in progress, skipping', { chainId: source.chainId });
+    return [];
+  }
+
+  runningChains.add(source.chainId);
+  try {
+    log.info('Running liquidation check', { chainId: source.chainId });
+
+    const store = getHeartbeatStore();
+
+    // Get all users who are inactive based on their OWN custom period
+    const inactiveUsers = await store.getInactiveUsers(source.chainId);
+
+    log.info('Found potentially inactive users', { chainId: source.chainId, users: inactiveUsers.length });
+
+    for (const user of inactiveUsers) {
+      const userAddress = user.userAddress as Address;
+
+      // Check on-chain status
+      const { canLiquidate, beneficiary } = await checkUserOnChain(
         publicClient,
-        walletClient,
-        config,
-        userAddress,
-        beneficiary,
-        token.address,
-        token.symbol
+        source.lazarusSourceAddress,
+        userAddress
       );
 
-      results.push(result);
+      if (!canLiquidate || !beneficiary) {
+        log.info('User cannot be liquidated yet', { chainId: source.chainId, user: userAddress });
+        continue;
+      }
 
-      if (result.success) {
-        console.log(`  Successfully liquidated ${token.symbol}: ${result.txHash}`);
-        anySuccess = true;
-      } else if (!result.error?.includes('no') || !result.error?.includes('to liquidate')) {
-        // Only log errors that aren't "no funds to liquidate" (expected for tokens user doesn't hold)
-        console.warn(`  Failed ${token.symbol}: ${result.error}`);
+      // A heartbeat or a guardian veto during the grace period stops the liquidation
+      if (!(await checkGracePeriod(config, user))) {
+        continue;
       }
-    }
 
-    // Remove user from tracking only if at least one token was liquidated
-    if (anySuccess) {
-      store.removeUser(userAddress);
+      // Queue a job for ALL supported tokens
+      for (const token of source.supportedTokens) {
+        await store.enqueueLiquidationJob(source.chainId, userAddress, token.address, token.symbol);
+      }
     }
+
+    // Transactions left pending by an earlier run are checked (and bumped) before anything new is sent
+    await reconcileSubmittingJobs(clients, config);
+    const results = await settleSubmittedJobs(clients, config);
+    results.push(...await processLiquidationQueue(clients, config));
+
+    log.info('Liquidation check complete', { chainId: source.chainId, processed: results.length });
+    return results;
+  } finally {
+    runningChains.delete(source.chainId);
   }
+}
 
-  console.log(`Liquidation check complete. Processed ${results.length} token liquidations.`);
-  return results;
+/**
+ * Resume jobs on one source chain that were in flight when the watchtower last stopped
+ * Called once on startup, before the first scheduled check
+ */
+export async function resumeLiquidationJobs(
+  clients: SourceClients,
+  config: Config
+): Promise<LiquidationResult[]> {
+  const { source } = clients;
+
+  if (runningChains.has(source.chainId)) return [];
+
+  runningChains.add(source.chainId);
+  try {
+    const store = getHeartbeatStore();
+    const results: LiquidationResult[] = [];
+
+    // Nothing was signed for these yet, so they can safely start over
+    for (const job of await store.getLiquidationJobs(['quoting', 'simulated'], source.chainId)) {
+      log.info('Re-queueing interrupted job', { jobId: job.id, state: job.state });
+      await store.updateLiquidationJob(job.id, { state: 'queued', lastError: `Interrupted while ${job.state}` });
+    }
+
+    // These may or may not have been broadcast, the chain decides
+    await reconcileSubmittingJobs(clients, config);
+    results.push(...await settleSubmittedJobs(clients, config));
+    results.push(...await processLiquidationQueue(clients, config));
+
+    log.info('Resumed liquidation jobs', { chainId: source.chainId, processed: results.length });
+    return results;
+  } finally {
+    runningChains.delete(source.chainId);
+  }
 }
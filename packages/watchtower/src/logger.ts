@@ -0,0 +1,92 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one JSON line per entry, with the component, the logger's own fields and
+ * the correlation ids of the request or job it runs under
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Correlation ids (requestId, jobId, bridgeId, ...) for everything logged inside a request or job
+const logContext = new AsyncLocalStorage<LogFields>();
+
+let minLevel: number | null = null;
+
+/**
+ * LOG_LEVEL is read on first use, after dotenv has loaded the environment
+ */
+function getMinLevel(): number {
+  if (minLevel === null) {
+    const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+    minLevel = LEVEL_RANK[level ?? 'info'] ?? LEVEL_RANK.info;
+  }
+  return minLevel;
+}
+
+function serialize(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields): void {
+  if (LEVEL_RANK[level] < getMinLevel()) return;
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg: message,
+    ...logContext.getStore(),
+    ...fields,
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry, serialize);
+  } catch {
+    // Circular fields, keep the message rather than lose the entry
+    line = JSON.stringify({ time: entry.time, level, component, msg: message });
+  }
+
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+}
+
+/**
+ * Logger for one module, e.g. `createLogger('liquidator')`
+ */
+export function createLogger(component: string, fields: LogFields = {}): Logger {
+  return {
+    debug: (message, extra = {}) => write('debug', component, message, { ...fields, ...extra }),
+    info: (message, extra = {}) => write('info', component, message, { ...fields, ...extra }),
+    warn: (message, extra = {}) => write('warn', component, message, { ...fields, ...extra }),
+    error: (message, extra = {}) => write('error', component, message, { ...fields, ...extra }),
+    child: extra => createLogger(component, { ...fields, ...extra }),
+  };
+}
+
+/**
+ * Run `fn` with correlation ids added to every entry logged inside it, including from other modules
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
@@ -0,0 +1,192 @@
+import type { Transport } from 'viem';
+import { getHeartbeatStore } from './database.js';
+
+type Labels = Record<string, string | number>;
+
+/**
+ * A metric family rendered in the Prometheus text exposition format
+ */
+export interface Metric {
+  readonly name: string;
+  render(): string | Promise<string>;
+}
+
+const registry: Metric[] = [];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, String(labels[key])]));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  const escaped = entries.map(([key, value]) =>
+    `${key}="${String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+/**
+ * A value that only goes up, per label set
+ */
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, private readonly help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  render(): string {
+    const lines = [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}\n`);
+    return header(this.name, this.help, 'counter') + lines.join('');
+  }
+}
+
+/**
+ * A value read from the store at scrape time, `collect` resolves every label set with its value
+ */
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => Promise<Array<{ labels: Labels; value: number }>>
+  ) {
+    registry.push(this);
+  }
+
+  async render(): Promise<string> {
+    const lines = (await this.collect()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}\n`);
+    return header(this.name, this.help, 'gauge') + lines.join('');
+  }
+}
+
+/**
+ * Observations counted into cumulative buckets, per label set
+ */
+export class Histogram implements Metric {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly bounds: number[]) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let current = this.values.get(key);
+    if (!current) {
+      current = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, current);
+    }
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) current.buckets[i]++;
+    });
+    current.sum += value;
+    current.count++;
+  }
+
+  /**
+   * Start a timer, calling the returned function records the elapsed seconds
+   */
+  startTimer(): (labels: Labels) => void {
+    const start = performance.now();
+    return labels => this.observe(labels, (performance.now() - start) / 1000);
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${buckets[i]}\n`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}\n`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}\n`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}\n`);
+    }
+    return header(this.name, this.help, 'histogram') + lines.join('');
+  }
+}
+
+export const heartbeatsTotal = new Counter(
+  'watchtower_heartbeats_total',
+  'Heartbeats received, by result and rejection reason'
+);
+
+export const liquidationAttemptsTotal = new Counter(
+  'watchtower_liquidation_attempts_total',
+  'Liquidation attempts started, by source chain and token'
+);
+
+export const liquidationOutcomesTotal = new Counter(
+  'watchtower_liquidation_outcomes_total',
+  'Liquidation attempts finished, by source chain, token and outcome'
+);
+
+export const lifiRequestDuration = new Histogram(
+  'watchtower_lifi_request_duration_seconds',
+  'LI.FI API request latency per HTTP attempt, by status',
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const rpcErrorsTotal = new Counter(
+  'watchtower_rpc_errors_total',
+  'JSON-RPC requests that failed after the transport retries, by chain and method'
+);
+
+export const bridgesByStatus = new Gauge(
+  'watchtower_bridges',
+  'Tracked bridges by status',
+  async () => (await getHeartbeatStore().countBridgesByStatus()).map(({ status, count }) => ({ labels: { status }, value: count }))
+);
+
+export const liquidationJobsByState = new Gauge(
+  'watchtower_liquidation_jobs',
+  'Liquidation jobs by source chain and state',
+  async () => (await getHeartbeatStore().countLiquidationJobs()).map(({ chainId, state, count }) => ({
+    labels: { chain_id: chainId, state },
+    value: count,
+  }))
+);
+
+/**
+ * Count RPC failures of a viem transport in `watchtower_rpc_errors_total`
+ */
+export function withRpcMetrics(transport: Transport, chainId: number): Transport {
+  return (options) => {
+    const instance = transport(options);
+    return {
+      ...instance,
+      request: async (args, requestOptions) => {
+        try {
+          return await instance.request(args, requestOptions);
+        } catch (error) {
+          rpcErrorsTotal.inc({ chain_id: chainId, method: args.method });
+          throw error;
+        }
+      },
+    } as typeof instance;
+  };
+}
+
+/**
+ * Every registered metric in the Prometheus text format
+ */
+export async function renderMetrics(): Promise<string> {
+  const rendered = await Promise.all(registry.map(metric => metric.render()));
+  return rendered.join('');
+}
@@ -0,0 +1,131 @@
+import 'dotenv/config';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { loadSourceDeployments } from './config.js';
+import { DEFAULT_DB_PATH } from './database.js';
+import { getMigrationStatus, LATEST_SCHEMA_VERSION, migrate, rollback, type MigrationStatus } from './migrations.js';
+
+const USAGE = `Usage: npm run migrate -- <command> [--db <path> | --database-url <url>]
+
+Commands:
+  status            List migrations and whether they are applied (default)
+  up [--to <n>]     Apply pending migrations, up to version n
+  down --to <n>     Roll back applied migrations above version n
+
+The database defaults to data/heartbeats.db, or DATABASE_URL when STORAGE_BACKEND=postgres.`;
+
+/**
+ * The migration commands for one backend, SQLite and Postgres keep separate migration lists
+ */
+interface MigrationRunner {
+  latest: number;
+  status(): Promise<MigrationStatus[]>;
+  up(target?: number): Promise<number[]>;
+  down(target: number): Promise<number[]>;
+  close(): Promise<void>;
+}
+
+function openSqliteRunner(dbPath: string): MigrationRunner {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+
+  return {
+    latest: LATEST_SCHEMA_VERSION,
+    status: async () => getMigrationStatus(db),
+    // Rows from before multi-chain support belong to the first source chain, as they do for the server
+    up: async target => migrate(db, target, { legacyChainId: loadSourceDeployments()[0].chainId }),
+    down: async target => rollback(db, target),
+    close: async () => {
+      db.close();
+    },
+  };
+}
+
+async function openPostgresRunner(databaseUrl: string): Promise<MigrationRunner> {
+  const { createPostgresPool, getPostgresMigrationStatus, LATEST_POSTGRES_SCHEMA_VERSION, migratePostgres, rollbackPostgres } =
+    await import('./postgresStore.js');
+  const pool = createPostgresPool(databaseUrl, 1);
+
+  return {
+    latest: LATEST_POSTGRES_SCHEMA_VERSION,
+    status: () => getPostgresMigrationStatus(pool),
+    up: target => migratePostgres(pool, target),
+    down: target => rollbackPostgres(pool, target),
+    close: () => pool.end(),
+  };
+}
+
+async function printStatus(runner: MigrationRunner): Promise<void> {
+  const migrations = await runner.status();
+  const version = Math.max(0, ...migrations.filter(migration => migration.applied).map(migration => migration.version));
+
+  console.log(`Schema version ${version} (latest ${runner.latest})`);
+  for (const migration of migrations) {
+    const applied = migration.appliedAt ? `applied ${new Date(migration.appliedAt).toISOString()}` : 'pending';
+    const reversible = migration.reversible ? '' : ' (irreversible)';
+    console.log(`  ${String(migration.version).padStart(4)}  ${migration.name.padEnd(32)} ${applied}${reversible}`);
+  }
+}
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid version "${value}"`);
+  }
+  return version;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      db: { type: 'string' },
+      'database-url': { type: 'string' },
+      to: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  });
+
+  const command = positionals[0] ?? 'status';
+  if (values.help || !['status', 'up', 'down'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const databaseUrl = values['database-url'] ?? (process.env.STORAGE_BACKEND === 'postgres' ? process.env.DATABASE_URL : undefined);
+  if (process.env.STORAGE_BACKEND === 'postgres' && !values.db && !databaseUrl) {
+    throw new Error('DATABASE_URL is required when STORAGE_BACKEND=postgres');
+  }
+
+  const runner = databaseUrl && !values.db
+    ? await openPostgresRunner(databaseUrl)
+    : openSqliteRunner(values.db ?? DEFAULT_DB_PATH);
+
+  try {
+    const target = parseVersion(values.to);
+
+    if (command === 'up') {
+      const applied = await runner.up(target);
+      console.log(applied.length > 0 ? `Applied ${applied.join(', ')}` : 'Nothing to apply');
+    } else if (command === 'down') {
+      if (target === undefined) {
+        throw new Error('down needs --to <version>');
+      }
+      const rolledBack = await runner.down(target);
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.join(', ')}` : 'Nothing to roll back');
+    }
+
+    await printStatus(runner);
+  } finally {
+    await runner.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
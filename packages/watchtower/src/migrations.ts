@@ -0,0 +1,505 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * One schema change. `up` and `down` run inside a transaction together with the
+ * `schema_version` bookkeeping, so a failed migration leaves nothing behind.
+ * Migrations without `down` can't be rolled back.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database, context: MigrationContext): void;
+  down?(db: Database.Database): void;
+}
+
+/**
+ * What migrations need to know about the deployment
+ */
+export interface MigrationContext {
+  // Chain the rows written before the store was keyed by chain belong to, the first configured source chain
+  legacyChainId?: number;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: number | null;
+  reversible: boolean;
+}
+
+function tableExists(db: Database.Database, table: string): boolean {
+  const row = db.prepare(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?
+  `).get(table);
+  return row !== undefined;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some(c => c.name === column);
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Bring databases written before multi-chain support up to the (chain_id, user) layout.
+ * Existing rows are assigned `legacyChainId`, the chain the single-chain release watched.
+ */
+function upgradeToChainKeys(db: Database.Database, { legacyChainId }: MigrationContext): void {
+  const legacyTables = ['heartbeats', 'liquidation_jobs', 'settlements']
+    .filter(table => tableExists(db, table) && !hasColumn(db, table, 'chain_id'));
+  if (legacyTables.length > 0 && legacyChainId === undefined) {
+    throw new Error(`${legacyTables.join(', ')} predate multi-chain support, the source chain their rows belong to is needed to upgrade them`);
+  }
+
+  if (legacyTables.includes('heartbeats')) {
+    // The primary key changes, so the table has to be rebuilt
+    db.exec(`
+      ALTER TABLE heartbeats RENAME TO heartbeats_legacy;
+      DROP INDEX IF EXISTS idx_heartbeats_last_seen;
+      CREATE TABLE heartbeats (
+        chain_id INTEGER NOT NULL,
+        user_address TEXT NOT NULL,
+        last_seen INTEGER NOT NULL,
+        signature TEXT NOT NULL,
+        inactivity_period INTEGER NOT NULL DEFAULT 604800,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (chain_id, user_address)
+      );
+      INSERT INTO heartbeats (chain_id, user_address, last_seen, signature, inactivity_period, created_at, updated_at)
+        SELECT ${legacyChainId}, user_address, last_seen, signature, inactivity_period, created_at, updated_at
+        FROM heartbeats_legacy;
+      DROP TABLE heartbeats_legacy;
+    `);
+  }
+
+  for (const table of legacyTables.filter(table => table !== 'heartbeats')) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN chain_id INTEGER NOT NULL DEFAULT ${legacyChainId}`);
+  }
+
+  // Nonces only matter for a few minutes, dropping them is cheaper than rebuilding the key
+  if (tableExists(db, 'heartbeat_nonces') && !hasColumn(db, 'heartbeat_nonces', 'chain_id')) {
+    db.exec(`DROP TABLE heartbeat_nonces`);
+  }
+}
+
+/**
+ * The schema as it stood before migrations were versioned. Every statement is idempotent, so it
+ * also adopts databases created by earlier releases, whatever columns they already had.
+ */
+function baseline(db: Database.Database, context: MigrationContext): void {
+  upgradeToChainKeys(db, context);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS heartbeats (
+      chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      last_seen INTEGER NOT NULL,
+      signature TEXT NOT NULL,
+      inactivity_period INTEGER NOT NULL DEFAULT 604800,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (chain_id, user_address)
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_heartbeats_last_seen 
+    ON heartbeats(last_seen)
+  `);
+
+  addColumnIfMissing(db, 'heartbeats', 'onchain_last_seen', 'INTEGER');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS liquidation_jobs (
+      id TEXT PRIMARY KEY,
+      chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      token_address TEXT NOT NULL,
+      token_symbol TEXT NOT NULL,
+      state TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      tx_hash TEXT,
+      quote_id TEXT,
+      quote_to_amount TEXT,
+      quote_to_amount_min TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  addColumnIfMissing(db, 'liquidation_jobs', 'quote_id', 'TEXT');
+  addColumnIfMissing(db, 'liquidation_jobs', 'quote_to_amount', 'TEXT');
+  addColumnIfMissing(db, 'liquidation_jobs', 'quote_to_amount_min', 'TEXT');
+  addColumnIfMissing(db, 'liquidation_jobs', 'tx_details', 'TEXT');
+  addColumnIfMissing(db, 'liquidation_jobs', 'route_provider', 'TEXT');
+  addColumnIfMissing(db, 'liquidation_jobs', 'failure_kind', 'TEXT');
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_liquidation_jobs_state
+    ON liquidation_jobs(state)
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_liquidation_jobs_user
+    ON liquidation_jobs(chain_id, user_address, token_address)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS heartbeat_nonces (
+      chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      signed_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (chain_id, user_address, nonce)
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_heartbeat_nonces_signed_at
+    ON heartbeat_nonces(signed_at)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS settlements (
+      id TEXT PRIMARY KEY,
+      chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      status TEXT NOT NULL,
+      offchain_last_seen INTEGER NOT NULL,
+      error TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_settlements_user
+    ON settlements(chain_id, user_address, created_at)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pending_bridges (
+      id TEXT PRIMARY KEY,
+      job_id TEXT,
+      source_chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      beneficiary TEXT NOT NULL,
+      token_address TEXT NOT NULL,
+      token_symbol TEXT NOT NULL,
+      amount TEXT NOT NULL,
+      quote_id TEXT,
+      expected_amount TEXT,
+      min_amount TEXT,
+      source_tx_hash TEXT NOT NULL,
+      status TEXT NOT NULL,
+      destination_tx_hash TEXT,
+      received_amount TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      confirmed_at INTEGER,
+      UNIQUE (source_chain_id, source_tx_hash)
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_pending_bridges_status
+    ON pending_bridges(status, beneficiary)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id TEXT PRIMARY KEY,
+      actor TEXT NOT NULL,
+      role TEXT,
+      auth_method TEXT,
+      action TEXT NOT NULL,
+      details TEXT,
+      ip TEXT,
+      outcome TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_audit_log_created_at
+    ON audit_log(created_at)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rate_limits (
+      key TEXT PRIMARY KEY,
+      window_start INTEGER NOT NULL,
+      count INTEGER NOT NULL
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS checkpoints (
+      name TEXT PRIMARY KEY,
+      block_number INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chain_events (
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      user_address TEXT,
+      args TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (chain_id, tx_hash, log_index)
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_chain_events_block
+    ON chain_events(chain_id, block_number)
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_chain_events_user
+    ON chain_events(chain_id, user_address, block_number)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS guardians (
+      chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      guardian_address TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (chain_id, user_address, guardian_address)
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pending_liquidations (
+      id TEXT PRIMARY KEY,
+      chain_id INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      started_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      cancel_reason TEXT,
+      cancelled_by TEXT,
+      resolved_at INTEGER,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_pending_liquidations_user
+    ON pending_liquidations(chain_id, user_address, started_at)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS notification_channels (
+      id TEXT PRIMARY KEY,
+      chain_id INTEGER NOT NULL,
+      address TEXT NOT NULL,
+      channel_type TEXT NOT NULL,
+      target TEXT NOT NULL,
+      secret TEXT,
+      created_at INTEGER NOT NULL,
+      UNIQUE (chain_id, address, channel_type, target)
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS notification_deliveries (
+      id TEXT PRIMARY KEY,
+      channel_id TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      address TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      dedupe_key TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      delivered_at INTEGER,
+      UNIQUE (channel_id, dedupe_key)
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+    ON notification_deliveries(status, next_attempt_at)
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS indexed_blocks (
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      PRIMARY KEY (chain_id, block_number)
+    )
+  `);
+}
+
+/**
+ * Every migration, in order. Append new ones, never edit or reorder applied ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: baseline,
+  },
+  {
+    version: 2,
+    name: 'settlements_status_index',
+    up: db => {
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_settlements_status
+        ON settlements(chain_id, status)
+      `);
+    },
+    down: db => {
+      db.exec(`DROP INDEX IF EXISTS idx_settlements_status`);
+    },
+  },
+  {
+    version: 3,
+    name: 'leases',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS leases (
+          name TEXT PRIMARY KEY,
+          holder TEXT NOT NULL,
+          acquired_at INTEGER NOT NULL,
+          renewed_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        )
+      `);
+    },
+    down: db => {
+      db.exec(`DROP TABLE IF EXISTS leases`);
+    },
+  },
+  {
+    version: 4,
+    name: 'settlement_transactions',
+    up: db => {
+      // Every broadcast of a pingFor, as liquidation_jobs.tx_details keeps for liquidations
+      addColumnIfMissing(db, 'settlements', 'tx_details', 'TEXT');
+    },
+    down: db => {
+      db.exec(`ALTER TABLE settlements DROP COLUMN tx_details`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+function appliedVersions(db: Database.Database): Map<number, number> {
+  ensureVersionTable(db);
+  const rows = db.prepare(`SELECT version, applied_at FROM schema_version`).all() as Array<{ version: number; applied_at: number }>;
+  return new Map(rows.map(row => [row.version, row.applied_at]));
+}
+
+/**
+ * Highest applied migration, 0 for a database that has never been migrated
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return Math.max(0, ...appliedVersions(db).keys());
+}
+
+/**
+ * Every known migration and whether it has been applied
+ */
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  const applied = appliedVersions(db);
+  return MIGRATIONS.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied: applied.has(migration.version),
+    appliedAt: applied.get(migration.version) ?? null,
+    reversible: migration.down !== undefined,
+  }));
+}
+
+/**
+ * Throw if the database was migrated by a newer release than this one
+ */
+export function assertKnownSchema(db: Database.Database): void {
+  const version = getSchemaVersion(db);
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${version} is newer than this watchtower supports (${LATEST_SCHEMA_VERSION}), refusing to start`
+    );
+  }
+}
+
+/**
+ * Apply pending migrations up to `target`, each in its own transaction. Returns the versions applied.
+ */
+export function migrate(db: Database.Database, target = LATEST_SCHEMA_VERSION, context: MigrationContext = {}): number[] {
+  assertKnownSchema(db);
+  const applied = appliedVersions(db);
+  const done: number[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version > target || applied.has(migration.version)) continue;
+
+    db.transaction(() => {
+      migration.up(db, context);
+      db.prepare(`INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)`)
+        .run(migration.version, migration.name, Date.now());
+    })();
+    done.push(migration.version);
+  }
+
+  return done;
+}
+
+/**
+ * Roll back applied migrations above `target`, newest first. Returns the versions rolled back.
+ * Stops before touching anything if one of them has no `down`.
+ */
+export function rollback(db: Database.Database, target: number): number[] {
+  assertKnownSchema(db);
+  const applied = appliedVersions(db);
+  const toUndo = MIGRATIONS.filter(migration => migration.version > target && applied.has(migration.version)).reverse();
+
+  const irreversible = toUndo.find(migration => !migration.down);
+  if (irreversible) {
+    throw new Error(`Migration ${irreversible.version} (${irreversible.name}) can't be rolled back`);
+  }
+
+  for (const migration of toUndo) {
+    db.transaction(() => {
+      migration.down!(db);
+      db.prepare(`DELETE FROM schema_version WHERE version = ?`).run(migration.version);
+    })();
+  }
+
+  return toUndo.map(migration => migration.version);
+}
@@ -0,0 +1,351 @@
+import { randomBytes } from 'crypto';
+import { formatUnits, verifyTypedData, type Address } from 'viem';
+import {
+  getHeartbeatStore,
+  latestLiveness,
+  type NotificationChannelType,
+  type PendingBridge,
+} from './database.js';
+import type { Config, WarningThreshold } from './config.js';
+import { createNotifiers, type Notification, type Notifier } from './notifier.js';
+import { getHeartbeatDomain, verifySignedRequest, type VerificationResult } from './yellowSignature.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('notifications');
+
+/**
+ * EIP-712 Types for subscribing to or unsubscribing from notifications.
+ * Signed with the key of the address being notified, for the source chain it is registered on.
+ */
+export const NOTIFICATION_SUBSCRIPTION_TYPES = {
+  NotificationSubscription: [
+    { name: 'action', type: 'string' },
+    { name: 'channelType', type: 'string' },
+    { name: 'target', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+export type SubscriptionAction = 'subscribe' | 'unsubscribe';
+
+export interface SubscriptionRequest {
+  action: SubscriptionAction;
+  channelType: NotificationChannelType;
+  target: string;
+  timestamp: bigint;
+  nonce: bigint;
+}
+
+export interface DeliveryRunResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// LazarusVault holds USDC
+const USDC_DECIMALS = 6;
+
+let notifiers: Map<NotificationChannelType, Notifier> | null = null;
+let deliveryRunning = false;
+
+function getNotifiers(config: Config): Map<NotificationChannelType, Notifier> {
+  if (!notifiers) {
+    notifiers = createNotifiers(config);
+  }
+  return notifiers;
+}
+
+/**
+ * Check a channel target before subscribing it, returns an error message or null
+ */
+export function validateChannelTarget(config: Config, channelType: string, target: string): string | null {
+  if (channelType === 'webhook') {
+    let url: URL;
+    try {
+      url = new URL(target);
+    } catch {
+      return 'Webhook target must be a valid URL';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return 'Webhook target must be an http(s) URL';
+    }
+    return null;
+  }
+
+  if (channelType === 'email') {
+    if (!config.smtp) return 'Email notifications are not enabled on this watchtower';
+    if (!EMAIL_PATTERN.test(target)) return 'Email target must be an email address';
+    return null;
+  }
+
+  return 'channelType must be webhook or email';
+}
+
+/**
+ * Verify a signed (un)subscription request
+ */
+export async function verifySubscription(
+  request: SubscriptionRequest,
+  signature: `0x${string}`,
+  expectedSigner: Address,
+  chainId: number
+): Promise<VerificationResult> {
+  return verifySignedRequest('Subscription', request.timestamp, request.nonce, expectedSigner, chainId, () =>
+    verifyTypedData({
+      address: expectedSigner,
+      domain: getHeartbeatDomain(chainId),
+      types: NOTIFICATION_SUBSCRIPTION_TYPES,
+      primaryType: 'NotificationSubscription',
+      message: request,
+      signature,
+    })
+  );
+}
+
+/**
+ * Secret for signing webhook payloads, returned once to the subscriber
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Queue a notification on every channel the address is subscribed with.
+ * A dedupe key already queued for a channel is skipped, so callers can retry freely.
+ * Returns how many deliveries were queued.
+ */
+export async function notifyAddress(chainId: number, address: string, dedupeKey: string, notification: Notification): Promise<number> {
+  const store = getHeartbeatStore();
+  const payload = JSON.stringify(notification);
+  let queued = 0;
+
+  for (const channel of await store.getNotificationChannels(chainId, address)) {
+    if (await store.enqueueNotification(channel, notification.kind, dedupeKey, payload)) {
+      queued++;
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Send every notification that is due.
+ * Failed sends are retried with exponential backoff until NOTIFICATION_MAX_ATTEMPTS is reached.
+ */
+export async function processNotificationDeliveries(config: Config): Promise<DeliveryRunResult> {
+  const result: DeliveryRunResult = { delivered: 0, retrying: 0, failed: 0 };
+
+  if (deliveryRunning) return result;
+
+  deliveryRunning = true;
+  try {
+    const store = getHeartbeatStore();
+    const available = getNotifiers(config);
+
+    for (const delivery of await store.getDueNotifications(Date.now())) {
+      const channel = await store.getNotificationChannel(delivery.channelId);
+      const notifier = channel ? available.get(channel.channelType) : undefined;
+
+      if (!channel || !notifier) {
+        await store.markNotificationFailed(delivery.id, channel ? `No ${channel.channelType} notifier configured` : 'Channel removed', null);
+        result.failed++;
+        continue;
+      }
+
+      try {
+        await notifier.send(channel, JSON.parse(delivery.payload) as Notification, delivery.id);
+        await store.markNotificationDelivered(delivery.id);
+        result.delivered++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const attempts = delivery.attempts + 1;
+
+        if (attempts >= config.notificationMaxAttempts) {
+          await store.markNotificationFailed(delivery.id, message, null);
+          log.error('Giving up on notification', {
+            deliveryId: delivery.id,
+            kind: delivery.kind,
+            channelType: channel.channelType,
+            address: delivery.address,
+            error: message,
+          });
+          result.failed++;
+        } else {
+          const delayMs = config.notificationRetryBaseSeconds * 1000 * 2 ** (attempts - 1);
+          await store.markNotificationFailed(delivery.id, message, Date.now() + delayMs);
+          result.retrying++;
+        }
+      }
+    }
+
+    if (result.delivered > 0 || result.failed > 0) {
+      log.info('Processed notifications', { ...result });
+    }
+
+    return result;
+  } finally {
+    deliveryRunning = false;
+  }
+}
+
+function thresholdMs(threshold: WarningThreshold, periodMs: number): number {
+  return 'percent' in threshold ? (periodMs * threshold.percent) / 100 : threshold.seconds * 1000;
+}
+
+export function formatDuration(ms: number): string {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours >= 48) return `${Math.floor(hours / 24)} days`;
+  if (hours >= 1) return `${Math.floor(hours)} hours`;
+  return `${Math.max(1, Math.floor(ms / 60000))} minutes`;
+}
+
+/**
+ * Queue pre-expiry warnings for users on a source chain.
+ * Each user gets the tightest threshold they have crossed, once per deadline, so a
+ * heartbeat that moves the deadline starts a fresh round of warnings.
+ * Thresholds as long as the whole period are skipped, they would fire right after every heartbeat.
+ */
+export async function runWarningCheck(chainId: number, config: Config): Promise<number> {
+  const store = getHeartbeatStore();
+  const now = Date.now();
+  let queued = 0;
+
+  for (const record of await store.getAllUsers(chainId)) {
+    const { lastSeen } = latestLiveness(record);
+    const periodMs = record.inactivityPeriod * 1000;
+    const deadline = lastSeen + periodMs;
+    const remaining = deadline - now;
+    if (remaining <= 0) continue;
+
+    const crossed = config.warningThresholds
+      .map(threshold => ({ threshold, ms: thresholdMs(threshold, periodMs) }))
+      .filter(({ ms }) => ms < periodMs && remaining <= ms)
+      .sort((a, b) => a.ms - b.ms);
+    if (crossed.length === 0) continue;
+
+    const { threshold } = crossed[0];
+    const timeLeft = formatDuration(remaining);
+    queued += await notifyAddress(chainId, record.userAddress, `warning:${threshold.label}:${deadline}`, {
+      kind: 'expiry-warning',
+      chainId,
+      address: record.userAddress,
+      subject: `Lazarus: your protection expires in ${timeLeft}`,
+      text: [
+        `Your Lazarus dead man's switch for ${record.userAddress} on chain ${chainId} expires in about ${timeLeft}`,
+        `(${new Date(deadline).toISOString()}).`,
+        '',
+        'Send a heartbeat before then, or your deposited funds will be liquidated and bridged to your beneficiary.',
+      ].join('\n'),
+      data: {
+        threshold: threshold.label,
+        lastSeen,
+        deadline,
+        timeRemainingMs: remaining,
+        inactivityPeriod: record.inactivityPeriod,
+      },
+    });
+  }
+
+  if (queued > 0) {
+    log.info('Queued expiry warnings', { chainId, queued });
+  }
+
+  return queued;
+}
+
+/**
+ * Link a beneficiary can follow to claim from LazarusVault
+ */
+export function buildClaimLink(config: Config, beneficiary: string): string {
+  const url = new URL(config.claimUrl);
+  url.searchParams.set('beneficiary', beneficiary.toLowerCase());
+  url.searchParams.set('chainId', config.destinationChainId.toString());
+  return url.toString();
+}
+
+/**
+ * Tell the beneficiary a liquidation went through and funds are being bridged to the vault
+ */
+export function notifyLiquidation(
+  config: Config,
+  liquidation: {
+    chainId: number;
+    userAddress: string;
+    beneficiary: string;
+    tokenAddress: string;
+    tokenSymbol: string;
+    amount: string;
+    expectedAmount: string | null;
+    txHash: string;
+  }
+): Promise<number> {
+  const claimLink = buildClaimLink(config, liquidation.beneficiary);
+  const expected = liquidation.expectedAmount !== null
+    ? `about ${formatUnits(BigInt(liquidation.expectedAmount), USDC_DECIMALS)} USDC`
+    : 'USDC';
+
+  return notifyAddress(liquidation.chainId, liquidation.beneficiary, `liquidated:${liquidation.txHash}`, {
+    kind: 'beneficiary-liquidated',
+    chainId: liquidation.chainId,
+    address: liquidation.beneficiary.toLowerCase(),
+    subject: `Lazarus: ${liquidation.tokenSymbol} from ${liquidation.userAddress} is on its way to you`,
+    text: [
+      `${liquidation.userAddress} named you as their beneficiary and missed their Lazarus deadline on chain ${liquidation.chainId}.`,
+      `Their ${liquidation.tokenSymbol} (${liquidation.amount} base units) was liquidated in ${liquidation.txHash}`,
+      `and is being bridged to LazarusVault on chain ${config.destinationChainId} as ${expected}.`,
+      '',
+      `You will get another message when it arrives. Claim it here: ${claimLink}`,
+    ].join('\n'),
+    data: {
+      userAddress: liquidation.userAddress.toLowerCase(),
+      beneficiary: liquidation.beneficiary.toLowerCase(),
+      tokenAddress: liquidation.tokenAddress,
+      tokenSymbol: liquidation.tokenSymbol,
+      amount: liquidation.amount,
+      expectedAmount: liquidation.expectedAmount,
+      sourceTxHash: liquidation.txHash,
+      destinationChainId: config.destinationChainId,
+      vaultAddress: config.lazarusVaultAddress,
+      claimLink,
+    },
+  });
+}
+
+/**
+ * Tell the beneficiary their bridged funds have landed in the vault and can be claimed
+ */
+export function notifyBridgeArrival(config: Config, bridge: PendingBridge): Promise<number> {
+  const claimLink = buildClaimLink(config, bridge.beneficiary);
+  const received = bridge.receivedAmount !== null
+    ? `${formatUnits(BigInt(bridge.receivedAmount), USDC_DECIMALS)} USDC`
+    : 'Your USDC';
+
+  return notifyAddress(bridge.sourceChainId, bridge.beneficiary, `arrived:${bridge.id}`, {
+    kind: 'beneficiary-arrived',
+    chainId: bridge.sourceChainId,
+    address: bridge.beneficiary,
+    subject: `Lazarus: ${received} is ready to claim`,
+    text: [
+      `${received} from ${bridge.userAddress} arrived in LazarusVault on chain ${config.destinationChainId}`,
+      `(deposit ${bridge.destinationTxHash}, liquidation ${bridge.sourceTxHash} on chain ${bridge.sourceChainId}).`,
+      '',
+      `Claim it here: ${claimLink}`,
+    ].join('\n'),
+    data: {
+      bridgeId: bridge.id,
+      userAddress: bridge.userAddress,
+      beneficiary: bridge.beneficiary,
+      tokenSymbol: bridge.tokenSymbol,
+      amount: bridge.amount,
+      receivedAmount: bridge.receivedAmount,
+      sourceTxHash: bridge.sourceTxHash,
+      destinationTxHash: bridge.destinationTxHash,
+      destinationChainId: config.destinationChainId,
+      vaultAddress: config.lazarusVaultAddress,
+      claimLink,
+    },
+  });
+}
@@ -0,0 +1,101 @@
+import { createHmac } from 'crypto';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { Config, SmtpConfig } from './config.js';
+import type { NotificationChannel, NotificationChannelType } from './database.js';
+
+/**
+ * A message for one address. Webhooks receive all of it as JSON, emails get `subject` and `text`.
+ */
+export interface Notification {
+  kind: string;
+  chainId: number;
+  address: string;
+  subject: string;
+  text: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Delivers notifications over one channel type.
+ * `send` throws when delivery failed, the caller decides whether to retry.
+ */
+export interface Notifier {
+  readonly channelType: NotificationChannelType;
+  send(channel: NotificationChannel, notification: Notification, deliveryId: string): Promise<void>;
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, sent as `X-Lazarus-Signature: sha256=<hex>`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POSTs notifications as JSON, signed with the channel's secret
+ */
+export class WebhookNotifier implements Notifier {
+  readonly channelType = 'webhook' as const;
+
+  constructor(private readonly timeoutMs: number) {}
+
+  async send(channel: NotificationChannel, notification: Notification, deliveryId: string): Promise<void> {
+    const body = JSON.stringify({ id: deliveryId, ...notification });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const response = await fetch(channel.target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Lazarus-Delivery': deliveryId,
+        'X-Lazarus-Timestamp': timestamp,
+        'X-Lazarus-Signature': `sha256=${signWebhookPayload(channel.secret ?? '', timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Sends notifications as plain text email over SMTP
+ */
+export class EmailNotifier implements Notifier {
+  readonly channelType = 'email' as const;
+  private transporter: Transporter;
+
+  constructor(private readonly smtp: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+    });
+  }
+
+  async send(channel: NotificationChannel, notification: Notification): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.smtp.from,
+      to: channel.target,
+      subject: notification.subject,
+      text: notification.text,
+    });
+  }
+}
+
+/**
+ * Build the notifiers available with this configuration.
+ * Email is only available when SMTP is configured.
+ */
+export function createNotifiers(config: Config): Map<NotificationChannelType, Notifier> {
+  const notifiers = new Map<NotificationChannelType, Notifier>();
+  notifiers.set('webhook', new WebhookNotifier(config.webhookTimeoutMs));
+  if (config.smtp) {
+    notifiers.set('email', new EmailNotifier(config.smtp));
+  }
+  return notifiers;
+}
@@ -0,0 +1,1265 @@
+import pg from 'pg';
+import { randomUUID } from 'crypto';
+import {
+  ACTIVE_JOB_STATES,
+  assertValidDump,
+  DUMP_TABLES,
+  PENDING_HEARTBEAT_SIGNATURE,
+  toAuditEntry,
+  toChainEvent,
+  toGuardian,
+  toHeartbeatRecord,
+  toLease,
+  toLiquidationJob,
+  toNotificationChannel,
+  toNotificationDelivery,
+  toPendingBridge,
+  toPendingLiquidation,
+  toSettlement,
+  type AuditEntry,
+  type AuditRow,
+  type BridgeStatus,
+  type CancelReason,
+  type ChainEvent,
+  type ChainEventRow,
+  type DeliveryStatus,
+  type Guardian,
+  type GuardianRow,
+  type HeartbeatRecord,
+  type HeartbeatRow,
+  type HeartbeatStore,
+  type HeartbeatStoreOptions,
+  type Lease,
+  type LeaseRow,
+  type LiquidationJob,
+  type LiquidationJobRow,
+  type LiquidationJobState,
+  type LiquidationJobUpdate,
+  type NewChainEvent,
+  type NewPendingBridge,
+  type NotificationChannel,
+  type NotificationChannelRow,
+  type NotificationChannelType,
+  type NotificationDelivery,
+  type NotificationDeliveryRow,
+  type PendingBridge,
+  type StoreDump,
+  type PendingBridgeRow,
+  type PendingLiquidation,
+  type PendingLiquidationRow,
+  type PendingLiquidationStatus,
+  type SettlementRecord,
+  type SettlementRow,
+  type SettlementStatus,
+  type SubmittedTransaction,
+} from './database.js';
+import { createLogger } from './logger.js';
+import type { MigrationStatus } from './migrations.js';
+
+const log = createLogger('database');
+
+/**
+ * A Postgres schema change, as SQL. Versions follow MIGRATIONS in migrations.ts,
+ * so a given schema version means the same tables on both backends.
+ */
+interface PostgresMigration {
+  version: number;
+  name: string;
+  up: string;
+  down?: string;
+}
+
+// Timestamps are ms, so they and chain ids and block numbers are BIGINT
+const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: `
+      CREATE TABLE heartbeats (
+        chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        last_seen BIGINT NOT NULL,
+        onchain_last_seen BIGINT,
+        signature TEXT NOT NULL,
+        inactivity_period INTEGER NOT NULL DEFAULT 604800,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL,
+        PRIMARY KEY (chain_id, user_address)
+      );
+      CREATE INDEX idx_heartbeats_last_seen ON heartbeats(last_seen);
+
+      CREATE TABLE liquidation_jobs (
+        id TEXT PRIMARY KEY,
+        chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        state TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        failure_kind TEXT,
+        tx_hash TEXT,
+        tx_details TEXT,
+        route_provider TEXT,
+        quote_id TEXT,
+        quote_to_amount TEXT,
+        quote_to_amount_min TEXT,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_liquidation_jobs_state ON liquidation_jobs(state);
+      CREATE INDEX idx_liquidation_jobs_user ON liquidation_jobs(chain_id, user_address, token_address);
+
+      CREATE TABLE heartbeat_nonces (
+        chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        nonce TEXT NOT NULL,
+        signed_at BIGINT NOT NULL,
+        created_at BIGINT NOT NULL,
+        PRIMARY KEY (chain_id, user_address, nonce)
+      );
+      CREATE INDEX idx_heartbeat_nonces_signed_at ON heartbeat_nonces(signed_at);
+
+      CREATE TABLE settlements (
+        id TEXT PRIMARY KEY,
+        chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        status TEXT NOT NULL,
+        offchain_last_seen BIGINT NOT NULL,
+        error TEXT,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_settlements_user ON settlements(chain_id, user_address, created_at);
+
+      CREATE TABLE pending_bridges (
+        id TEXT PRIMARY KEY,
+        job_id TEXT,
+        source_chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        beneficiary TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        quote_id TEXT,
+        expected_amount TEXT,
+        min_amount TEXT,
+        source_tx_hash TEXT NOT NULL,
+        status TEXT NOT NULL,
+        destination_tx_hash TEXT,
+        received_amount TEXT,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL,
+        confirmed_at BIGINT,
+        UNIQUE (source_chain_id, source_tx_hash)
+      );
+      CREATE INDEX idx_pending_bridges_status ON pending_bridges(status, beneficiary);
+
+      CREATE TABLE audit_log (
+        id TEXT PRIMARY KEY,
+        actor TEXT NOT NULL,
+        role TEXT,
+        auth_method TEXT,
+        action TEXT NOT NULL,
+        details TEXT,
+        ip TEXT,
+        outcome TEXT NOT NULL,
+        created_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+
+      CREATE TABLE rate_limits (
+        key TEXT PRIMARY KEY,
+        window_start BIGINT NOT NULL,
+        count INTEGER NOT NULL
+      );
+
+      CREATE TABLE checkpoints (
+        name TEXT PRIMARY KEY,
+        block_number BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL
+      );
+
+      CREATE TABLE chain_events (
+        chain_id BIGINT NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        event_name TEXT NOT NULL,
+        user_address TEXT,
+        args TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        PRIMARY KEY (chain_id, tx_hash, log_index)
+      );
+      CREATE INDEX idx_chain_events_block ON chain_events(chain_id, block_number);
+      CREATE INDEX idx_chain_events_user ON chain_events(chain_id, user_address, block_number);
+
+      CREATE TABLE guardians (
+        chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        guardian_address TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        PRIMARY KEY (chain_id, user_address, guardian_address)
+      );
+
+      CREATE TABLE pending_liquidations (
+        id TEXT PRIMARY KEY,
+        chain_id BIGINT NOT NULL,
+        user_address TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        started_at BIGINT NOT NULL,
+        expires_at BIGINT NOT NULL,
+        cancel_reason TEXT,
+        cancelled_by TEXT,
+        resolved_at BIGINT,
+        updated_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_pending_liquidations_user ON pending_liquidations(chain_id, user_address, started_at);
+
+      CREATE TABLE notification_channels (
+        id TEXT PRIMARY KEY,
+        chain_id BIGINT NOT NULL,
+        address TEXT NOT NULL,
+        channel_type TEXT NOT NULL,
+        target TEXT NOT NULL,
+        secret TEXT,
+        created_at BIGINT NOT NULL,
+        UNIQUE (chain_id, address, channel_type, target)
+      );
+
+      CREATE TABLE notification_deliveries (
+        id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        chain_id BIGINT NOT NULL,
+        address TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        dedupe_key TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at BIGINT NOT NULL,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL,
+        delivered_at BIGINT,
+        UNIQUE (channel_id, dedupe_key)
+      );
+      CREATE INDEX idx_notification_deliveries_due ON notification_deliveries(status, next_attempt_at);
+
+      CREATE TABLE indexed_blocks (
+        chain_id BIGINT NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        PRIMARY KEY (chain_id, block_number)
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'settlements_status_index',
+    up: `CREATE INDEX IF NOT EXISTS idx_settlements_status ON settlements(chain_id, status)`,
+    down: `DROP INDEX IF EXISTS idx_settlements_status`,
+  },
+  {
+    version: 3,
+    name: 'leases',
+    up: `
+      CREATE TABLE IF NOT EXISTS leases (
+        name TEXT PRIMARY KEY,
+        holder TEXT NOT NULL,
+        acquired_at BIGINT NOT NULL,
+        renewed_at BIGINT NOT NULL,
+        expires_at BIGINT NOT NULL
+      )
+    `,
+    down: `DROP TABLE IF EXISTS leases`,
+  },
+  {
+    version: 4,
+    name: 'settlement_transactions',
+    up: `ALTER TABLE settlements ADD COLUMN tx_details TEXT`,
+    down: `ALTER TABLE settlements DROP COLUMN tx_details`,
+  },
+];
+
+export const LATEST_POSTGRES_SCHEMA_VERSION = POSTGRES_MIGRATIONS[POSTGRES_MIGRATIONS.length - 1].version;
+
+// pg_advisory_lock key held while migrating, so replicas starting together don't race
+const MIGRATION_LOCK_KEY = 0x4c415a41;
+
+// BIGINT columns come back as strings by default, every value stored here fits in a number
+const types = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') =>
+    oid === pg.types.builtins.INT8 ? Number : pg.types.getTypeParser(oid, format)) as typeof pg.types.getTypeParser,
+};
+
+/**
+ * Connection pool for a Postgres store
+ */
+export function createPostgresPool(databaseUrl: string, poolSize = 10): pg.Pool {
+  const pool = new pg.Pool({ connectionString: databaseUrl, max: poolSize, types });
+  // An idle connection dropped by the server must not take the process down, the pool reconnects
+  pool.on('error', error => log.error('Postgres connection error', { error }));
+  return pool;
+}
+
+async function withMigrationLock<T>(pool: pg.Pool, fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at BIGINT NOT NULL
+        )
+      `);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function appliedVersions(client: pg.PoolClient): Promise<Map<number, number>> {
+  const { rows } = await client.query(`SELECT version, applied_at FROM schema_version`);
+  return new Map((rows as Array<{ version: number; applied_at: number }>).map(row => [row.version, row.applied_at]));
+}
+
+function assertKnownVersion(applied: Map<number, number>): number {
+  const version = Math.max(0, ...applied.keys());
+  if (version > LATEST_POSTGRES_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${version} is newer than this watchtower supports (${LATEST_POSTGRES_SCHEMA_VERSION}), refusing to start`
+    );
+  }
+  return version;
+}
+
+/**
+ * Every known Postgres migration and whether it has been applied
+ */
+export async function getPostgresMigrationStatus(pool: pg.Pool): Promise<MigrationStatus[]> {
+  return withMigrationLock(pool, async client => {
+    const applied = await appliedVersions(client);
+    return POSTGRES_MIGRATIONS.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version) ?? null,
+      reversible: migration.down !== undefined,
+    }));
+  });
+}
+
+/**
+ * Apply pending Postgres migrations up to `target`, each in its own transaction. Returns the versions applied.
+ */
+export async function migratePostgres(pool: pg.Pool, target = LATEST_POSTGRES_SCHEMA_VERSION): Promise<number[]> {
+  return withMigrationLock(pool, async client => {
+    const applied = await appliedVersions(client);
+    assertKnownVersion(applied);
+    const done: number[] = [];
+
+    for (const migration of POSTGRES_MIGRATIONS) {
+      if (migration.version > target || applied.has(migration.version)) continue;
+
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.up);
+        await client.query(
+          `INSERT INTO schema_version (version, name, applied_at) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, Date.now()]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      done.push(migration.version);
+    }
+
+    return done;
+  });
+}
+
+/**
+ * Roll back applied Postgres migrations above `target`, newest first. Returns the versions rolled back.
+ */
+export async function rollbackPostgres(pool: pg.Pool, target: number): Promise<number[]> {
+  return withMigrationLock(pool, async client => {
+    const applied = await appliedVersions(client);
+    assertKnownVersion(applied);
+    const toUndo = POSTGRES_MIGRATIONS.filter(migration => migration.version > target && applied.has(migration.version)).reverse();
+
+    const irreversible = toUndo.find(migration => !migration.down);
+    if (irreversible) {
+      throw new Error(`Migration ${irreversible.version} (${irreversible.name}) can't be rolled back`);
+    }
+
+    for (const migration of toUndo) {
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.down!);
+        await client.query(`DELETE FROM schema_version WHERE version = $1`, [migration.version]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    return toUndo.map(migration => migration.version);
+  });
+}
+
+/**
+ * The store in Postgres, shared by every watchtower replica pointed at the same database.
+ * Check-then-insert methods take a transaction-scoped advisory lock on their key, so two
+ * replicas can't both create the same job or grace window.
+ */
+export class PostgresHeartbeatStore implements HeartbeatStore {
+  private constructor(private readonly pool: pg.Pool) {}
+
+  /**
+   * Connect and bring the schema up to date, or check it is, depending on `autoMigrate`
+   */
+  static async open(options: HeartbeatStoreOptions): Promise<PostgresHeartbeatStore> {
+    if (!options.databaseUrl) {
+      throw new Error('DATABASE_URL is required when STORAGE_BACKEND=postgres');
+    }
+
+    return PostgresHeartbeatStore.openPool(createPostgresPool(options.databaseUrl, options.poolSize), options);
+  }
+
+  /**
+   * Same as `open`, on a pool that already exists. The store owns the pool from here and ends it on close.
+   */
+  static async openPool(pool: pg.Pool, options: HeartbeatStoreOptions = {}): Promise<PostgresHeartbeatStore> {
+    try {
+      if (options.autoMigrate ?? true) {
+        await migratePostgres(pool);
+      } else {
+        const version = await withMigrationLock(pool, async client => assertKnownVersion(await appliedVersions(client)));
+        if (version < LATEST_POSTGRES_SCHEMA_VERSION) {
+          throw new Error(
+            `Database schema version ${version} is behind ${LATEST_POSTGRES_SCHEMA_VERSION}, run \`npm run migrate -- up\` or set AUTO_MIGRATE=true`
+          );
+        }
+      }
+    } catch (error) {
+      await pool.end();
+      throw error;
+    }
+
+    return new PostgresHeartbeatStore(pool);
+  }
+
+  private async transaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordHeartbeat(
+    chainId: number,
+    userAddress: string,
+    signature: string,
+    inactivityPeriod: number,
+    lastSeen = Date.now()
+  ): Promise<HeartbeatRecord> {
+    const { rows } = await this.pool.query(`
+      INSERT INTO heartbeats (chain_id, user_address, last_seen, signature, inactivity_period, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $6)
+      ON CONFLICT (chain_id, user_address) DO UPDATE SET
+        last_seen = excluded.last_seen,
+        signature = excluded.signature,
+        inactivity_period = excluded.inactivity_period,
+        updated_at = excluded.updated_at
+      RETURNING *
+    `, [chainId, userAddress.toLowerCase(), lastSeen, signature, inactivityPeriod, Date.now()]);
+
+    return toHeartbeatRecord(rows[0] as HeartbeatRow);
+  }
+
+  async getHeartbeat(chainId: number, userAddress: string): Promise<HeartbeatRecord | null> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM heartbeats WHERE chain_id = $1 AND user_address = $2
+    `, [chainId, userAddress.toLowerCase()]);
+
+    return rows[0] ? toHeartbeatRecord(rows[0] as HeartbeatRow) : null;
+  }
+
+  async updateInactivityPeriod(chainId: number, userAddress: string, inactivityPeriod: number): Promise<void> {
+    await this.pool.query(`
+      UPDATE heartbeats SET inactivity_period = $1, updated_at = $2
+      WHERE chain_id = $3 AND user_address = $4
+    `, [inactivityPeriod, Date.now(), chainId, userAddress.toLowerCase()]);
+  }
+
+  async getInactiveUsers(chainId: number): Promise<HeartbeatRecord[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM heartbeats
+      WHERE chain_id = $1
+        AND $2 - GREATEST(CASE WHEN signature = $3 THEN 0 ELSE last_seen END, COALESCE(onchain_last_seen, 0)) > (inactivity_period * 1000)
+    `, [chainId, Date.now(), PENDING_HEARTBEAT_SIGNATURE]);
+
+    return (rows as HeartbeatRow[]).map(row => toHeartbeatRecord(row));
+  }
+
+  async removeUser(chainId: number, userAddress: string): Promise<void> {
+    await this.pool.query(`
+      DELETE FROM heartbeats WHERE chain_id = $1 AND user_address = $2
+    `, [chainId, userAddress.toLowerCase()]);
+  }
+
+  async getAllUsers(chainId?: number): Promise<HeartbeatRecord[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM heartbeats
+      WHERE $1::bigint IS NULL OR chain_id = $1::bigint
+    `, [chainId ?? null]);
+
+    return (rows as HeartbeatRow[]).map(row => toHeartbeatRecord(row));
+  }
+
+  async recordOnchainPing(chainId: number, userAddress: string, pingedAt: number): Promise<void> {
+    await this.pool.query(`
+      UPDATE heartbeats
+      SET onchain_last_seen = GREATEST(COALESCE(onchain_last_seen, 0), $1), updated_at = $2
+      WHERE chain_id = $3 AND user_address = $4
+    `, [pingedAt, Date.now(), chainId, userAddress.toLowerCase()]);
+  }
+
+  async setOnchainLastSeen(chainId: number, userAddress: string, onchainLastSeen: number | null): Promise<void> {
+    await this.pool.query(`
+      UPDATE heartbeats SET onchain_last_seen = $1, updated_at = $2
+      WHERE chain_id = $3 AND user_address = $4
+    `, [onchainLastSeen, Date.now(), chainId, userAddress.toLowerCase()]);
+  }
+
+  async consumeNonce(chainId: number, userAddress: string, nonce: string, signedAt: number): Promise<boolean> {
+    const result = await this.pool.query(`
+      INSERT INTO heartbeat_nonces (chain_id, user_address, nonce, signed_at, created_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (chain_id, user_address, nonce) DO NOTHING
+    `, [chainId, userAddress.toLowerCase(), nonce, signedAt, Date.now()]);
+
+    return result.rowCount === 1;
+  }
+
+  async releaseNonce(chainId: number, userAddress: string, nonce: string): Promise<void> {
+    await this.pool.query(`
+      DELETE FROM heartbeat_nonces WHERE chain_id = $1 AND user_address = $2 AND nonce = $3
+    `, [chainId, userAddress.toLowerCase(), nonce]);
+  }
+
+  async pruneNonces(signedBefore: number): Promise<number> {
+    const result = await this.pool.query(`DELETE FROM heartbeat_nonces WHERE signed_at < $1`, [signedBefore]);
+    return result.rowCount ?? 0;
+  }
+
+  async enqueueLiquidationJob(chainId: number, userAddress: string, tokenAddress: string, tokenSymbol: string): Promise<LiquidationJob> {
+    const normalizedUser = userAddress.toLowerCase();
+    const normalizedToken = tokenAddress.toLowerCase();
+
+    const row = await this.transaction(async client => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`liquidation-job:${chainId}:${normalizedUser}:${normalizedToken}`]);
+
+      const existing = await client.query(`
+        SELECT * FROM liquidation_jobs
+        WHERE chain_id = $1 AND user_address = $2 AND token_address = $3 AND state = ANY($4)
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [chainId, normalizedUser, normalizedToken, ACTIVE_JOB_STATES]);
+
+      if (existing.rows[0]) return existing.rows[0] as LiquidationJobRow;
+
+      const now = Date.now();
+      const inserted = await client.query(`
+        INSERT INTO liquidation_jobs (id, chain_id, user_address, token_address, token_symbol, state, attempts, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, 'queued', 0, $6, $6)
+        RETURNING *
+      `, [randomUUID(), chainId, normalizedUser, normalizedToken, tokenSymbol, now]);
+
+      return inserted.rows[0] as LiquidationJobRow;
+    });
+
+    return toLiquidationJob(row);
+  }
+
+  async updateLiquidationJob(id: string, update: LiquidationJobUpdate): Promise<void> {
+    await this.pool.query(`
+      UPDATE liquidation_jobs SET
+        state = $1,
+        last_error = CASE WHEN $2 THEN $3 ELSE last_error END,
+        failure_kind = CASE WHEN $4 THEN $5 ELSE failure_kind END,
+        tx_hash = CASE WHEN $6 THEN $7 ELSE tx_hash END,
+        tx_details = CASE WHEN $8 THEN $9 ELSE tx_details END,
+        route_provider = CASE WHEN $10 THEN $11 ELSE route_provider END,
+        quote_id = CASE WHEN $10 THEN $12 ELSE quote_id END,
+        quote_to_amount = CASE WHEN $10 THEN $13 ELSE quote_to_amount END,
+        quote_to_amount_min = CASE WHEN $10 THEN $14 ELSE quote_to_amount_min END,
+        attempts = CASE WHEN $15 THEN 0 ELSE attempts + $16 END,
+        updated_at = $17
+      WHERE id = $18
+    `, [
+      update.state,
+      update.lastError !== undefined,
+      update.lastError ?? null,
+      update.failureKind !== undefined,
+      update.failureKind ?? null,
+      update.txHash !== undefined,
+      update.txHash ?? null,
+      update.transaction !== undefined,
+      update.transaction ? JSON.stringify(update.transaction) : null,
+      update.route !== undefined,
+      update.route?.provider ?? null,
+      update.route?.quoteId ?? null,
+      update.route?.toAmount ?? null,
+      update.route?.toAmountMin ?? null,
+      update.resetAttempts === true,
+      (update.incrementAttempts ? 1 : 0) - (update.refundAttempt ? 1 : 0),
+      Date.now(),
+      id,
+    ]);
+  }
+
+  async getLiquidationJob(id: string): Promise<LiquidationJob | null> {
+    const { rows } = await this.pool.query(`SELECT * FROM liquidation_jobs WHERE id = $1`, [id]);
+    return rows[0] ? toLiquidationJob(rows[0] as LiquidationJobRow) : null;
+  }
+
+  async getLiquidationJobs(states: LiquidationJobState[], chainId?: number): Promise<LiquidationJob[]> {
+    if (states.length === 0) return [];
+
+    const { rows } = await this.pool.query(`
+      SELECT * FROM liquidation_jobs
+      WHERE state = ANY($1) AND ($2::bigint IS NULL OR chain_id = $2::bigint)
+      ORDER BY created_at ASC
+    `, [states, chainId ?? null]);
+
+    return (rows as LiquidationJobRow[]).map(row => toLiquidationJob(row));
+  }
+
+  async countLiquidationJobs(): Promise<Array<{ chainId: number; state: LiquidationJobState; count: number }>> {
+    const { rows } = await this.pool.query(`
+      SELECT chain_id, state, COUNT(*) AS count FROM liquidation_jobs
+      GROUP BY chain_id, state
+    `);
+
+    return (rows as Array<{ chain_id: number; state: LiquidationJobState; count: number }>)
+      .map(row => ({ chainId: row.chain_id, state: row.state, count: row.count }));
+  }
+
+  async getUserLiquidationJobs(chainId: number, userAddress: string): Promise<LiquidationJob[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM liquidation_jobs
+      WHERE chain_id = $1 AND user_address = $2
+      ORDER BY created_at ASC
+    `, [chainId, userAddress.toLowerCase()]);
+
+    return (rows as LiquidationJobRow[]).map(row => toLiquidationJob(row));
+  }
+
+  async recordSettlement(chainId: number, userAddress: string, transaction: SubmittedTransaction, offchainLastSeen: number): Promise<SettlementRecord> {
+    const now = Date.now();
+    const { rows } = await this.pool.query(`
+      INSERT INTO settlements (id, chain_id, user_address, tx_hash, tx_details, status, offchain_last_seen, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, 'submitted', $6, $7, $7)
+      RETURNING *
+    `, [randomUUID(), chainId, userAddress.toLowerCase(), transaction.hashes[0], JSON.stringify(transaction), offchainLastSeen, now]);
+
+    return toSettlement(rows[0] as SettlementRow);
+  }
+
+  async updateSettlement(id: string, status: SettlementStatus, error: string | null = null): Promise<void> {
+    await this.pool.query(`
+      UPDATE settlements SET status = $1, error = $2, updated_at = $3 WHERE id = $4
+    `, [status, error, Date.now(), id]);
+  }
+
+  async updateSettlementTxHash(id: string, txHash: string, transaction?: SubmittedTransaction): Promise<void> {
+    await this.pool.query(`
+      UPDATE settlements SET
+        tx_hash = $1,
+        tx_details = CASE WHEN $2 THEN $3 ELSE tx_details END,
+        updated_at = $4
+      WHERE id = $5
+    `, [txHash, transaction !== undefined, transaction ? JSON.stringify(transaction) : null, Date.now(), id]);
+  }
+
+  async getUserSettlements(chainId: number, userAddress: string, limit = 20): Promise<SettlementRecord[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM settlements
+      WHERE chain_id = $1 AND user_address = $2
+      ORDER BY created_at DESC
+      LIMIT $3
+    `, [chainId, userAddress.toLowerCase(), limit]);
+
+    return (rows as SettlementRow[]).map(row => toSettlement(row));
+  }
+
+  async getPendingSettlements(chainId: number): Promise<SettlementRecord[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM settlements WHERE chain_id = $1 AND status = 'submitted' ORDER BY created_at ASC
+    `, [chainId]);
+
+    return (rows as SettlementRow[]).map(row => toSettlement(row));
+  }
+
+  async createPendingBridge(bridge: NewPendingBridge): Promise<PendingBridge> {
+    const now = Date.now();
+
+    await this.pool.query(`
+      INSERT INTO pending_bridges (
+        id, job_id, source_chain_id, user_address, beneficiary, token_address, token_symbol,
+        amount, quote_id, expected_amount, min_amount, source_tx_hash, status, created_at, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'pending', $13, $13)
+      ON CONFLICT (source_chain_id, source_tx_hash) DO NOTHING
+    `, [
+      randomUUID(),
+      bridge.jobId,
+      bridge.sourceChainId,
+      bridge.userAddress.toLowerCase(),
+      bridge.beneficiary.toLowerCase(),
+      bridge.tokenAddress.toLowerCase(),
+      bridge.tokenSymbol,
+      bridge.amount,
+      bridge.quoteId,
+      bridge.expectedAmount,
+      bridge.minAmount,
+      bridge.sourceTxHash,
+      now,
+    ]);
+
+    const { rows } = await this.pool.query(`
+      SELECT * FROM pending_bridges WHERE source_chain_id = $1 AND source_tx_hash = $2
+    `, [bridge.sourceChainId, bridge.sourceTxHash]);
+
+    return toPendingBridge(rows[0] as PendingBridgeRow);
+  }
+
+  async getPendingBridge(id: string): Promise<PendingBridge | null> {
+    const { rows } = await this.pool.query(`SELECT * FROM pending_bridges WHERE id = $1`, [id]);
+    return rows[0] ? toPendingBridge(rows[0] as PendingBridgeRow) : null;
+  }
+
+  async getBridgesByStatus(statuses: BridgeStatus[]): Promise<PendingBridge[]> {
+    if (statuses.length === 0) return [];
+
+    const { rows } = await this.pool.query(`
+      SELECT * FROM pending_bridges WHERE status = ANY($1) ORDER BY created_at ASC
+    `, [statuses]);
+
+    return (rows as PendingBridgeRow[]).map(row => toPendingBridge(row));
+  }
+
+  async countBridgesByStatus(): Promise<Array<{ status: BridgeStatus; count: number }>> {
+    const { rows } = await this.pool.query(`
+      SELECT status, COUNT(*) AS count FROM pending_bridges
+      GROUP BY status
+    `);
+
+    return rows as Array<{ status: BridgeStatus; count: number }>;
+  }
+
+  async confirmBridge(id: string, destinationTxHash: string, receivedAmount: string): Promise<void> {
+    const now = Date.now();
+    await this.pool.query(`
+      UPDATE pending_bridges SET
+        status = 'confirmed',
+        destination_tx_hash = $1,
+        received_amount = $2,
+        confirmed_at = $3,
+        updated_at = $3
+      WHERE id = $4
+    `, [destinationTxHash, receivedAmount, now, id]);
+  }
+
+  async updateBridgeStatus(id: string, status: BridgeStatus): Promise<void> {
+    await this.pool.query(`
+      UPDATE pending_bridges SET status = $1, updated_at = $2 WHERE id = $3
+    `, [status, Date.now(), id]);
+  }
+
+  async getCheckpoint(name: string): Promise<bigint | null> {
+    const { rows } = await this.pool.query(`SELECT block_number FROM checkpoints WHERE name = $1`, [name]);
+    return rows[0] ? BigInt((rows[0] as { block_number: number }).block_number) : null;
+  }
+
+  async setCheckpoint(name: string, blockNumber: bigint): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO checkpoints (name, block_number, updated_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (name) DO UPDATE SET
+        block_number = excluded.block_number,
+        updated_at = excluded.updated_at
+    `, [name, blockNumber.toString(), Date.now()]);
+  }
+
+  async insertChainEvent(event: NewChainEvent): Promise<boolean> {
+    const result = await this.pool.query(`
+      INSERT INTO chain_events
+        (chain_id, block_number, block_hash, tx_hash, log_index, event_name, user_address, args, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (chain_id, tx_hash, log_index) DO NOTHING
+    `, [
+      event.chainId,
+      event.blockNumber,
+      event.blockHash,
+      event.txHash.toLowerCase(),
+      event.logIndex,
+      event.eventName,
+      event.userAddress?.toLowerCase() ?? null,
+      JSON.stringify(event.args),
+      Date.now(),
+    ]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getChainEvents(chainId: number, filter: { userAddress?: string; eventName?: string; limit?: number } = {}): Promise<ChainEvent[]> {
+    const params: Array<string | number> = [chainId];
+    const conditions = ['chain_id = $1'];
+
+    if (filter.userAddress) {
+      params.push(filter.userAddress.toLowerCase());
+      conditions.push(`user_address = $${params.length}`);
+    }
+    if (filter.eventName) {
+      params.push(filter.eventName);
+      conditions.push(`event_name = $${params.length}`);
+    }
+    params.push(filter.limit ?? 100);
+
+    const { rows } = await this.pool.query(`
+      SELECT * FROM chain_events
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY block_number DESC, log_index DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return (rows as ChainEventRow[]).map(row => toChainEvent(row));
+  }
+
+  async recordBlockHash(chainId: number, blockNumber: bigint, blockHash: string): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO indexed_blocks (chain_id, block_number, block_hash)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (chain_id, block_number) DO UPDATE SET block_hash = excluded.block_hash
+    `, [chainId, blockNumber.toString(), blockHash]);
+  }
+
+  async getRecentBlockHashes(chainId: number, limit: number): Promise<Array<{ blockNumber: bigint; blockHash: string }>> {
+    const { rows } = await this.pool.query(`
+      SELECT block_number, block_hash FROM indexed_blocks
+      WHERE chain_id = $1
+      ORDER BY block_number DESC
+      LIMIT $2
+    `, [chainId, limit]);
+
+    return (rows as Array<{ block_number: number; block_hash: string }>)
+      .map(row => ({ blockNumber: BigInt(row.block_number), blockHash: row.block_hash }));
+  }
+
+  async rollbackChainEvents(chainId: number, afterBlock: bigint): Promise<ChainEvent[]> {
+    const rows = await this.transaction(async client => {
+      const removed = await client.query(`
+        WITH removed AS (
+          DELETE FROM chain_events WHERE chain_id = $1 AND block_number > $2 RETURNING *
+        )
+        SELECT * FROM removed ORDER BY block_number DESC, log_index DESC
+      `, [chainId, afterBlock.toString()]);
+      await client.query(`
+        DELETE FROM indexed_blocks WHERE chain_id = $1 AND block_number > $2
+      `, [chainId, afterBlock.toString()]);
+
+      return removed.rows as ChainEventRow[];
+    });
+
+    return rows.map(row => toChainEvent(row));
+  }
+
+  async pruneBlockHashes(chainId: number, beforeBlock: bigint): Promise<number> {
+    const result = await this.pool.query(`
+      DELETE FROM indexed_blocks WHERE chain_id = $1 AND block_number < $2
+    `, [chainId, beforeBlock.toString()]);
+    return result.rowCount ?? 0;
+  }
+
+  async addGuardian(chainId: number, userAddress: string, guardianAddress: string): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO guardians (chain_id, user_address, guardian_address, created_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (chain_id, user_address, guardian_address) DO NOTHING
+    `, [chainId, userAddress.toLowerCase(), guardianAddress.toLowerCase(), Date.now()]);
+  }
+
+  async removeGuardian(chainId: number, userAddress: string, guardianAddress: string): Promise<boolean> {
+    const result = await this.pool.query(`
+      DELETE FROM guardians WHERE chain_id = $1 AND user_address = $2 AND guardian_address = $3
+    `, [chainId, userAddress.toLowerCase(), guardianAddress.toLowerCase()]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getGuardians(chainId: number, userAddress: string): Promise<Guardian[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM guardians WHERE chain_id = $1 AND user_address = $2
+      ORDER BY created_at ASC
+    `, [chainId, userAddress.toLowerCase()]);
+
+    return (rows as GuardianRow[]).map(row => toGuardian(row));
+  }
+
+  async startPendingLiquidation(chainId: number, userAddress: string, expiresAt: number): Promise<PendingLiquidation> {
+    const normalizedUser = userAddress.toLowerCase();
+
+    const row = await this.transaction(async client => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`pending-liquidation:${chainId}:${normalizedUser}`]);
+
+      const open = await client.query(`
+        SELECT * FROM pending_liquidations
+        WHERE chain_id = $1 AND user_address = $2 AND status = 'pending'
+        ORDER BY started_at DESC
+        LIMIT 1
+      `, [chainId, normalizedUser]);
+      if (open.rows[0]) return open.rows[0] as PendingLiquidationRow;
+
+      const now = Date.now();
+      const inserted = await client.query(`
+        INSERT INTO pending_liquidations (id, chain_id, user_address, status, started_at, expires_at, updated_at)
+        VALUES ($1, $2, $3, 'pending', $4, $5, $4)
+        RETURNING *
+      `, [randomUUID(), chainId, normalizedUser, now, expiresAt]);
+
+      return inserted.rows[0] as PendingLiquidationRow;
+    });
+
+    return toPendingLiquidation(row);
+  }
+
+  async getPendingLiquidation(id: string): Promise<PendingLiquidation | null> {
+    const { rows } = await this.pool.query(`SELECT * FROM pending_liquidations WHERE id = $1`, [id]);
+    return rows[0] ? toPendingLiquidation(rows[0] as PendingLiquidationRow) : null;
+  }
+
+  async getOpenPendingLiquidation(chainId: number, userAddress: string): Promise<PendingLiquidation | null> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM pending_liquidations
+      WHERE chain_id = $1 AND user_address = $2 AND status = 'pending'
+      ORDER BY started_at DESC
+      LIMIT 1
+    `, [chainId, userAddress.toLowerCase()]);
+
+    return rows[0] ? toPendingLiquidation(rows[0] as PendingLiquidationRow) : null;
+  }
+
+  async getLatestPendingLiquidation(chainId: number, userAddress: string): Promise<PendingLiquidation | null> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM pending_liquidations
+      WHERE chain_id = $1 AND user_address = $2
+      ORDER BY started_at DESC
+      LIMIT 1
+    `, [chainId, userAddress.toLowerCase()]);
+
+    return rows[0] ? toPendingLiquidation(rows[0] as PendingLiquidationRow) : null;
+  }
+
+  async getPendingLiquidations(statuses: PendingLiquidationStatus[], chainId?: number): Promise<PendingLiquidation[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM pending_liquidations
+      WHERE status = ANY($1) AND ($2::bigint IS NULL OR chain_id = $2::bigint)
+      ORDER BY started_at DESC
+    `, [statuses, chainId ?? null]);
+
+    return (rows as PendingLiquidationRow[]).map(row => toPendingLiquidation(row));
+  }
+
+  async releasePendingLiquidation(id: string): Promise<void> {
+    const now = Date.now();
+    await this.pool.query(`
+      UPDATE pending_liquidations SET status = 'released', resolved_at = $1, updated_at = $1
+      WHERE id = $2 AND status = 'pending'
+    `, [now, id]);
+  }
+
+  async cancelPendingLiquidation(chainId: number, userAddress: string, reason: CancelReason, cancelledBy: string): Promise<PendingLiquidation | null> {
+    const now = Date.now();
+    const { rows } = await this.pool.query(`
+      UPDATE pending_liquidations
+      SET status = 'cancelled', cancel_reason = $1, cancelled_by = $2, resolved_at = $3, updated_at = $3
+      WHERE chain_id = $4 AND user_address = $5 AND status = 'pending'
+      RETURNING *
+    `, [reason, cancelledBy.toLowerCase(), now, chainId, userAddress.toLowerCase()]);
+
+    return rows[0] ? toPendingLiquidation(rows[0] as PendingLiquidationRow) : null;
+  }
+
+  async addNotificationChannel(
+    chainId: number,
+    address: string,
+    channelType: NotificationChannelType,
+    target: string,
+    secret: string | null
+  ): Promise<NotificationChannel> {
+    const normalizedAddress = address.toLowerCase();
+
+    await this.pool.query(`
+      INSERT INTO notification_channels (id, chain_id, address, channel_type, target, secret, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (chain_id, address, channel_type, target) DO NOTHING
+    `, [randomUUID(), chainId, normalizedAddress, channelType, target, secret, Date.now()]);
+
+    const { rows } = await this.pool.query(`
+      SELECT * FROM notification_channels
+      WHERE chain_id = $1 AND address = $2 AND channel_type = $3 AND target = $4
+    `, [chainId, normalizedAddress, channelType, target]);
+
+    return toNotificationChannel(rows[0] as NotificationChannelRow);
+  }
+
+  async removeNotificationChannel(chainId: number, address: string, channelType: NotificationChannelType, target: string): Promise<boolean> {
+    return this.transaction(async client => {
+      const removed = await client.query(`
+        DELETE FROM notification_channels
+        WHERE chain_id = $1 AND address = $2 AND channel_type = $3 AND target = $4
+        RETURNING id
+      `, [chainId, address.toLowerCase(), channelType, target]);
+
+      if (!removed.rows[0]) return false;
+
+      await client.query(`
+        DELETE FROM notification_deliveries WHERE channel_id = $1 AND status = 'pending'
+      `, [(removed.rows[0] as { id: string }).id]);
+      return true;
+    });
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | null> {
+    const { rows } = await this.pool.query(`SELECT * FROM notification_channels WHERE id = $1`, [id]);
+    return rows[0] ? toNotificationChannel(rows[0] as NotificationChannelRow) : null;
+  }
+
+  async getNotificationChannels(chainId: number, address: string): Promise<NotificationChannel[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM notification_channels
+      WHERE chain_id = $1 AND address = $2
+      ORDER BY created_at ASC
+    `, [chainId, address.toLowerCase()]);
+
+    return (rows as NotificationChannelRow[]).map(row => toNotificationChannel(row));
+  }
+
+  async enqueueNotification(channel: NotificationChannel, kind: string, dedupeKey: string, payload: string): Promise<NotificationDelivery | null> {
+    const now = Date.now();
+    const { rows } = await this.pool.query(`
+      INSERT INTO notification_deliveries
+        (id, channel_id, chain_id, address, kind, dedupe_key, payload, status, attempts, next_attempt_at, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', 0, $8, $8, $8)
+      ON CONFLICT (channel_id, dedupe_key) DO NOTHING
+      RETURNING *
+    `, [randomUUID(), channel.id, channel.chainId, channel.address, kind, dedupeKey, payload, now]);
+
+    return rows[0] ? toNotificationDelivery(rows[0] as NotificationDeliveryRow) : null;
+  }
+
+  async getNotificationDelivery(id: string): Promise<NotificationDelivery | null> {
+    const { rows } = await this.pool.query(`SELECT * FROM notification_deliveries WHERE id = $1`, [id]);
+    return rows[0] ? toNotificationDelivery(rows[0] as NotificationDeliveryRow) : null;
+  }
+
+  async getDueNotifications(now: number, limit = 100): Promise<NotificationDelivery[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM notification_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= $1
+      ORDER BY next_attempt_at ASC
+      LIMIT $2
+    `, [now, limit]);
+
+    return (rows as NotificationDeliveryRow[]).map(row => toNotificationDelivery(row));
+  }
+
+  async markNotificationDelivered(id: string): Promise<void> {
+    const now = Date.now();
+    await this.pool.query(`
+      UPDATE notification_deliveries
+      SET status = 'delivered', attempts = attempts + 1, last_error = NULL, delivered_at = $1, updated_at = $1
+      WHERE id = $2
+    `, [now, id]);
+  }
+
+  async markNotificationFailed(id: string, error: string, retryAt: number | null): Promise<void> {
+    await this.pool.query(`
+      UPDATE notification_deliveries
+      SET status = $1, attempts = attempts + 1, last_error = $2, next_attempt_at = COALESCE($3::bigint, next_attempt_at), updated_at = $4
+      WHERE id = $5
+    `, [retryAt === null ? 'failed' : 'pending', error, retryAt, Date.now(), id]);
+  }
+
+  async getNotificationDeliveries(filter: { address?: string; status?: DeliveryStatus[]; limit?: number } = {}): Promise<NotificationDelivery[]> {
+    const params: Array<string | number | string[]> = [];
+    const conditions: string[] = [];
+
+    if (filter.address) {
+      params.push(filter.address.toLowerCase());
+      conditions.push(`address = $${params.length}`);
+    }
+    if (filter.status && filter.status.length > 0) {
+      params.push(filter.status);
+      conditions.push(`status = ANY($${params.length})`);
+    }
+    params.push(filter.limit ?? 100);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await this.pool.query(`
+      SELECT * FROM notification_deliveries ${where}
+      ORDER BY created_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return (rows as NotificationDeliveryRow[]).map(row => toNotificationDelivery(row));
+  }
+
+  async hitRateLimit(key: string, windowStart: number): Promise<number> {
+    const { rows } = await this.pool.query(`
+      INSERT INTO rate_limits (key, window_start, count)
+      VALUES ($1, $2, 1)
+      ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN rate_limits.window_start = excluded.window_start THEN rate_limits.count + 1 ELSE 1 END,
+        window_start = excluded.window_start
+      RETURNING count
+    `, [key, windowStart]);
+
+    return (rows[0] as { count: number }).count;
+  }
+
+  async pruneRateLimits(windowStartBefore: number): Promise<number> {
+    const result = await this.pool.query(`DELETE FROM rate_limits WHERE window_start < $1`, [windowStartBefore]);
+    return result.rowCount ?? 0;
+  }
+
+  async recordAudit(entry: Omit<AuditEntry, 'id' | 'createdAt'>): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO audit_log (id, actor, role, auth_method, action, details, ip, outcome, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      randomUUID(),
+      entry.actor,
+      entry.role,
+      entry.authMethod,
+      entry.action,
+      entry.details,
+      entry.ip,
+      entry.outcome,
+      Date.now(),
+    ]);
+  }
+
+  async getAuditLog(limit = 100): Promise<AuditEntry[]> {
+    const { rows } = await this.pool.query(`
+      SELECT * FROM audit_log ORDER BY created_at DESC LIMIT $1
+    `, [limit]);
+
+    return (rows as AuditRow[]).map(row => toAuditEntry(row));
+  }
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease> {
+    for (;;) {
+      const lease = await this.tryAcquireLease(name, holder, ttlMs) ?? await this.getLease(name);
+      // Null only when the holder released it between the two queries, it's free to take now
+      if (lease) return lease;
+    }
+  }
+
+  /**
+   * Take or renew the lease, null when someone else holds it
+   */
+  private async tryAcquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null> {
+    const now = Date.now();
+    // The conflicting row is locked while the WHERE is checked, so two instances can't both take an expired lease
+    const { rows } = await this.pool.query(`
+      INSERT INTO leases (name, holder, acquired_at, renewed_at, expires_at)
+      VALUES ($1, $2, $3, $3, $4)
+      ON CONFLICT (name) DO UPDATE SET
+        acquired_at = CASE WHEN leases.holder = excluded.holder THEN leases.acquired_at ELSE excluded.acquired_at END,
+        holder = excluded.holder,
+        renewed_at = excluded.renewed_at,
+        expires_at = excluded.expires_at
+      WHERE leases.holder = excluded.holder OR leases.expires_at <= excluded.renewed_at
+      RETURNING *
+    `, [name, holder, now, now + ttlMs]);
+
+    return rows.length > 0 ? toLease(rows[0] as LeaseRow) : null;
+  }
+
+  async releaseLease(name: string, holder: string): Promise<boolean> {
+    const result = await this.pool.query(`DELETE FROM leases WHERE name = $1 AND holder = $2`, [name, holder]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getLease(name: string): Promise<Lease | null> {
+    const { rows } = await this.pool.query(`SELECT * FROM leases WHERE name = $1`, [name]);
+    return rows.length > 0 ? toLease(rows[0] as LeaseRow) : null;
+  }
+
+  async exportData(): Promise<StoreDump> {
+    const tables: StoreDump['tables'] = {};
+    for (const table of DUMP_TABLES) {
+      tables[table] = (await this.pool.query(`SELECT * FROM ${table}`)).rows;
+    }
+    return { backend: 'postgres', exportedAt: Date.now(), tables };
+  }
+
+  async importData(dump: StoreDump): Promise<Record<string, number>> {
+    assertValidDump(dump);
+
+    return this.transaction(async client => {
+      const inserted: Record<string, number> = {};
+      for (const table of DUMP_TABLES) {
+        inserted[table] = 0;
+        for (const row of dump.tables[table] ?? []) {
+          const columns = Object.keys(row);
+          const result = await client.query(`
+            INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+            ON CONFLICT DO NOTHING
+          `, columns.map(column => row[column]));
+          inserted[table] += result.rowCount ?? 0;
+        }
+      }
+      return inserted;
+    });
+  }
+
+  async checkWritable(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`
+        INSERT INTO checkpoints (name, block_number, updated_at) VALUES ('health-check', 0, $1)
+        ON CONFLICT (name) DO UPDATE SET updated_at = excluded.updated_at
+      `, [Date.now()]);
+    } finally {
+      await client.query('ROLLBACK');
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
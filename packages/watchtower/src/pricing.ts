@@ -0,0 +1,104 @@
+import { formatUnits } from 'viem';
+import { ERC20ABI, type Config, type SourceClients, type TokenConfig } from './config.js';
+import type { Route } from './routes.js';
+
+/**
+ * Source of USD prices for liquidatable tokens.
+ * Returns null when the token has no known price.
+ */
+export interface PriceOracle {
+  readonly name: string;
+  getPriceUSD(chainId: number, token: TokenConfig): Promise<number | null>;
+}
+
+/**
+ * Fixed prices from TOKEN_PRICES_USD, keyed by token symbol
+ */
+export class StaticPriceOracle implements PriceOracle {
+  readonly name = 'static';
+
+  constructor(private readonly prices: Record<string, number>) {}
+
+  async getPriceUSD(_chainId: number, token: TokenConfig): Promise<number | null> {
+    return this.prices[token.symbol.toUpperCase()] ?? null;
+  }
+}
+
+export function createPriceOracle(config: Config): PriceOracle {
+  return new StaticPriceOracle(config.tokenPricesUsd);
+}
+
+/**
+ * What a liquidation is worth, with the numbers it was worked out from
+ */
+export interface TokenValuation {
+  amount: bigint;
+  decimals: number;
+  priceUSD: number;
+  valueUSD: number;
+  source: string;
+}
+
+let oracle: PriceOracle | null = null;
+
+// Token decimals never change, keyed by chain and address
+const decimalsCache = new Map<string, number>();
+
+function getPriceOracle(config: Config): PriceOracle {
+  if (!oracle) {
+    oracle = createPriceOracle(config);
+  }
+  return oracle;
+}
+
+async function getTokenDecimals(clients: SourceClients, token: TokenConfig): Promise<number> {
+  const key = `${clients.source.chainId}:${token.address.toLowerCase()}`;
+  let decimals = decimalsCache.get(key);
+  if (decimals === undefined) {
+    decimals = await clients.publicClient.readContract({ address: token.address, abi: ERC20ABI, functionName: 'decimals' });
+    decimalsCache.set(key, decimals);
+  }
+  return decimals;
+}
+
+/**
+ * Price the whole liquidated amount in USD.
+ * With PRICE_SOURCE=quote the route's toAmount (USDC delivered for the swapped amount) sets the
+ * price, falling back to the oracle for routes without one. With PRICE_SOURCE=oracle only the oracle is used.
+ * Returns null when neither can price the token.
+ */
+export async function valueLiquidation(
+  clients: SourceClients,
+  config: Config,
+  token: TokenConfig,
+  amount: bigint,
+  amountSwapped: bigint,
+  route: Route | null
+): Promise<TokenValuation | null> {
+  if (
+    config.priceSource === 'quote' &&
+    route?.toAmount &&
+    route.fromDecimals !== null &&
+    route.toDecimals !== null &&
+    amountSwapped > 0n
+  ) {
+    const decimals = route.fromDecimals;
+    const swappedUnits = Number(formatUnits(amountSwapped, decimals));
+    const receivedUSD = Number(formatUnits(BigInt(route.toAmount), route.toDecimals));
+    const priceUSD = receivedUSD / swappedUnits;
+    return {
+      amount,
+      decimals,
+      priceUSD,
+      valueUSD: priceUSD * Number(formatUnits(amount, decimals)),
+      source: `${route.provider} quote`,
+    };
+  }
+
+  const priceOracle = getPriceOracle(config);
+  const priceUSD = await priceOracle.getPriceUSD(clients.source.chainId, token);
+  if (priceUSD === null) return null;
+
+  const decimals = await getTokenDecimals(clients, token);
+  return { amount, decimals, priceUSD, valueUSD: priceUSD * Number(formatUnits(amount, decimals)), source: priceOracle.name };
+}
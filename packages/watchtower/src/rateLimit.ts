@@ -0,0 +1,168 @@
+import type { Request, RequestHandler, Response } from 'express';
+import { getHeartbeatStore } from './database.js';
+
+/**
+ * Backing store for fixed-window counters
+ */
+export interface RateLimitStore {
+  /** Count a hit for the key in the window starting at windowStart (ms) and return the total so far */
+  hit(key: string, windowStart: number): Promise<number>;
+  /** Forget windows that started before the given time (ms) */
+  prune(windowStartBefore: number): Promise<void>;
+}
+
+/**
+ * Counters kept in process memory. Lost on restart, which is fine for short windows.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { windowStart: number; count: number }>();
+
+  async hit(key: string, windowStart: number): Promise<number> {
+    const current = this.windows.get(key);
+    if (current && current.windowStart === windowStart) {
+      current.count++;
+      return current.count;
+    }
+
+    this.windows.set(key, { windowStart, count: 1 });
+    return 1;
+  }
+
+  async prune(windowStartBefore: number): Promise<void> {
+    for (const [key, window] of this.windows) {
+      if (window.windowStart < windowStartBefore) this.windows.delete(key);
+    }
+  }
+}
+
+/**
+ * Counters kept in the heartbeat store, so limits survive restarts and are shared by replicas on Postgres
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  hit(key: string, windowStart: number): Promise<number> {
+    return getHeartbeatStore().hitRateLimit(key, windowStart);
+  }
+
+  async prune(windowStartBefore: number): Promise<void> {
+    await getHeartbeatStore().pruneRateLimits(windowStartBefore);
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Fixed-window rate limiter: at most `limit` hits per key per window
+ */
+export class RateLimiter {
+  private lastPrune = 0;
+
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly name: string,
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  async consume(key: string, now = Date.now()): Promise<RateLimitResult> {
+    const windowStart = now - (now % this.windowMs);
+
+    // Drop finished windows at most once per window
+    if (windowStart > this.lastPrune) {
+      this.lastPrune = windowStart;
+      await this.store.prune(windowStart);
+    }
+
+    const count = await this.store.hit(`${this.name}:${key}`, windowStart);
+
+    return {
+      allowed: count <= this.limit,
+      remaining: Math.max(0, this.limit - count),
+      retryAfterMs: windowStart + this.windowMs - now,
+    };
+  }
+}
+
+/**
+ * Set the usual rate limit headers and, when over the limit, answer 429
+ * Returns true if the request may continue.
+ */
+export function applyRateLimit(
+  res: Response,
+  result: RateLimitResult,
+  limit: number,
+  reason: string
+): boolean {
+  res.setHeader('RateLimit-Limit', limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+
+  if (result.allowed) return true;
+
+  res.setHeader('Retry-After', Math.ceil(result.retryAfterMs / 1000));
+  res.status(429).json({
+    error: 'Too many requests',
+    code: 'RATE_LIMITED',
+    details: reason,
+  });
+  return false;
+}
+
+/**
+ * Express middleware limiting requests per client IP, `onLimited` runs for every rejected request
+ */
+export function rateLimitByIp(limiter: RateLimiter, limit: number, onLimited?: () => void): RequestHandler {
+  return async (req: Request, res, next) => {
+    const ip = req.ip ?? 'unknown';
+    if (applyRateLimit(res, await limiter.consume(ip), limit, 'Too many requests from this IP')) {
+      next();
+    } else {
+      onLimited?.();
+    }
+  };
+}
+
+const MAX_CACHE_ENTRIES = 10_000;
+
+/**
+ * Small in-memory cache whose entries expire after a fixed time
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  get(key: string, now = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: V, now = Date.now()): void {
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+
+    // Keep the map from growing without bound under a flood of distinct keys:
+    // drop expired entries, then the oldest ones
+    if (this.entries.size > MAX_CACHE_ENTRIES) {
+      for (const [k, entry] of this.entries) {
+        if (entry.expiresAt <= now) this.entries.delete(k);
+      }
+      for (const k of this.entries.keys()) {
+        if (this.entries.size <= MAX_CACHE_ENTRIES) break;
+        this.entries.delete(k);
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,137 @@
+import type { Address } from 'viem';
+import { getHeartbeatStore } from './database.js';
+import { Config, LazarusSourceABI, type SourceClients } from './config.js';
+import { TtlCache } from './rateLimit.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('registration');
+
+export interface RegistrationStatus {
+  registered: boolean;
+  dead: boolean;
+  beneficiary: Address;
+  lastPing: number;
+  inactivityPeriod: number;
+}
+
+// Live users are re-read often so period changes show up quickly.
+// Unregistered and dead users rarely change, so they are cached longer.
+let liveCache: TtlCache<RegistrationStatus> | null = null;
+let inactiveCache: TtlCache<RegistrationStatus> | null = null;
+
+function caches(config: Config) {
+  if (!liveCache || !inactiveCache) {
+    liveCache = new TtlCache(config.registrationCacheSeconds * 1000);
+    inactiveCache = new TtlCache(config.unregisteredCacheSeconds * 1000);
+  }
+  return { liveCache, inactiveCache };
+}
+
+function cacheKey(chainId: number, userAddress: string): string {
+  return `${chainId}:${userAddress.toLowerCase()}`;
+}
+
+/**
+ * Read a user's registration from LazarusSource, bypassing the cache
+ */
+export async function fetchRegistration(
+  clients: SourceClients,
+  userAddress: Address
+): Promise<RegistrationStatus> {
+  const [registered, beneficiary, lastPing, inactivityPeriod, dead] = await clients.publicClient.readContract({
+    address: clients.source.lazarusSourceAddress,
+    abi: LazarusSourceABI,
+    functionName: 'getUserInfo',
+    args: [userAddress],
+  });
+
+  return {
+    registered,
+    dead,
+    beneficiary,
+    lastPing: Number(lastPing) * 1000,
+    inactivityPeriod: Number(inactivityPeriod),
+  };
+}
+
+/**
+ * Only return a cached registration, without touching the RPC
+ */
+export function getCachedRegistration(
+  config: Config,
+  chainId: number,
+  userAddress: string
+): RegistrationStatus | undefined {
+  const key = cacheKey(chainId, userAddress);
+  const { liveCache, inactiveCache } = caches(config);
+  return inactiveCache.get(key) ?? liveCache.get(key);
+}
+
+/**
+ * Get a user's registration, served from a short-lived cache when possible.
+ * RPC errors are thrown to the caller rather than replaced by defaults.
+ */
+export async function getRegistration(
+  clients: SourceClients,
+  config: Config,
+  userAddress: Address
+): Promise<RegistrationStatus> {
+  const chainId = clients.source.chainId;
+  const cached = getCachedRegistration(config, chainId, userAddress);
+  if (cached) return cached;
+
+  const status = await fetchRegistration(clients, userAddress);
+  const { liveCache, inactiveCache } = caches(config);
+  const key = cacheKey(chainId, userAddress);
+
+  if (status.registered && !status.dead) {
+    liveCache.set(key, status);
+  } else {
+    inactiveCache.set(key, status);
+  }
+
+  return status;
+}
+
+/**
+ * Forget what we know about a user, e.g. after seeing them register
+ */
+export function invalidateRegistration(config: Config, chainId: number, userAddress: string): void {
+  const key = cacheKey(chainId, userAddress);
+  const { liveCache, inactiveCache } = caches(config);
+  liveCache.delete(key);
+  inactiveCache.delete(key);
+}
+
+/**
+ * Remove heartbeat rows for users that are not registered on the source chain.
+ * Users whose registration can't be read are left alone.
+ */
+export async function runRegistrationReconciliation(
+  clients: SourceClients,
+  config: Config
+): Promise<{ checked: number; purged: string[] }> {
+  const chainId = clients.source.chainId;
+  const store = getHeartbeatStore();
+  const purged: string[] = [];
+  const users = await store.getAllUsers(chainId);
+
+  for (const user of users) {
+    try {
+      const status = await fetchRegistration(clients, user.userAddress as Address);
+      if (!status.registered) {
+        await store.removeUser(chainId, user.userAddress);
+        invalidateRegistration(config, chainId, user.userAddress);
+        purged.push(user.userAddress);
+      }
+    } catch (error) {
+      log.error('Could not read registration', { chainId, user: user.userAddress, error });
+    }
+  }
+
+  if (purged.length > 0) {
+    log.info('Purged unregistered users', { chainId, purged: purged.length });
+  }
+
+  return { checked: users.length, purged };
+}
@@ -0,0 +1,229 @@
+import type { Address } from 'viem';
+import type { Config } from './config.js';
+import { LiFiRouteProvider } from './lifi.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('routes');
+
+/**
+ * What the liquidator needs a route for: swap `amount` of `fromToken` held by LazarusSource
+ * and bridge it as `toToken` to `receiver` on the destination chain
+ */
+export interface RouteRequest {
+  sourceChainId: number;
+  destinationChainId: number;
+  fromToken: Address;
+  toToken: Address;
+  amount: bigint;
+  fromAddress: Address;
+  receiver: Address;
+  beneficiary: Address;
+}
+
+/**
+ * A route normalized across providers. `swapData` is passed to `liquidate` as `_swapData`.
+ * Amounts are in base units of the destination token, prices are USD strings when the provider has them.
+ */
+export interface Route {
+  provider: string;
+  swapData: `0x${string}`;
+  quoteId: string | null;
+  toAmount: string | null;
+  toAmountMin: string | null;
+  fromDecimals: number | null;
+  toDecimals: number | null;
+  fromPriceUSD: string | null;
+  nativePriceUSD: string | null;
+  // Routes that don't move real funds, only for development and testnets
+  testOnly: boolean;
+}
+
+/**
+ * Builds `_swapData` for a liquidation. `getRoute` throws when no route is available.
+ */
+export interface RouteProvider {
+  readonly name: string;
+  getRoute(request: RouteRequest): Promise<Route>;
+}
+
+/**
+ * How a provider has been doing, a provider that keeps failing is skipped for a while
+ */
+export interface RouteProviderHealth {
+  provider: string;
+  priority: number;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  unhealthyUntil: number | null;
+}
+
+/**
+ * Calls `mockBridge(address _token, uint256 _amount, address _receiver, uint256 _destinationChainId)`
+ * instead of a real bridge. Only for development and testnets where LI.FI has no routes.
+ */
+export class MockRouteProvider implements RouteProvider {
+  readonly name = 'mock';
+
+  async getRoute(request: RouteRequest): Promise<Route> {
+    const mockSelector = '0x50384546';
+    const encodedParams = [
+      request.fromToken.slice(2).padStart(64, '0'),
+      request.amount.toString(16).padStart(64, '0'),
+      request.beneficiary.slice(2).padStart(64, '0'),
+      request.destinationChainId.toString(16).padStart(64, '0'),
+    ].join('');
+
+    return {
+      provider: this.name,
+      swapData: `${mockSelector}${encodedParams}` as `0x${string}`,
+      quoteId: null,
+      toAmount: null,
+      toAmountMin: null,
+      fromDecimals: null,
+      toDecimals: null,
+      fromPriceUSD: null,
+      nativePriceUSD: null,
+      testOnly: true,
+    };
+  }
+}
+
+let providers: RouteProvider[] | null = null;
+const health = new Map<string, RouteProviderHealth>();
+
+/**
+ * Providers from ROUTE_PROVIDERS, highest priority first.
+ * The old development switches (NODE_ENV=development, USE_MOCK_SWAP=true) still add the mock provider last.
+ */
+export function createRouteProviders(config: Config): RouteProvider[] {
+  const names = [...config.routeProviders];
+  const isDevelopment = process.env.NODE_ENV === 'development' || process.env.USE_MOCK_SWAP === 'true';
+  if (isDevelopment && !names.includes('mock')) {
+    names.push('mock');
+  }
+
+  return names.map(name => {
+    switch (name) {
+      case 'lifi':
+        return new LiFiRouteProvider(config.lifiDiamondAddress, config.lifi);
+      case 'mock':
+        return new MockRouteProvider();
+      default:
+        throw new Error(`Unknown route provider "${name}"`);
+    }
+  });
+}
+
+function getRouteProviders(config: Config): RouteProvider[] {
+  if (!providers) {
+    providers = createRouteProviders(config);
+    providers.forEach((provider, priority) => {
+      health.set(provider.name, {
+        provider: provider.name,
+        priority,
+        healthy: true,
+        consecutiveFailures: 0,
+        lastError: null,
+        lastFailureAt: null,
+        lastSuccessAt: null,
+        unhealthyUntil: null,
+      });
+    });
+  }
+  return providers;
+}
+
+function recordSuccess(provider: RouteProvider): void {
+  const entry = health.get(provider.name)!;
+  entry.healthy = true;
+  entry.consecutiveFailures = 0;
+  entry.lastSuccessAt = Date.now();
+  entry.unhealthyUntil = null;
+}
+
+function recordFailure(config: Config, provider: RouteProvider, error: unknown): string {
+  const entry = health.get(provider.name)!;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const now = Date.now();
+
+  entry.consecutiveFailures++;
+  entry.lastError = message;
+  entry.lastFailureAt = now;
+  if (entry.consecutiveFailures >= config.routeProviderMaxFailures) {
+    if (entry.healthy) {
+      log.warn('Route provider marked unhealthy', {
+        provider: provider.name,
+        failures: entry.consecutiveFailures,
+        error: message,
+      });
+    }
+    entry.healthy = false;
+    entry.unhealthyUntil = now + config.routeProviderCooldownSeconds * 1000;
+  }
+
+  return `${provider.name}: ${message}`;
+}
+
+function isAvailable(provider: RouteProvider, now: number): boolean {
+  const entry = health.get(provider.name)!;
+  return entry.healthy || (entry.unhealthyUntil !== null && now >= entry.unhealthyUntil);
+}
+
+/**
+ * Current health of every configured provider, in priority order
+ */
+export function getRouteProviderHealth(config: Config): RouteProviderHealth[] {
+  return getRouteProviders(config).map(provider => ({ ...health.get(provider.name)! }));
+}
+
+/**
+ * Get a route from the configured providers.
+ * Healthy providers (and unhealthy ones whose cooldown has passed) are tried in priority order;
+ * if none are available, all of them are tried. With ROUTE_SELECTION=first the first route wins,
+ * with ROUTE_SELECTION=best every available provider is asked and the highest `toAmountMin` wins.
+ */
+export async function findRoute(config: Config, request: RouteRequest): Promise<Route> {
+  const all = getRouteProviders(config);
+  const now = Date.now();
+  const available = all.filter(provider => isAvailable(provider, now));
+  const candidates = available.length > 0 ? available : all;
+  const errors: string[] = [];
+
+  if (config.routeSelection === 'best') {
+    const settled = await Promise.allSettled(candidates.map(provider => provider.getRoute(request)));
+    const routes: Route[] = [];
+
+    settled.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        recordSuccess(candidates[i]);
+        routes.push(result.value);
+      } else {
+        errors.push(recordFailure(config, candidates[i], result.reason));
+      }
+    });
+
+    // Real routes beat test routes, then the best guaranteed output wins (priority breaks ties)
+    const best = routes.reduce<Route | null>((current, route) => {
+      if (!current) return route;
+      if (current.testOnly !== route.testOnly) return current.testOnly ? route : current;
+      return BigInt(route.toAmountMin ?? 0) > BigInt(current.toAmountMin ?? 0) ? route : current;
+    }, null);
+
+    if (best) return best;
+  } else {
+    for (const provider of candidates) {
+      try {
+        const route = await provider.getRoute(request);
+        recordSuccess(provider);
+        return route;
+      } catch (error) {
+        errors.push(recordFailure(config, provider, error));
+      }
+    }
+  }
+
+  throw new Error(`No route provider returned a route (${errors.join('; ')})`);
+}
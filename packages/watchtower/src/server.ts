@@ -1,16 +1,58 @@
 import 'dotenv/config';
-import express from 'express';
+import express, { type NextFunction, type Request, type RequestHandler, type Response } from 'express';
 import cors from 'cors';
 import cron from 'node-cron';
-import { loadConfig, createClients, LazarusSourceABI } from './config.js';
-import { getHeartbeatStore } from './database.js';
+import { randomUUID } from 'crypto';
+import { loadConfig, createClients, type AdminRole, type SourceClients } from './config.js';
+import {
+  openHeartbeatStore,
+  latestLiveness,
+  OPEN_BRIDGE_STATUSES,
+  PENDING_HEARTBEAT_SIGNATURE,
+  type BridgeStatus,
+  type DeliveryStatus,
+  type PendingLiquidationStatus,
+  type LiquidationJobState,
+} from './database.js';
 import { verifyYellowSignature, type HeartbeatMessage } from './yellowSignature.js';
-import { runLiquidationCheck } from './liquidator.js';
+import { runLiquidationCheck, resumeLiquidationJobs } from './liquidator.js';
+import { runSettlementCheck, resumeSettlements } from './settlement.js';
+import { runDestinationCheck, getPendingBridges } from './destinationMonitor.js';
+import { requireRole } from './auth.js';
+import { runIndexer } from './indexer.js';
+import { getRouteProviderHealth } from './routes.js';
+import { createLogger, withLogContext, type LogFields } from './logger.js';
+import { getReadinessReport, recordTaskSuccess } from './health.js';
+import { getLeaderStatus, isLeader, LeadershipLostError, startLeaderElection, stopLeaderElection } from './leader.js';
+import { heartbeatsTotal, renderMetrics } from './metrics.js';
+import { cancelGracePeriod, verifyGuardianUpdate, verifyGuardianVeto } from './gracePeriod.js';
+import {
+  generateWebhookSecret,
+  processNotificationDeliveries,
+  runWarningCheck,
+  validateChannelTarget,
+  verifySubscription,
+  type SubscriptionAction,
+} from './notifications.js';
+import {
+  MemoryRateLimitStore,
+  DatabaseRateLimitStore,
+  RateLimiter,
+  applyRateLimit,
+  rateLimitByIp,
+} from './rateLimit.js';
+import {
+  getCachedRegistration,
+  getRegistration,
+  runRegistrationReconciliation,
+  type RegistrationStatus,
+} from './registration.js';
 import type { Address } from 'viem';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
 
+const log = createLogger('server');
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -23,22 +65,145 @@ if (!fs.existsSync(dataDir)) {
 
 // Load configuration
 const config = loadConfig();
-const { publicClient, walletClient } = createClients(config);
-const store = getHeartbeatStore();
+const clients = createClients(config);
+const store = await openHeartbeatStore({
+  backend: config.storageBackend,
+  databaseUrl: config.databaseUrl,
+  poolSize: config.databasePoolSize,
+  autoMigrate: config.autoMigrate,
+  legacyChainId: config.sources[0].chainId,
+});
+const defaultChainId = config.sources[0].chainId;
+
+/**
+ * Resolve the source chain a request refers to.
+ * Falls back to the first configured source when none is given, returns null for unknown chains.
+ */
+function resolveChainId(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return defaultChainId;
+  const chainId = Number(value);
+  return clients.has(chainId) ? chainId : null;
+}
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+/**
+ * A uint256 field of a signed message, sent as a decimal string or a safe integer.
+ * Returns null for anything else, so malformed input is rejected before it reaches BigInt.
+ */
+function parseUint256(value: unknown): bigint | null {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^\d{1,78}$/.test(value)) {
+    const parsed = BigInt(value);
+    return parsed <= MAX_UINT256 ? parsed : null;
+  }
+  return null;
+}
 
 // Create Express app
 const app = express();
 
+if (config.trustProxy !== undefined) {
+  app.set('trust proxy', /^\d+$/.test(config.trustProxy) ? parseInt(config.trustProxy) : config.trustProxy);
+}
+
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: config.maxBodyBytes }));
+
+// Every request gets a correlation id, taken from X-Request-Id when the caller (or a proxy) sends a sane one
+app.use((req, res, next) => {
+  const presented = req.get('x-request-id');
+  const requestId = presented && /^[\w.:-]{1,128}$/.test(presented) ? presented : randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  withLogContext({ requestId }, next);
+});
+
+// Heartbeat abuse protection
+const rateLimitStore = config.rateLimitBackend === 'database' ? new DatabaseRateLimitStore() : new MemoryRateLimitStore();
+const rateLimitWindowMs = config.rateLimitWindowSeconds * 1000;
+const heartbeatIpLimiter = new RateLimiter(rateLimitStore, 'heartbeat-ip', config.heartbeatIpLimit, rateLimitWindowMs);
+const heartbeatAddressLimiter = new RateLimiter(rateLimitStore, 'heartbeat-address', config.heartbeatAddressLimit, rateLimitWindowMs);
+const notificationIpLimiter = new RateLimiter(rateLimitStore, 'notification-ip', config.heartbeatIpLimit, rateLimitWindowMs);
+const adminIpLimiter = new RateLimiter(rateLimitStore, 'admin-ip', config.adminIpLimit, rateLimitWindowMs);
+
+const adminRateLimit = rateLimitByIp(adminIpLimiter, config.adminIpLimit);
 
 /**
- * Health check endpoint
+ * Admin endpoints are limited per IP before authentication, so guessing keys or flooding the audit log is slow
+ */
+function adminOnly(role: AdminRole): RequestHandler {
+  const authorize = requireRole(config, role);
+  return (req, res, next) => adminRateLimit(req, res, () => authorize(req, res, next));
+}
+
+const viewerOnly = adminOnly('viewer');
+const operatorOnly = adminOnly('operator');
+
+/**
+ * Count a heartbeat turned away before it was recorded
+ */
+function countRejectedHeartbeat(reason: string): void {
+  heartbeatsTotal.inc({ result: 'rejected', reason });
+}
+
+/**
+ * Answer a heartbeat from a user who can't be protected, returns false if the user is live
+ */
+function rejectInactiveUser(res: Response, status: RegistrationStatus): boolean {
+  if (!status.registered) {
+    countRejectedHeartbeat('not_registered');
+    res.status(403).json({
+      error: 'Address is not registered on LazarusSource',
+      code: 'NOT_REGISTERED',
+    });
+    return true;
+  }
+  if (status.dead) {
+    countRejectedHeartbeat('user_dead');
+    res.status(410).json({
+      error: 'Address has already been declared dead on LazarusSource',
+      code: 'USER_DEAD',
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Health check endpoint, kept for existing probes. Same as /health/live.
  */
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+/**
+ * GET /health/live
+ * The process is up and serving requests. Nothing external is checked.
+ */
+app.get('/health/live', (_req, res) => {
+  res.json({ status: 'ok', uptimeSeconds: Math.floor(process.uptime()), timestamp: new Date().toISOString() });
+});
+
+/**
+ * GET /health/ready
+ * RPCs, database, signer balance and address, the leader, scheduled task ages and LI.FI, each with its own status.
+ * Answers 503 when any check fails, `degraded` checks (destination RPC, LI.FI) still answer 200.
+ */
+app.get('/health/ready', async (_req, res) => {
+  const report = await getReadinessReport(clients, config);
+  res.status(report.status === 'fail' ? 503 : 200).json(report);
+});
+
+/**
+ * GET /metrics
+ * Prometheus metrics. Not authenticated, like /health, so keep it off the public internet.
+ */
+app.get('/metrics', async (_req, res) => {
+  res.type('text/plain; version=0.0.4').send(await renderMetrics());
+});
+
 /**
  * POST /heartbeat
  * Accept a signed heartbeat message from a user
@@ -46,16 +211,19 @@ app.get('/health', (_req, res) => {
  * Body:
  * {
  *   "address": "0x...",
+ *   "chainId": 11155111, // optional, defaults to the first configured source chain
  *   "message": { "message": "I am alive", "timestamp": "...", "nonce": "..." },
  *   "signature": "0x..."
  * }
  */
-app.post('/heartbeat', async (req, res) => {
+app.post('/heartbeat', rateLimitByIp(heartbeatIpLimiter, config.heartbeatIpLimit, () => countRejectedHeartbeat('ip_rate_limited')), async (req, res) => {
   try {
     const { address, message, signature } = req.body;
+    const chainId = resolveChainId(req.body.chainId);
 
     // Validate request body
     if (!address || !message || !signature) {
+      countRejectedHeartbeat('missing_fields');
       return res.status(400).json({
         error: 'Missing required fields: address, message, signature',
       });
@@ -63,64 +231,110 @@ app.post('/heartbeat', async (req, res) => {
 
     // Validate address format
     if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      countRejectedHeartbeat('invalid_address');
       return res.status(400).json({
         error: 'Invalid address format',
       });
     }
 
+    if (chainId === null) {
+      countRejectedHeartbeat('unsupported_chain');
+      return res.status(400).json({
+        error: 'Unsupported chainId',
+      });
+    }
+
+    // Known unregistered or dead addresses are turned away before any signature recovery or RPC call
+    const cachedRegistration = getCachedRegistration(config, chainId, address);
+    if (cachedRegistration && rejectInactiveUser(res, cachedRegistration)) {
+      return;
+    }
+
     // Parse message
+    const timestamp = parseUint256(message.timestamp);
+    const nonce = parseUint256(message.nonce);
+    if (timestamp === null || nonce === null) {
+      countRejectedHeartbeat('invalid_message');
+      return res.status(400).json({
+        error: 'message.timestamp and message.nonce must be unsigned integers',
+      });
+    }
+
     const heartbeatMessage: HeartbeatMessage = {
       message: message.message || 'I am alive',
-      timestamp: BigInt(message.timestamp),
-      nonce: BigInt(message.nonce),
+      timestamp,
+      nonce,
     };
 
     // Verify the signature
     const verificationResult = await verifyYellowSignature(
       heartbeatMessage,
       signature as `0x${string}`,
-      address as Address
+      address as Address,
+      chainId
     );
 
+    if (verificationResult.code === 'NONCE_REPLAYED') {
+      countRejectedHeartbeat('replay');
+      return res.status(409).json({
+        error: 'Heartbeat replay rejected',
+        code: verificationResult.code,
+        details: verificationResult.error,
+      });
+    }
+
     if (!verificationResult.valid) {
+      countRejectedHeartbeat('invalid_signature');
       return res.status(401).json({
         error: 'Invalid signature',
+        code: verificationResult.code,
         details: verificationResult.error,
       });
     }
 
-    // Record the heartbeat in local database
-    // We fetch the inactivity period from the record or chain if not provided
-    let inactivityPeriod = 604800; // Default 7 days
-    const existingRecord = store.getHeartbeat(address);
-    if (existingRecord) {
-      inactivityPeriod = existingRecord.inactivityPeriod;
-    } else {
-      // Fetch from chain once if new user
-      try {
-        const [, , , period] = await publicClient.readContract({
-          address: config.lazarusSourceAddress,
-          abi: LazarusSourceABI,
-          functionName: 'getUserInfo',
-          args: [address as Address],
-        });
-        inactivityPeriod = Number(period);
-      } catch (e) {
-        console.warn(`Could not fetch period for ${address}, using default`);
-      }
+    // Counted only after the signature checks out, so forged requests can't use up a real user's quota.
+    // The nonce is handed back on a 429 or 503, so the user's retry isn't rejected as a replay.
+    const addressLimit = await heartbeatAddressLimiter.consume(address.toLowerCase());
+    if (!applyRateLimit(res, addressLimit, config.heartbeatAddressLimit, 'Too many heartbeats for this address')) {
+      await store.releaseNonce(chainId, address, nonce.toString());
+      countRejectedHeartbeat('address_rate_limited');
+      return;
     }
 
-    const record = store.recordHeartbeat(address, signature, inactivityPeriod);
+    // Only registered, living users are tracked. The inactivity period always comes from the chain.
+    let registration: RegistrationStatus;
+    try {
+      registration = await getRegistration(clients.get(chainId)!, config, address as Address);
+    } catch (error) {
+      log.warn('Could not verify registration', { chainId, address, error });
+      await store.releaseNonce(chainId, address, nonce.toString());
+      countRejectedHeartbeat('registration_unavailable');
+      return res.status(503).json({
+        error: 'Could not verify registration on LazarusSource, try again later',
+        code: 'REGISTRATION_UNAVAILABLE',
+      });
+    }
+
+    if (rejectInactiveUser(res, registration)) {
+      return;
+    }
 
-    console.log(`[${new Date().toISOString()}] Heartbeat recorded for ${address}`);
+    const record = await store.recordHeartbeat(chainId, address, signature, registration.inactivityPeriod);
+    const cancelled = await cancelGracePeriod(chainId, address, 'heartbeat', address);
+
+    heartbeatsTotal.inc({ result: 'accepted', reason: 'none' });
+    log.info('Heartbeat recorded', { chainId, address });
 
     return res.json({
       success: true,
+      chainId,
       lastSeen: record.lastSeen,
+      pendingLiquidationCancelled: cancelled !== null,
       message: 'Heartbeat recorded successfully',
     });
   } catch (error) {
-    console.error('Error processing heartbeat:', error);
+    countRejectedHeartbeat('error');
+    log.error('Error processing heartbeat', { error });
     return res.status(500).json({
       error: 'Internal server error',
       details: error instanceof Error ? error.message : 'Unknown error',
@@ -129,11 +343,12 @@ app.post('/heartbeat', async (req, res) => {
 });
 
 /**
- * GET /status/:address
+ * GET /status/:address?chainId=...
  * Get the heartbeat status for a specific address
  */
-app.get('/status/:address', (req, res) => {
+app.get('/status/:address', async (req, res) => {
   const { address } = req.params;
+  const chainId = resolveChainId(req.query.chainId);
 
   if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
     return res.status(400).json({
@@ -141,7 +356,13 @@ app.get('/status/:address', (req, res) => {
     });
   }
 
-  const record = store.getHeartbeat(address);
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
+  }
+
+  const record = await store.getHeartbeat(chainId, address);
 
   if (!record) {
     return res.status(404).json({
@@ -150,52 +371,451 @@ app.get('/status/:address', (req, res) => {
   }
 
   const now = Date.now();
-  const deadline = record.lastSeen + (record.inactivityPeriod * 1000);
+  const { lastSeen, source } = latestLiveness(record);
+  const deadline = lastSeen + (record.inactivityPeriod * 1000);
   const timeRemaining = Math.max(0, deadline - now);
 
   return res.json({
     address: record.userAddress,
-    lastSeen: record.lastSeen,
-    lastSeenISO: new Date(record.lastSeen).toISOString(),
+    chainId: record.chainId,
+    lastSeen,
+    lastSeenISO: new Date(lastSeen).toISOString(),
+    lastSeenSource: source,
+    // Placeholder rows from a Registered event hold no off-chain heartbeat
+    offchainLastSeen: record.signature === PENDING_HEARTBEAT_SIGNATURE ? null : record.lastSeen,
+    onchainLastSeen: record.onchainLastSeen,
     inactivityPeriod: record.inactivityPeriod,
     deadline,
     deadlineISO: new Date(deadline).toISOString(),
     timeRemainingMs: timeRemaining,
     timeRemainingDays: timeRemaining / (24 * 60 * 60 * 1000),
     isAtRisk: timeRemaining < (record.inactivityPeriod * 1000) / 3, // At risk if less than 1/3 time left
+    pendingLiquidation: await store.getOpenPendingLiquidation(chainId, address),
   });
 });
 
 /**
- * GET /users
- * List all tracked users (admin endpoint)
+ * GET /settlements/:address?chainId=...
+ * List the pingFor transactions sent to settle this address's heartbeats on-chain
+ */
+app.get('/settlements/:address', async (req, res) => {
+  const { address } = req.params;
+  const chainId = resolveChainId(req.query.chainId);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return res.status(400).json({
+      error: 'Invalid address format',
+    });
+  }
+
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
+  }
+
+  const settlements = await store.getUserSettlements(chainId, address);
+  return res.json({
+    address: address.toLowerCase(),
+    chainId,
+    count: settlements.length,
+    settlements,
+  });
+});
+
+/**
+ * Shared handler for signed notification (un)subscriptions
+ */
+function handleSubscription(action: SubscriptionAction) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { address, channelType, target, timestamp, nonce, signature } = req.body;
+      const chainId = resolveChainId(req.body.chainId);
+
+      if (!address || !channelType || !target || timestamp === undefined || nonce === undefined || !signature) {
+        return res.status(400).json({
+          error: 'Missing required fields: address, channelType, target, timestamp, nonce, signature',
+        });
+      }
+
+      if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        return res.status(400).json({
+          error: 'Invalid address format',
+        });
+      }
+
+      if (chainId === null) {
+        return res.status(400).json({
+          error: 'Unsupported chainId',
+        });
+      }
+
+      const signedAt = parseUint256(timestamp);
+      const signedNonce = parseUint256(nonce);
+      if (signedAt === null || signedNonce === null) {
+        return res.status(400).json({
+          error: 'timestamp and nonce must be unsigned integers',
+        });
+      }
+
+      const targetError = action === 'subscribe' ? validateChannelTarget(config, channelType, target) : null;
+      if (targetError) {
+        return res.status(400).json({
+          error: targetError,
+        });
+      }
+
+      const verificationResult = await verifySubscription(
+        { action, channelType, target, timestamp: signedAt, nonce: signedNonce },
+        signature as `0x${string}`,
+        address as Address,
+        chainId
+      );
+
+      if (!verificationResult.valid) {
+        return res.status(verificationResult.code === 'NONCE_REPLAYED' ? 409 : 401).json({
+          error: 'Invalid signature',
+          code: verificationResult.code,
+          details: verificationResult.error,
+        });
+      }
+
+      if (action === 'unsubscribe') {
+        const removed = await store.removeNotificationChannel(chainId, address, channelType, target);
+        return res.status(removed ? 200 : 404).json(
+          removed ? { success: true } : { error: 'No such notification channel' }
+        );
+      }
+
+      const secret = channelType === 'webhook' ? generateWebhookSecret() : null;
+      const channel = await store.addNotificationChannel(chainId, address, channelType, target, secret);
+
+      return res.status(201).json({
+        id: channel.id,
+        chainId: channel.chainId,
+        address: channel.address,
+        channelType: channel.channelType,
+        target: channel.target,
+        // Only shown to the subscriber, webhook payloads are signed with it
+        secret: channel.secret,
+      });
+    } catch (error) {
+      log.error('Error processing notification subscription', { action, error });
+      return res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+}
+
+/**
+ * POST /notifications/channels
+ * Subscribe a webhook or email channel, signed by the address being notified
+ */
+app.post('/notifications/channels', rateLimitByIp(notificationIpLimiter, config.heartbeatIpLimit), handleSubscription('subscribe'));
+
+/**
+ * DELETE /notifications/channels
+ * Unsubscribe a channel, signed the same way with action "unsubscribe"
+ */
+app.delete('/notifications/channels', rateLimitByIp(notificationIpLimiter, config.heartbeatIpLimit), handleSubscription('unsubscribe'));
+
+/**
+ * GET /notifications/deliveries?address=0x...&status=failed&limit=100
+ * The notification delivery log, newest first (admin endpoint)
  */
-app.get('/users', (_req, res) => {
-  const users = store.getAllUsers();
+app.get('/notifications/deliveries', viewerOnly, async (req, res) => {
+  const statusParam = typeof req.query.status === 'string' ? req.query.status : '';
+  const limit = Math.min(parseInt(String(req.query.limit ?? '100')) || 100, 1000);
+
+  const deliveries = await store.getNotificationDeliveries({
+    address: req.query.address ? String(req.query.address) : undefined,
+    status: statusParam ? (statusParam.split(',') as DeliveryStatus[]) : undefined,
+    limit,
+  });
+
+  return res.json({
+    count: deliveries.length,
+    deliveries,
+  });
+});
+
+/**
+ * POST /guardians
+ * Add or remove a guardian who may veto the sender's pending liquidation, signed by the user
+ */
+app.post('/guardians', rateLimitByIp(notificationIpLimiter, config.heartbeatIpLimit), async (req, res) => {
+  try {
+    const { address, action, guardian, timestamp, nonce, signature } = req.body;
+    const chainId = resolveChainId(req.body.chainId);
+
+    if (!address || !guardian || timestamp === undefined || nonce === undefined || !signature) {
+      return res.status(400).json({
+        error: 'Missing required fields: address, action, guardian, timestamp, nonce, signature',
+      });
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address) || !/^0x[a-fA-F0-9]{40}$/.test(guardian)) {
+      return res.status(400).json({
+        error: 'Invalid address format',
+      });
+    }
+
+    if (action !== 'add' && action !== 'remove') {
+      return res.status(400).json({
+        error: 'action must be add or remove',
+      });
+    }
+
+    if (chainId === null) {
+      return res.status(400).json({
+        error: 'Unsupported chainId',
+      });
+    }
+
+    const signedAt = parseUint256(timestamp);
+    const signedNonce = parseUint256(nonce);
+    if (signedAt === null || signedNonce === null) {
+      return res.status(400).json({
+        error: 'timestamp and nonce must be unsigned integers',
+      });
+    }
+
+    const verificationResult = await verifyGuardianUpdate(
+      { action, guardian: guardian as Address, timestamp: signedAt, nonce: signedNonce },
+      signature as `0x${string}`,
+      address as Address,
+      chainId
+    );
+
+    if (!verificationResult.valid) {
+      return res.status(verificationResult.code === 'NONCE_REPLAYED' ? 409 : 401).json({
+        error: 'Invalid signature',
+        code: verificationResult.code,
+        details: verificationResult.error,
+      });
+    }
+
+    if (action === 'add') {
+      await store.addGuardian(chainId, address, guardian);
+    } else {
+      await store.removeGuardian(chainId, address, guardian);
+    }
+
+    return res.json({
+      address: address.toLowerCase(),
+      chainId,
+      guardians: (await store.getGuardians(chainId, address)).map(g => g.guardianAddress),
+    });
+  } catch (error) {
+    log.error('Error updating guardians', { error });
+    return res.status(500).json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /guardians/:address?chainId=...
+ * List the guardians a user has designated
+ */
+app.get('/guardians/:address', async (req, res) => {
+  const { address } = req.params;
+  const chainId = resolveChainId(req.query.chainId);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return res.status(400).json({
+      error: 'Invalid address format',
+    });
+  }
+
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
+  }
+
+  return res.json({
+    address: address.toLowerCase(),
+    chainId,
+    guardians: (await store.getGuardians(chainId, address)).map(g => g.guardianAddress),
+  });
+});
+
+/**
+ * POST /liquidations/veto
+ * Cancel a user's pending liquidation, signed by one of their guardians
+ */
+app.post('/liquidations/veto', rateLimitByIp(notificationIpLimiter, config.heartbeatIpLimit), async (req, res) => {
+  try {
+    const { guardian, user, timestamp, nonce, signature } = req.body;
+    const chainId = resolveChainId(req.body.chainId);
+
+    if (!guardian || !user || timestamp === undefined || nonce === undefined || !signature) {
+      return res.status(400).json({
+        error: 'Missing required fields: guardian, user, timestamp, nonce, signature',
+      });
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(guardian) || !/^0x[a-fA-F0-9]{40}$/.test(user)) {
+      return res.status(400).json({
+        error: 'Invalid address format',
+      });
+    }
+
+    if (chainId === null) {
+      return res.status(400).json({
+        error: 'Unsupported chainId',
+      });
+    }
+
+    const signedAt = parseUint256(timestamp);
+    const signedNonce = parseUint256(nonce);
+    if (signedAt === null || signedNonce === null) {
+      return res.status(400).json({
+        error: 'timestamp and nonce must be unsigned integers',
+      });
+    }
+
+    const isGuardian = (await store.getGuardians(chainId, user)).some(g => g.guardianAddress === guardian.toLowerCase());
+    if (!isGuardian) {
+      return res.status(403).json({
+        error: 'Address is not a guardian of this user',
+        code: 'NOT_GUARDIAN',
+      });
+    }
+
+    const verificationResult = await verifyGuardianVeto(
+      { user: user as Address, timestamp: signedAt, nonce: signedNonce },
+      signature as `0x${string}`,
+      guardian as Address,
+      chainId
+    );
+
+    if (!verificationResult.valid) {
+      return res.status(verificationResult.code === 'NONCE_REPLAYED' ? 409 : 401).json({
+        error: 'Invalid signature',
+        code: verificationResult.code,
+        details: verificationResult.error,
+      });
+    }
+
+    const cancelled = await cancelGracePeriod(chainId, user, 'veto', guardian);
+    if (!cancelled) {
+      return res.status(404).json({
+        error: 'No pending liquidation for this user',
+      });
+    }
+
+    return res.json({
+      success: true,
+      pendingLiquidation: cancelled,
+    });
+  } catch (error) {
+    log.error('Error processing veto', { error });
+    return res.status(500).json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /liquidations/pending?chainId=...&status=pending,cancelled
+ * Grace windows, by default the open ones (admin endpoint)
+ */
+app.get('/liquidations/pending', viewerOnly, async (req, res) => {
+  const chainId = req.query.chainId ? resolveChainId(req.query.chainId) : undefined;
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
+  }
+
+  const statusParam = typeof req.query.status === 'string' ? req.query.status : '';
+  const statuses = statusParam
+    ? (statusParam.split(',') as PendingLiquidationStatus[])
+    : ['pending'] as PendingLiquidationStatus[];
+
+  const pending = await store.getPendingLiquidations(statuses, chainId);
+  return res.json({
+    count: pending.length,
+    pendingLiquidations: pending,
+  });
+});
+
+/**
+ * GET /users?chainId=...
+ * List all tracked users, across all source chains unless one is given (admin endpoint)
+ */
+app.get('/users', viewerOnly, async (req, res) => {
+  const chainId = req.query.chainId ? resolveChainId(req.query.chainId) : undefined;
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
+  }
+
+  const users = await store.getAllUsers(chainId);
   return res.json({
     count: users.length,
-    users: users.map(u => ({
-      address: u.userAddress,
-      lastSeen: u.lastSeen,
-      lastSeenISO: new Date(u.lastSeen).toISOString(),
-    })),
+    users: users.map(u => {
+      const { lastSeen, source } = latestLiveness(u);
+      return {
+        chainId: u.chainId,
+        address: u.userAddress,
+        lastSeen,
+        lastSeenISO: new Date(lastSeen).toISOString(),
+        lastSeenSource: source,
+      };
+    }),
   });
 });
 
 /**
- * POST /liquidation/check
- * Manually trigger a liquidation check (admin endpoint)
+ * POST /liquidation/check?chainId=...
+ * Manually trigger a liquidation check on one or all source chains (admin endpoint).
+ * Only the leader sends liquidations, other replicas answer 409 with the current leader.
  */
-app.post('/liquidation/check', async (_req, res) => {
+app.post('/liquidation/check', operatorOnly, async (req, res) => {
   try {
-    console.log('Manual liquidation check triggered');
-    const results = await runLiquidationCheck(publicClient, walletClient, config);
+    const chainId = req.query.chainId ? resolveChainId(req.query.chainId) : undefined;
+    if (chainId === null) {
+      return res.status(400).json({
+        error: 'Unsupported chainId',
+      });
+    }
+
+    if (!isLeader()) {
+      const { leader } = await getLeaderStatus(config);
+      return res.status(409).json({
+        error: 'Not the leader',
+        code: 'NOT_LEADER',
+        leader,
+      });
+    }
+
+    log.info('Manual liquidation check triggered', { actor: res.locals.admin.actor });
+    const results = [];
+    for (const sourceClients of clients.values()) {
+      if (chainId !== undefined && sourceClients.source.chainId !== chainId) continue;
+      results.push(...await runLiquidationCheck(sourceClients, config));
+    }
     return res.json({
       success: true,
       results,
     });
   } catch (error) {
-    console.error('Error during manual liquidation check:', error);
+    if (error instanceof LeadershipLostError) {
+      return res.status(409).json({
+        error: 'Lost leadership during the check',
+        code: 'NOT_LEADER',
+        leader: error.leader,
+      });
+    }
+    log.error('Error during manual liquidation check', { error });
     return res.status(500).json({
       error: 'Liquidation check failed',
       details: error instanceof Error ? error.message : 'Unknown error',
@@ -203,74 +823,257 @@ app.post('/liquidation/check', async (_req, res) => {
   }
 });
 
-// Schedule liquidation check every hour
-cron.schedule('0 * * * *', async () => {
-  try {
-    await runLiquidationCheck(publicClient, walletClient, config);
-  } catch (error) {
-    console.error('Scheduled liquidation check failed:', error);
+/**
+ * GET /liquidation/providers
+ * Route providers in priority order with their health (admin endpoint)
+ */
+app.get('/liquidation/providers', viewerOnly, (_req, res) => {
+  return res.json({
+    selection: config.routeSelection,
+    providers: getRouteProviderHealth(config),
+  });
+});
+
+/**
+ * GET /liquidation/jobs
+ * List liquidation jobs, optionally filtered by ?state=queued,failed and ?chainId= (admin endpoint)
+ */
+app.get('/liquidation/jobs', viewerOnly, async (req, res) => {
+  const chainId = req.query.chainId ? resolveChainId(req.query.chainId) : undefined;
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
   }
+
+  const stateParam = typeof req.query.state === 'string' ? req.query.state : '';
+  const states = stateParam
+    ? (stateParam.split(',') as LiquidationJobState[])
+    : ['queued', 'quoting', 'simulated', 'submitting', 'submitted', 'confirmed', 'failed', 'deferred', 'abandoned'] as LiquidationJobState[];
+
+  const jobs = await store.getLiquidationJobs(states, chainId);
+  return res.json({
+    count: jobs.length,
+    jobs,
+  });
 });
 
-// Start the server
-const PORT = config.port;
-app.listen(PORT, () => {
-  console.log(`🗼 Watchtower server running on port ${PORT}`);
-  console.log(`📡 Listening for heartbeats...`);
-  console.log(`⏰ Liquidation checks scheduled every hour`);
-
-  // Start watching for events
-  console.log(`👀 Watching for Registered and InactivityPeriodUpdated events...`);
-  
-  publicClient.watchContractEvent({
-    address: config.lazarusSourceAddress,
-    abi: LazarusSourceABI,
-    eventName: 'Registered',
-    onLogs: (logs) => {
-      for (const log of logs) {
-        const { user, beneficiary, inactivityPeriod } = log.args;
-        if (user && inactivityPeriod) {
-          console.log(`[Event] User ${user} registered with period ${inactivityPeriod}s`);
-          // Note: we don't have a signature yet, so we use a dummy one or wait for first heartbeat
-          // Better: just ensure recordHeartbeat is called eventually.
-          // For now, if user is new, we record a "zero" heartbeat just to start tracking
-          const existing = store.getHeartbeat(user);
-          if (!existing) {
-            store.recordHeartbeat(user, '0x-pending-first-heartbeat', Number(inactivityPeriod));
-          }
-        }
+/**
+ * GET /bridges
+ * List tracked bridges, by default the unconfirmed ones. Filter with ?status=stuck,escalated
+ */
+app.get('/bridges', viewerOnly, async (req, res) => {
+  const statusParam = typeof req.query.status === 'string' ? req.query.status : '';
+  const statuses = statusParam
+    ? (statusParam.split(',') as BridgeStatus[])
+    : OPEN_BRIDGE_STATUSES;
+
+  const bridges = await getPendingBridges(statuses);
+  return res.json({
+    count: bridges.length,
+    bridges,
+  });
+});
+
+/**
+ * GET /bridges/:id
+ * Get a single tracked bridge
+ */
+app.get('/bridges/:id', viewerOnly, async (req, res) => {
+  const bridge = await store.getPendingBridge(String(req.params.id));
+
+  if (!bridge) {
+    return res.status(404).json({
+      error: 'No bridge found with this id',
+    });
+  }
+
+  return res.json(bridge);
+});
+
+/**
+ * GET /events?chainId=11155111&user=0x...&event=Ping&limit=100
+ * Indexed LazarusSource events, newest first (admin endpoint)
+ */
+app.get('/events', viewerOnly, async (req, res) => {
+  const chainId = resolveChainId(req.query.chainId);
+  if (chainId === null) {
+    return res.status(400).json({
+      error: 'Unsupported chainId',
+    });
+  }
+
+  const limit = Math.min(parseInt(String(req.query.limit ?? '100')) || 100, 1000);
+  const events = await store.getChainEvents(chainId, {
+    userAddress: req.query.user ? String(req.query.user) : undefined,
+    eventName: req.query.event ? String(req.query.event) : undefined,
+    limit,
+  });
+
+  return res.json({
+    chainId,
+    count: events.length,
+    events,
+  });
+});
+
+/**
+ * GET /admin/audit?limit=100
+ * Recent admin actions, allowed and denied (admin endpoint)
+ */
+app.get('/admin/audit', operatorOnly, async (req, res) => {
+  const limit = Math.min(parseInt(String(req.query.limit ?? '100')) || 100, 1000);
+  const entries = await store.getAuditLog(limit);
+  return res.json({
+    count: entries.length,
+    entries,
+  });
+});
+
+// Body parser errors (oversized or malformed JSON) get a JSON answer like every other error
+app.use((err: Error & { type?: string }, _req: Request, res: Response, next: NextFunction) => {
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({ error: 'Request body too large' });
+  }
+  if (err.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Malformed JSON body' });
+  }
+  return next(err);
+});
+
+/**
+ * Run a scheduled or startup task under its own correlation id. Failures are logged, never thrown.
+ * Successful runs are what the readiness check's task ages are measured from.
+ */
+async function runTask(task: string, fields: LogFields & { chainId?: number }, run: () => unknown): Promise<void> {
+  await withLogContext({ task, runId: randomUUID(), ...fields }, async () => {
+    try {
+      await run();
+      recordTaskSuccess(task, fields.chainId);
+    } catch (error) {
+      if (error instanceof LeadershipLostError) {
+        log.warn('Task stopped, lost leadership', { leader: error.leader });
+      } else {
+        log.error('Task failed', { error });
       }
     }
   });
+}
 
-  publicClient.watchContractEvent({
-    address: config.lazarusSourceAddress,
-    abi: LazarusSourceABI,
-    eventName: 'InactivityPeriodUpdated',
-    onLogs: (logs) => {
-      for (const log of logs) {
-        const { user, newPeriod } = log.args;
-        if (user && newPeriod) {
-          console.log(`[Event] User ${user} updated period to ${newPeriod}s`);
-          const existing = store.getHeartbeat(user);
-          if (existing) {
-            store.recordHeartbeat(user, existing.signature, Number(newPeriod));
-          }
-        }
-      }
+// Set while a newly elected leader resumes in-flight work, scheduled tasks wait for it
+let resuming: Promise<void> | null = null;
+
+/**
+ * Schedule a task that only the leader runs. Every replica keeps serving heartbeats,
+ * but only one of them indexes, liquidates, settles and notifies.
+ * Runs are skipped until the leader has resumed what was left in flight.
+ * The lease is checked again before every transaction the task sends, and before every
+ * source chain, so a run that outlives the lease stops instead of racing the new leader.
+ */
+function scheduleLeaderTask(expression: string, run: () => Promise<void>): void {
+  cron.schedule(expression, async () => {
+    if (!isLeader() || resuming) return;
+    await run();
+  });
+}
+
+/**
+ * Run a leader task for each source chain in turn, skipping the rest once the lease is gone
+ */
+async function runPerChain(task: string, run: (sourceClients: SourceClients) => unknown): Promise<void> {
+  for (const sourceClients of clients.values()) {
+    if (!isLeader()) return;
+    await runTask(task, { chainId: sourceClients.source.chainId }, () => run(sourceClients));
+  }
+}
+
+/**
+ * Pick up whatever the previous leader, or a previous run of this instance, left in flight.
+ * The steps run one after another, chain by chain, and the schedules hold off until all are done.
+ */
+function resumeTasks(): void {
+  const current = (resuming ?? Promise.resolve()).then(async () => {
+    for (const sourceClients of clients.values()) {
+      const chainId = sourceClients.source.chainId;
+
+      // Settle pingFor transactions left waiting for a receipt by a previous run
+      await runTask('resume-settlements', { chainId }, () => resumeSettlements(sourceClients, config));
+
+      // Pick up any liquidation jobs left in flight by a previous run
+      await runTask('resume-liquidations', { chainId }, () => resumeLiquidationJobs(sourceClients, config));
+
+      // Catch up on events emitted while the watchtower was down
+      await runTask('backfill', { chainId }, () => runIndexer(sourceClients, config));
     }
+
+    // A takeover while this ran queued another resume behind it
+    if (resuming === current) resuming = null;
   });
+  resuming = current;
+}
+
+// Index new LazarusSource events every minute
+scheduleLeaderTask('* * * * *', () => runPerChain('indexer', sourceClients => runIndexer(sourceClients, config)));
+
+// Schedule liquidation check every hour
+scheduleLeaderTask('0 * * * *', () => runPerChain('liquidation', sourceClients => runLiquidationCheck(sourceClients, config)));
+
+// Push fresh off-chain heartbeats on-chain every 15 minutes
+scheduleLeaderTask('*/15 * * * *', () => runPerChain('settlement', sourceClients => runSettlementCheck(sourceClients, config)));
+
+// Purge users that are no longer registered on-chain every 6 hours
+scheduleLeaderTask('30 */6 * * *', () =>
+  runPerChain('reconciliation', sourceClients => runRegistrationReconciliation(sourceClients, config))
+);
+
+// Queue pre-expiry warnings every 5 minutes
+scheduleLeaderTask('*/5 * * * *', () => runPerChain('warnings', sourceClients => runWarningCheck(sourceClients.source.chainId, config)));
+
+// Send due notifications and retries every minute
+scheduleLeaderTask('* * * * *', async () => {
+  await runTask('notifications', {}, () => processNotificationDeliveries(config));
+});
+
+// Match vault deposits with pending bridges every 5 minutes
+scheduleLeaderTask('*/5 * * * *', async () => {
+  await runTask('destination', {}, () => runDestinationCheck(config));
+});
+
+// Start the server
+const PORT = config.port;
+app.listen(PORT, () => {
+  log.info('Watchtower server running', {
+    port: PORT,
+    instanceId: config.instanceId,
+    chains: config.sources.map(s => s.chainId),
+    schedules: {
+      indexer: 'every minute',
+      liquidation: 'every hour',
+      settlement: 'every 15 minutes',
+      destination: 'every 5 minutes',
+      reconciliation: 'every 6 hours',
+    },
+    warningThresholds: config.warningThresholds.map(t => t.label),
+    email: config.smtp !== null,
+  });
+  if (!config.smtp) {
+    log.warn('Email notifications disabled, no SMTP_HOST');
+  }
+  if (config.adminApiKeys.length === 0 && config.adminOperators.length === 0) {
+    log.warn('No ADMIN_API_KEYS or ADMIN_OPERATORS configured, admin endpoints are disabled');
+  }
+
+  // Scheduled tasks start once this instance is elected, and resume on every takeover
+  startLeaderElection(config, resumeTasks);
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('Received SIGTERM, shutting down...');
-  store.close();
-  process.exit(0);
+  log.info('Received SIGTERM, shutting down');
+  stopLeaderElection(config).then(() => store.close()).finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
-  console.log('Received SIGINT, shutting down...');
-  store.close();
-  process.exit(0);
+  log.info('Received SIGINT, shutting down');
+  stopLeaderElection(config).then(() => store.close()).finally(() => process.exit(0));
 });
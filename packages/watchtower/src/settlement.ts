@@ -0,0 +1,409 @@
+import { encodeFunctionData, parseEventLogs, TransactionNotFoundError, type Address, type Hex, type PublicClient, type TransactionReceipt } from 'viem';
+import { getHeartbeatStore, PENDING_HEARTBEAT_SIGNATURE, type HeartbeatRecord, type SettlementRecord } from './database.js';
+import { Config, LazarusSourceABI, type SourceDeployment, type SourceClients } from './config.js';
+import {
+  estimateFees,
+  findReceipt,
+  fromSubmittedTransaction,
+  sendManagedTransaction,
+  toSubmittedTransaction,
+  waitForManagedTransaction,
+  withGasBuffer,
+  type FeeSettings,
+  type ManagedTransaction,
+} from './gas.js';
+import { LeadershipLostError } from './leader.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('settlement');
+
+// Source chains with a settlement run or resume in progress
+const runningChains = new Set<number>();
+
+export interface SettlementResult {
+  chainId: number;
+  userAddress: Address;
+  success: boolean;
+  txHash?: `0x${string}`;
+  error?: string;
+}
+
+interface SettlementCandidate {
+  record: HeartbeatRecord;
+  onchainDeadline: number;
+}
+
+/**
+ * Decide whether a user's off-chain heartbeat may be pushed on-chain, and if not, why.
+ * The signed heartbeat has to be both newer than the on-chain ping and still within its own
+ * period, and the on-chain deadline within the safety margin unless `ignoreMargin` is set.
+ */
+async function checkSettlement(
+  publicClient: PublicClient,
+  source: SourceDeployment,
+  config: Config,
+  record: HeartbeatRecord,
+  now: number,
+  ignoreMargin = false
+): Promise<SettlementCandidate | { reason: string }> {
+  if (record.signature === PENDING_HEARTBEAT_SIGNATURE) {
+    return { reason: 'No signed heartbeat stored for this user' };
+  }
+
+  const [registered, , lastPing, inactivityPeriod, dead] = await publicClient.readContract({
+    address: source.lazarusSourceAddress,
+    abi: LazarusSourceABI,
+    functionName: 'getUserInfo',
+    args: [record.userAddress as Address],
+  });
+
+  if (!registered) return { reason: 'User is not registered on-chain' };
+  if (dead) return { reason: 'User is already dead on-chain' };
+
+  const onchainLastPing = Number(lastPing) * 1000;
+  const onchainDeadline = onchainLastPing + Number(inactivityPeriod) * 1000;
+  const offchainDeadline = record.lastSeen + record.inactivityPeriod * 1000;
+
+  if (record.lastSeen <= onchainLastPing) {
+    return { reason: 'The signed heartbeat is not newer than the on-chain ping' };
+  }
+  if (offchainDeadline <= now) {
+    return { reason: `The signed heartbeat expired at ${new Date(offchainDeadline).toISOString()}` };
+  }
+  if (!ignoreMargin && onchainDeadline - now > config.settlementMarginSeconds * 1000) {
+    return { reason: 'The on-chain deadline is not within the settlement margin yet' };
+  }
+
+  return { record, onchainDeadline };
+}
+
+/**
+ * A user whose off-chain heartbeat needs to be pushed on-chain now, null otherwise
+ */
+async function findCandidate(
+  publicClient: PublicClient,
+  source: SourceDeployment,
+  config: Config,
+  record: HeartbeatRecord,
+  now: number
+): Promise<SettlementCandidate | null> {
+  const checked = await checkSettlement(publicClient, source, config, record, now);
+  return 'reason' in checked ? null : checked;
+}
+
+/**
+ * Send pingFor for a user without waiting for the receipt. The settlement is recorded once the
+ * transaction is signed and before it is broadcast, like a liquidation, so a crash or a failed
+ * broadcast leaves a `submitted` settlement for the next run to check against the chain.
+ */
+async function sendPingFor(
+  clients: SourceClients,
+  config: Config,
+  record: HeartbeatRecord,
+  fees: FeeSettings
+): Promise<{ settlementId: string; tx: ManagedTransaction }> {
+  const { source, publicClient, walletClient } = clients;
+  const userAddress = record.userAddress as Address;
+
+  const gas = await publicClient.estimateContractGas({
+    address: source.lazarusSourceAddress,
+    abi: LazarusSourceABI,
+    functionName: 'pingFor',
+    args: [userAddress],
+    account: walletClient.account!,
+  });
+
+  const store = getHeartbeatStore();
+  let settlementId: string | null = null;
+
+  try {
+    const tx = await sendManagedTransaction(clients, config, {
+      to: source.lazarusSourceAddress,
+      data: encodeFunctionData({ abi: LazarusSourceABI, functionName: 'pingFor', args: [userAddress] }),
+      gas: withGasBuffer(gas),
+    }, fees, async signed => {
+      settlementId = (await store.recordSettlement(source.chainId, userAddress, toSubmittedTransaction(signed), record.lastSeen)).id;
+    });
+    return { settlementId: settlementId!, tx };
+  } catch (error) {
+    if (settlementId) {
+      // The broadcast may have reached the node, checkPendingSettlements finds out on the next run
+      await store.updateSettlement(settlementId, 'submitted', error instanceof Error ? error.message : 'Unknown error');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Call pingFor for every user whose signed heartbeat hasn't reached the chain
+ * and whose on-chain deadline is getting close.
+ * Transactions are sent back to back with locally managed nonces, then awaited together.
+ */
+export async function runSettlementCheck(
+  clients: SourceClients,
+  config: Config
+): Promise<SettlementResult[]> {
+  const { source, publicClient } = clients;
+  const chainId = source.chainId;
+
+  if (runningChains.has(chainId)) {
+    log.info('Previous run still in progress, skipping', { chainId });
+    return [];
+  }
+
+  runningChains.add(chainId);
+  try {
+    const store = getHeartbeatStore();
+    const now = Date.now();
+
+    // Users with a settlement still in flight are left alone until it resolves
+    const results = await checkPendingSettlements(clients);
+    const inFlight = new Set((await store.getPendingSettlements(chainId)).map(s => s.userAddress));
+
+    const candidates: SettlementCandidate[] = [];
+    for (const record of await store.getAllUsers(chainId)) {
+      if (inFlight.has(record.userAddress)) continue;
+
+      try {
+        const candidate = await findCandidate(publicClient, source, config, record, now);
+        if (candidate) candidates.push(candidate);
+      } catch (error) {
+        log.error('Error reading on-chain state', { chainId, user: record.userAddress, error });
+      }
+    }
+
+    // Most urgent first, then cap the batch
+    candidates.sort((a, b) => a.onchainDeadline - b.onchainDeadline);
+    const batch = candidates.slice(0, config.settlementBatchSize);
+
+    if (batch.length === 0) {
+      return results;
+    }
+
+    log.info('Settling heartbeats', { chainId, batch: batch.length, due: candidates.length });
+
+    const fees = await estimateFees(publicClient, config);
+
+    const sent: Array<{ settlementId: string; userAddress: Address; tx: ManagedTransaction }> = [];
+
+    for (const { record } of batch) {
+      const userAddress = record.userAddress as Address;
+      try {
+        const { settlementId, tx } = await sendPingFor(clients, config, record, fees);
+        sent.push({ settlementId, userAddress, tx });
+      } catch (error) {
+        // Sent pings are recorded, whoever leads now confirms them. Abort the whole run.
+        if (error instanceof LeadershipLostError) throw error;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        log.error('pingFor failed', { chainId, user: userAddress, error: message });
+        results.push({ chainId, userAddress, success: false, error: message });
+      }
+    }
+
+    for (const { settlementId, userAddress, tx } of sent) {
+      results.push(await confirmSettlement(clients, config, settlementId, userAddress, tx.hashes[0], tx));
+    }
+
+    return results;
+  } finally {
+    runningChains.delete(chainId);
+  }
+}
+
+/**
+ * Record the outcome of a mined pingFor.
+ * The receipt's Ping event is mirrored into the user's on-chain liveness right away,
+ * without waiting for the indexer to reach that block.
+ */
+async function applySettlementReceipt(
+  clients: SourceClients,
+  settlementId: string,
+  userAddress: Address,
+  receipt: TransactionReceipt
+): Promise<SettlementResult> {
+  const { source } = clients;
+  const chainId = source.chainId;
+  const store = getHeartbeatStore();
+
+  // A replacement may have been mined instead of the hash we started with
+  const minedHash = receipt.transactionHash;
+  await store.updateSettlementTxHash(settlementId, minedHash);
+
+  if (receipt.status === 'success') {
+    await store.updateSettlement(settlementId, 'confirmed');
+
+    const pings = parseEventLogs({ abi: LazarusSourceABI, eventName: 'Ping', logs: receipt.logs });
+    for (const ping of pings) {
+      if (ping.address.toLowerCase() !== source.lazarusSourceAddress.toLowerCase()) continue;
+      await store.recordOnchainPing(chainId, ping.args.user, Number(ping.args.timestamp) * 1000);
+    }
+
+    log.info('Heartbeat settled', { user: userAddress, txHash: minedHash });
+    return { chainId, userAddress, success: true, txHash: minedHash };
+  }
+
+  await store.updateSettlement(settlementId, 'failed', 'Transaction reverted');
+  return { chainId, userAddress, success: false, txHash: minedHash, error: 'Transaction reverted' };
+}
+
+/**
+ * Wait for a pingFor receipt and record the outcome.
+ * Stuck transactions are replaced with higher fees, every replacement is stored on the settlement.
+ * Ones sent before the full transaction was stored only have their hash and are simply awaited.
+ * One that is still pending stays `submitted`, like a liquidation, and is checked again on the next run.
+ */
+async function confirmSettlement(
+  clients: SourceClients,
+  config: Config,
+  settlementId: string,
+  userAddress: Address,
+  hash: `0x${string}`,
+  tx?: ManagedTransaction
+): Promise<SettlementResult> {
+  const { source, publicClient } = clients;
+  const chainId = source.chainId;
+  const store = getHeartbeatStore();
+
+  try {
+    const receipt: TransactionReceipt | null = tx
+      ? await waitForManagedTransaction(clients, config, tx, replaced =>
+          store.updateSettlementTxHash(settlementId, replaced.hashes[replaced.hashes.length - 1], toSubmittedTransaction(replaced))
+        )
+      : await publicClient.waitForTransactionReceipt({ hash });
+
+    if (!receipt) {
+      const error = `Still pending after ${config.maxFeeBumps} fee bumps, will check again on the next run`;
+      await store.updateSettlement(settlementId, 'submitted', error);
+      return { chainId, userAddress, success: false, txHash: hash, error };
+    }
+
+    return await applySettlementReceipt(clients, settlementId, userAddress, receipt);
+  } catch (error) {
+    // The transaction is on the wire, whatever went wrong while waiting for it
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await store.updateSettlement(settlementId, 'submitted', message);
+    return { chainId, userAddress, success: false, txHash: hash, error: message };
+  }
+}
+
+/**
+ * Settle pending pingFor transactions left by earlier runs from their receipts, without waiting.
+ * One the node no longer knows was dropped, it is marked failed so the user can be settled again.
+ */
+async function checkPendingSettlements(clients: SourceClients): Promise<SettlementResult[]> {
+  const { source, publicClient } = clients;
+  const chainId = source.chainId;
+  const store = getHeartbeatStore();
+  const results: SettlementResult[] = [];
+
+  for (const settlement of await store.getPendingSettlements(chainId)) {
+    const userAddress = settlement.userAddress as Address;
+    const hash = settlement.txHash as `0x${string}`;
+    const hashes = settlementHashes(settlement);
+
+    try {
+      const receipt = await findReceipt(publicClient, hashes);
+      if (receipt) {
+        results.push(await applySettlementReceipt(clients, settlement.id, userAddress, receipt));
+      } else if (!(await isKnownTransaction(publicClient, hashes))) {
+        const error = 'Dropped before it was mined';
+        log.warn('Settlement transaction dropped', { chainId, user: userAddress, txHash: hash });
+        await store.updateSettlement(settlement.id, 'failed', error);
+        results.push({ chainId, userAddress, success: false, txHash: hash, error });
+      }
+    } catch (error) {
+      log.error('Could not check pending settlement', { chainId, user: userAddress, txHash: hash, error });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Every hash a settlement was broadcast under, oldest first
+ */
+function settlementHashes(settlement: SettlementRecord): Hex[] {
+  return (settlement.transaction?.hashes ?? [settlement.txHash]) as Hex[];
+}
+
+/**
+ * Whether the node still has any of the broadcasts
+ */
+async function isKnownTransaction(publicClient: PublicClient, hashes: readonly Hex[]): Promise<boolean> {
+  for (const hash of hashes) {
+    try {
+      await publicClient.getTransaction({ hash });
+      return true;
+    } catch (error) {
+      if (!(error instanceof TransactionNotFoundError)) throw error;
+    }
+  }
+  return false;
+}
+
+/**
+ * Settle pingFor transactions that were still waiting for a receipt when the watchtower stopped
+ */
+export async function resumeSettlements(clients: SourceClients, config: Config): Promise<SettlementResult[]> {
+  const chainId = clients.source.chainId;
+
+  if (runningChains.has(chainId)) {
+    log.info('Settlement run in progress, not resuming', { chainId });
+    return [];
+  }
+
+  runningChains.add(chainId);
+  try {
+    const store = getHeartbeatStore();
+    const results: SettlementResult[] = [];
+
+    for (const settlement of await store.getPendingSettlements(chainId)) {
+      results.push(await confirmSettlement(
+        clients,
+        config,
+        settlement.id,
+        settlement.userAddress as Address,
+        settlement.txHash as `0x${string}`,
+        settlement.transaction ? fromSubmittedTransaction(settlement.transaction) : undefined
+      ));
+    }
+
+    return results;
+  } finally {
+    runningChains.delete(chainId);
+  }
+}
+
+/**
+ * Call pingFor for one user right away, without waiting for their on-chain deadline to come within
+ * the settlement margin. The other checks of a scheduled settlement still apply: only a signed heartbeat
+ * newer than the on-chain ping and still within its period is pushed, the watchtower never vouches for
+ * liveness it hasn't seen.
+ */
+export async function forcePingFor(clients: SourceClients, config: Config, userAddress: Address): Promise<SettlementResult> {
+  const chainId = clients.source.chainId;
+  const store = getHeartbeatStore();
+
+  const record = await store.getHeartbeat(chainId, userAddress);
+  if (!record || record.signature === PENDING_HEARTBEAT_SIGNATURE) {
+    return { chainId, userAddress, success: false, error: 'No signed heartbeat stored for this user' };
+  }
+  if ((await store.getPendingSettlements(chainId)).some(s => s.userAddress === record.userAddress)) {
+    return { chainId, userAddress, success: false, error: 'A pingFor for this user is still waiting for its receipt' };
+  }
+
+  try {
+    const checked = await checkSettlement(clients.publicClient, clients.source, config, record, Date.now(), true);
+    if ('reason' in checked) {
+      return { chainId, userAddress, success: false, error: checked.reason };
+    }
+
+    const fees = await estimateFees(clients.publicClient, config);
+    const { settlementId, tx } = await sendPingFor(clients, config, record, fees);
+    log.info('Forced pingFor', { chainId, user: userAddress, txHash: tx.hashes[0] });
+    return await confirmSettlement(clients, config, settlementId, userAddress, tx.hashes[0], tx);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { chainId, userAddress, success: false, error: message };
+  }
+}
@@ -1,17 +1,17 @@
 import { verifyTypedData, type Address } from 'viem';
-import { loadConfig } from './config.js'; // FIX: Import config loader
-
-// Load config to get the correct Chain ID
-const config = loadConfig();
+import { getHeartbeatStore } from './database.js';
 
 /**
- * EIP-712 Domain for Yellow Network Heartbeat verification
+ * EIP-712 Domain for Yellow Network Heartbeat verification.
+ * Heartbeats are signed for the source chain the user is registered on.
  */
-export const HEARTBEAT_DOMAIN = {
-  name: 'Lazarus Protocol',
-  version: '1',
-  chainId: BigInt(config.sourceChainId), // FIX: Use config value, do not hardcode
-} as const;
+export function getHeartbeatDomain(chainId: number) {
+  return {
+    name: 'Lazarus Protocol',
+    version: '1',
+    chainId: BigInt(chainId),
+  } as const;
+}
 
 /**
  * EIP-712 Types for Heartbeat message
@@ -24,6 +24,17 @@ export const HEARTBEAT_TYPES = {
   ],
 } as const;
 
+/**
+ * How far a heartbeat timestamp may drift from the watchtower clock (in seconds)
+ */
+export const HEARTBEAT_WINDOW_SECONDS = 300n;
+
+export type VerificationErrorCode =
+  | 'TIMESTAMP_OUT_OF_WINDOW'
+  | 'INVALID_SIGNATURE'
+  | 'NONCE_REPLAYED'
+  | 'VERIFICATION_ERROR';
+
 export interface HeartbeatMessage {
   message: string;
   timestamp: bigint;
@@ -34,57 +45,87 @@ export interface VerificationResult {
   valid: boolean;
   recoveredAddress?: Address;
   error?: string;
+  code?: VerificationErrorCode;
 }
 
 /**
- * Verify a Yellow Network style EIP-712 signed heartbeat message
+ * Checks shared by every signed request from a user: the timestamp must be within
+ * HEARTBEAT_WINDOW_SECONDS, `verifySignature` must pass, and the nonce must be unused.
+ * The nonce is only burned once the signature checks out, so forged requests can't block real ones.
  */
-export async function verifyYellowSignature(
-  message: HeartbeatMessage,
-  signature: `0x${string}`,
-  expectedSigner: Address
+export async function verifySignedRequest(
+  label: string,
+  timestamp: bigint,
+  nonce: bigint,
+  signer: Address,
+  chainId: number,
+  verifySignature: () => Promise<boolean>
 ): Promise<VerificationResult> {
   try {
-    // Verify the message was signed recently (within 5 minutes)
     const now = BigInt(Math.floor(Date.now() / 1000));
-    const fiveMinutes = 300n;
-    
-    if (message.timestamp < now - fiveMinutes || message.timestamp > now + fiveMinutes) {
+
+    if (timestamp < now - HEARTBEAT_WINDOW_SECONDS || timestamp > now + HEARTBEAT_WINDOW_SECONDS) {
       return {
         valid: false,
-        error: 'Heartbeat timestamp is too old or in the future',
+        error: `${label} timestamp is too old or in the future`,
+        code: 'TIMESTAMP_OUT_OF_WINDOW',
       };
     }
 
-    // Verify the signature using EIP-712 typed data
-    const isValid = await verifyTypedData({
-      address: expectedSigner,
-      domain: HEARTBEAT_DOMAIN,
-      types: HEARTBEAT_TYPES,
-      primaryType: 'Heartbeat',
-      message: {
-        message: message.message,
-        timestamp: message.timestamp,
-        nonce: message.nonce,
-      },
-      signature,
-    });
-
-    if (!isValid) {
+    if (!(await verifySignature())) {
       return {
         valid: false,
         error: 'Signature verification failed',
+        code: 'INVALID_SIGNATURE',
+      };
+    }
+
+    // Nonces outside the window are dropped first, the timestamp check above already rejects them
+    const store = getHeartbeatStore();
+    await store.pruneNonces(Number(now - HEARTBEAT_WINDOW_SECONDS));
+
+    if (!(await store.consumeNonce(chainId, signer, nonce.toString(), Number(timestamp)))) {
+      return {
+        valid: false,
+        error: `${label} nonce has already been used`,
+        code: 'NONCE_REPLAYED',
       };
     }
 
     return {
       valid: true,
-      recoveredAddress: expectedSigner,
+      recoveredAddress: signer,
     };
   } catch (error) {
     return {
       valid: false,
       error: error instanceof Error ? error.message : 'Unknown error during verification',
+      code: 'VERIFICATION_ERROR',
     };
   }
 }
+
+/**
+ * Verify a Yellow Network style EIP-712 signed heartbeat message
+ */
+export async function verifyYellowSignature(
+  message: HeartbeatMessage,
+  signature: `0x${string}`,
+  expectedSigner: Address,
+  chainId: number
+): Promise<VerificationResult> {
+  return verifySignedRequest('Heartbeat', message.timestamp, message.nonce, expectedSigner, chainId, () =>
+    verifyTypedData({
+      address: expectedSigner,
+      domain: getHeartbeatDomain(chainId),
+      types: HEARTBEAT_TYPES,
+      primaryType: 'Heartbeat',
+      message: {
+        message: message.message,
+        timestamp: message.timestamp,
+        nonce: message.nonce,
+      },
+      signature,
+    })
+  );
+}
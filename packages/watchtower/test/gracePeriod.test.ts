@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, describe, it } from 'node:test';
+import type { Config } from '../src/config.js';
+import { getHeartbeatStore, openHeartbeatStore, type HeartbeatStore } from '../src/database.js';
+import { reasonToAbandon } from '../src/gracePeriod.js';
+
+const CHAIN = 11155111;
+const USER = '0xabcdef0000000000000000000000000000000001';
+const TOKEN = '0x0000000000000000000000000000000000000001';
+
+const withGrace = { gracePeriodSeconds: 3600, guardianVetoHoldSeconds: 3600 } as Config;
+const withoutGrace = { gracePeriodSeconds: 0, guardianVetoHoldSeconds: 0 } as Config;
+
+// Rows are compared by their ms timestamps, so steps that must be ordered are a tick apart
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+describe('abandoning queued liquidation jobs', () => {
+  let dir: string;
+  let store: HeartbeatStore;
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'watchtower-grace-'));
+    store = await openHeartbeatStore({ dbPath: path.join(dir, 'heartbeats.db') });
+  });
+
+  afterEach(async () => {
+    await store.removeUser(CHAIN, USER);
+    for (const job of await store.getUserLiquidationJobs(CHAIN, USER)) {
+      await store.updateLiquidationJob(job.id, { state: 'confirmed' });
+    }
+  });
+
+  after(async () => {
+    await getHeartbeatStore().close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * A user whose grace window ran out, with a job queued for them
+   */
+  async function releasedUser() {
+    await store.recordHeartbeat(CHAIN, USER, '0xsig', 60);
+    await tick();
+    const window = await store.startPendingLiquidation(CHAIN, USER, Date.now());
+    await store.releasePendingLiquidation(window.id);
+    await tick();
+    return store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+  }
+
+  it('keeps a job queued after the grace window was released', async () => {
+    const job = await releasedUser();
+    assert.equal(await reasonToAbandon(withGrace, job), null);
+  });
+
+  it('abandons a failed or deferred job once the user sends a heartbeat', async () => {
+    const job = await releasedUser();
+    await store.updateLiquidationJob(job.id, { state: 'deferred', lastError: 'Below LIQUIDATION_MIN_USD' });
+    await tick();
+    await store.recordHeartbeat(CHAIN, USER, '0xsig2', 60);
+
+    const current = (await store.getLiquidationJob(job.id))!;
+    assert.match((await reasonToAbandon(withGrace, current)) ?? '', /checked in \(offchain\)/);
+    assert.match((await reasonToAbandon(withoutGrace, current)) ?? '', /checked in/);
+  });
+
+  it('abandons a job once a Ping lands on-chain', async () => {
+    const job = await releasedUser();
+    await tick();
+    await store.recordOnchainPing(CHAIN, USER, Date.now());
+
+    assert.match((await reasonToAbandon(withGrace, job)) ?? '', /checked in \(onchain\)/);
+  });
+
+  it('abandons a job whose grace window was vetoed or never released', async () => {
+    await store.recordHeartbeat(CHAIN, USER, '0xsig', 60);
+    await tick();
+    const job = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+    await store.startPendingLiquidation(CHAIN, USER, Date.now() + 60_000);
+
+    assert.match((await reasonToAbandon(withGrace, job)) ?? '', /No released grace window.*\(pending\)/);
+
+    await store.cancelPendingLiquidation(CHAIN, USER, 'veto', '0xguardian');
+    assert.match((await reasonToAbandon(withGrace, job)) ?? '', /No released grace window.*\(cancelled\)/);
+
+    // Without a grace period only a heartbeat stops the job
+    assert.equal(await reasonToAbandon(withoutGrace, job), null);
+  });
+
+  it('leaves the decision to the chain for users without an off-chain record', async () => {
+    const job = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+    assert.equal(await reasonToAbandon(withGrace, job), null);
+  });
+});
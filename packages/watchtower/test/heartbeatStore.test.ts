@@ -0,0 +1,596 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { latestLiveness, PENDING_HEARTBEAT_SIGNATURE, type HeartbeatStore, type NewPendingBridge, type SubmittedTransaction } from '../src/database.js';
+import { BACKENDS, postgresBackend, sqliteBackend, type TestBackend } from './stores.js';
+
+const CHAIN = 11155111;
+const OTHER_CHAIN = 84532;
+const USER = '0xAbCdEf0000000000000000000000000000000001';
+const USER_2 = '0xabcdef0000000000000000000000000000000002';
+const GUARDIAN = '0xAbCdEf00000000000000000000000000000000aa';
+const TOKEN = '0xToKeN0000000000000000000000000000000000';
+
+// Rows are ordered by their ms timestamps, so rows that must sort apart are written a tick apart
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+function bridge(overrides: Partial<NewPendingBridge> = {}): NewPendingBridge {
+  return {
+    jobId: null,
+    sourceChainId: CHAIN,
+    userAddress: USER.toLowerCase(),
+    beneficiary: USER_2,
+    tokenAddress: TOKEN.toLowerCase(),
+    tokenSymbol: 'WETH',
+    amount: '1000',
+    quoteId: 'quote-1',
+    expectedAmount: '990',
+    minAmount: '980',
+    sourceTxHash: '0xsource',
+    ...overrides,
+  };
+}
+
+function pingFor(...hashes: string[]): SubmittedTransaction {
+  return {
+    to: '0x0000000000000000000000000000000000000001',
+    data: '0x12345678',
+    gas: '60000',
+    nonce: 7,
+    maxFeePerGas: '30000000000',
+    maxPriorityFeePerGas: '1000000000',
+    hashes,
+  };
+}
+
+/**
+ * The same behaviour is expected from every backend, so one suite runs against each of them
+ */
+function storeConformance(backend: TestBackend): void {
+  describe(`${backend.name} store`, () => {
+    let store: HeartbeatStore;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ store, cleanup } = await backend.open());
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    describe('heartbeats', () => {
+      it('records, updates and lists users per chain with lowercased addresses', async () => {
+        const first = await store.recordHeartbeat(CHAIN, USER, '0xsig1', 3600);
+        assert.equal(first.userAddress, USER.toLowerCase());
+        assert.equal(first.inactivityPeriod, 3600);
+        assert.equal(first.onchainLastSeen, null);
+
+        const second = await store.recordHeartbeat(CHAIN, USER, '0xsig2', 7200);
+        assert.equal(second.signature, '0xsig2');
+        assert.equal(second.inactivityPeriod, 7200);
+        assert.equal(second.createdAt, first.createdAt);
+
+        await store.recordHeartbeat(OTHER_CHAIN, USER_2, '0xsig3', 3600);
+        await store.updateInactivityPeriod(CHAIN, USER, 60);
+
+        assert.equal((await store.getHeartbeat(CHAIN, USER))?.inactivityPeriod, 60);
+        assert.equal(await store.getHeartbeat(OTHER_CHAIN, USER), null);
+        assert.equal((await store.getAllUsers()).length, 2);
+        assert.deepEqual((await store.getAllUsers(CHAIN)).map(u => u.userAddress), [USER.toLowerCase()]);
+
+        await store.removeUser(CHAIN, USER);
+        assert.equal(await store.getHeartbeat(CHAIN, USER), null);
+      });
+
+      it('finds inactive users from the later of the off-chain and on-chain heartbeat', async () => {
+        await store.recordHeartbeat(CHAIN, USER, '0xsig', 0);
+        await store.recordHeartbeat(CHAIN, USER_2, '0xsig', 3600);
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        assert.deepEqual((await store.getInactiveUsers(CHAIN)).map(u => u.userAddress), [USER.toLowerCase()]);
+        assert.deepEqual(await store.getInactiveUsers(OTHER_CHAIN), []);
+
+        await store.recordOnchainPing(CHAIN, USER, Date.now() + 60_000);
+        await store.updateInactivityPeriod(CHAIN, USER, 1);
+        assert.deepEqual(await store.getInactiveUsers(CHAIN), []);
+      });
+
+      it('judges placeholder rows from a Registered event by their on-chain liveness only', async () => {
+        const registeredAt = Date.now() - 7200_000;
+        await store.recordHeartbeat(CHAIN, USER, PENDING_HEARTBEAT_SIGNATURE, 3600, 0);
+        await store.recordOnchainPing(CHAIN, USER, registeredAt);
+        // Rows written before placeholders carried no off-chain time, stamped when indexed
+        await store.recordHeartbeat(CHAIN, USER_2, PENDING_HEARTBEAT_SIGNATURE, 3600);
+        await store.recordOnchainPing(CHAIN, USER_2, registeredAt);
+
+        const placeholder = (await store.getHeartbeat(CHAIN, USER))!;
+        assert.equal(placeholder.lastSeen, 0);
+        assert.deepEqual(latestLiveness(placeholder), { lastSeen: registeredAt, source: 'onchain' });
+        assert.deepEqual(latestLiveness((await store.getHeartbeat(CHAIN, USER_2))!), { lastSeen: registeredAt, source: 'onchain' });
+        assert.deepEqual((await store.getInactiveUsers(CHAIN)).map(u => u.userAddress).sort(), [USER.toLowerCase(), USER_2]);
+
+        await store.recordHeartbeat(CHAIN, USER, '0xsig', 3600);
+        assert.equal(latestLiveness((await store.getHeartbeat(CHAIN, USER))!).source, 'offchain');
+        assert.deepEqual((await store.getInactiveUsers(CHAIN)).map(u => u.userAddress), [USER_2]);
+      });
+
+      it('keeps the latest on-chain ping unless it is overwritten', async () => {
+        await store.recordHeartbeat(CHAIN, USER, '0xsig', 3600);
+
+        await store.recordOnchainPing(CHAIN, USER, 2000);
+        await store.recordOnchainPing(CHAIN, USER, 1000);
+        assert.equal((await store.getHeartbeat(CHAIN, USER))?.onchainLastSeen, 2000);
+
+        await store.setOnchainLastSeen(CHAIN, USER, 500);
+        assert.equal((await store.getHeartbeat(CHAIN, USER))?.onchainLastSeen, 500);
+        await store.setOnchainLastSeen(CHAIN, USER, null);
+        assert.equal((await store.getHeartbeat(CHAIN, USER))?.onchainLastSeen, null);
+      });
+    });
+
+    describe('nonces', () => {
+      it('accepts a nonce once per user and chain', async () => {
+        assert.equal(await store.consumeNonce(CHAIN, USER, '1', 100), true);
+        assert.equal(await store.consumeNonce(CHAIN, USER.toLowerCase(), '1', 100), false);
+        assert.equal(await store.consumeNonce(CHAIN, USER_2, '1', 100), true);
+        assert.equal(await store.consumeNonce(OTHER_CHAIN, USER, '1', 100), true);
+      });
+
+      it('accepts a released nonce again', async () => {
+        await store.consumeNonce(CHAIN, USER, '7', 100);
+        await store.releaseNonce(CHAIN, USER.toLowerCase(), '7');
+        assert.equal(await store.consumeNonce(CHAIN, USER, '7', 100), true);
+      });
+
+      it('prunes nonces signed before the cutoff', async () => {
+        await store.consumeNonce(CHAIN, USER, '1', 100);
+        await store.consumeNonce(CHAIN, USER, '2', 200);
+
+        assert.equal(await store.pruneNonces(150), 1);
+        assert.equal(await store.consumeNonce(CHAIN, USER, '1', 100), true);
+        assert.equal(await store.consumeNonce(CHAIN, USER, '2', 200), false);
+      });
+    });
+
+    describe('liquidation jobs', () => {
+      it('returns the in-flight job instead of queueing a duplicate', async () => {
+        const job = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+        assert.equal(job.state, 'queued');
+        assert.equal(job.userAddress, USER.toLowerCase());
+        assert.equal(job.tokenAddress, TOKEN.toLowerCase());
+
+        for (const state of ['queued', 'quoting', 'simulated', 'submitting', 'submitted', 'failed', 'deferred'] as const) {
+          await store.updateLiquidationJob(job.id, { state });
+          assert.equal((await store.enqueueLiquidationJob(CHAIN, USER.toLowerCase(), TOKEN, 'WETH')).id, job.id, state);
+        }
+
+        assert.notEqual((await store.enqueueLiquidationJob(OTHER_CHAIN, USER, TOKEN, 'WETH')).id, job.id);
+        assert.notEqual((await store.enqueueLiquidationJob(CHAIN, USER_2, TOKEN, 'WETH')).id, job.id);
+      });
+
+      it('queues a new job once the previous one is settled', async () => {
+        const job = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+        await store.updateLiquidationJob(job.id, { state: 'confirmed' });
+        await tick();
+
+        const next = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+        assert.notEqual(next.id, job.id);
+        assert.deepEqual((await store.getUserLiquidationJobs(CHAIN, USER)).map(j => j.id), [job.id, next.id]);
+      });
+
+      it('applies partial updates and counts attempts', async () => {
+        const job = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+        const transaction = {
+          to: '0xsource',
+          data: '0x',
+          gas: '21000',
+          nonce: 4,
+          maxFeePerGas: '2',
+          maxPriorityFeePerGas: '1',
+          hashes: ['0xhash'],
+        };
+
+        await store.updateLiquidationJob(job.id, { state: 'quoting', incrementAttempts: true });
+        await store.updateLiquidationJob(job.id, {
+          state: 'simulated',
+          route: { provider: 'lifi', quoteId: 'q', toAmount: '10', toAmountMin: '9' },
+        });
+        await store.updateLiquidationJob(job.id, { state: 'submitting', txHash: '0xhash', transaction });
+        await store.updateLiquidationJob(job.id, { state: 'failed', lastError: 'boom', failureKind: 'simulation' });
+
+        let current = await store.getLiquidationJob(job.id);
+        assert.equal(current?.state, 'failed');
+        assert.equal(current?.attempts, 1);
+        assert.equal(current?.lastError, 'boom');
+        assert.equal(current?.failureKind, 'simulation');
+        assert.equal(current?.txHash, '0xhash');
+        assert.deepEqual(current?.transaction, transaction);
+        assert.deepEqual(current?.route, { provider: 'lifi', quoteId: 'q', toAmount: '10', toAmountMin: '9' });
+
+        await store.updateLiquidationJob(job.id, { state: 'deferred', incrementAttempts: true, refundAttempt: true });
+        assert.equal((await store.getLiquidationJob(job.id))?.attempts, 1);
+
+        await store.updateLiquidationJob(job.id, { state: 'queued', lastError: null, failureKind: null, resetAttempts: true });
+        current = await store.getLiquidationJob(job.id);
+        assert.equal(current?.attempts, 0);
+        assert.equal(current?.lastError, null);
+        assert.equal(current?.failureKind, null);
+        assert.equal(await store.getLiquidationJob('missing'), null);
+      });
+
+      it('lists and counts jobs by state and chain', async () => {
+        const first = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+        await tick();
+        const second = await store.enqueueLiquidationJob(CHAIN, USER_2, TOKEN, 'WETH');
+        await tick();
+        const other = await store.enqueueLiquidationJob(OTHER_CHAIN, USER, TOKEN, 'WETH');
+        await store.updateLiquidationJob(second.id, { state: 'abandoned' });
+
+        assert.deepEqual((await store.getLiquidationJobs(['queued'])).map(j => j.id), [first.id, other.id]);
+        assert.deepEqual((await store.getLiquidationJobs(['queued', 'abandoned'], CHAIN)).map(j => j.id), [first.id, second.id]);
+
+        const counts = (await store.countLiquidationJobs())
+          .sort((a, b) => a.chainId - b.chainId || a.state.localeCompare(b.state));
+        assert.deepEqual(counts, [
+          { chainId: OTHER_CHAIN, state: 'queued', count: 1 },
+          { chainId: CHAIN, state: 'abandoned', count: 1 },
+          { chainId: CHAIN, state: 'queued', count: 1 },
+        ]);
+      });
+    });
+
+    describe('settlements', () => {
+      it('tracks a pingFor from submitted to its outcome', async () => {
+        const settlement = await store.recordSettlement(CHAIN, USER, pingFor('0xfirst'), 1000);
+        assert.equal(settlement.status, 'submitted');
+        assert.equal(settlement.userAddress, USER.toLowerCase());
+        assert.equal(settlement.txHash, '0xfirst');
+        assert.deepEqual((await store.getPendingSettlements(CHAIN)).map(s => s.id), [settlement.id]);
+        assert.deepEqual(await store.getPendingSettlements(OTHER_CHAIN), []);
+
+        await store.updateSettlementTxHash(settlement.id, '0xreplacement', pingFor('0xfirst', '0xreplacement'));
+        await store.updateSettlement(settlement.id, 'submitted', 'Still pending');
+        let [current] = await store.getPendingSettlements(CHAIN);
+        assert.equal(current.txHash, '0xreplacement');
+        assert.deepEqual(current.transaction, pingFor('0xfirst', '0xreplacement'));
+        assert.equal(current.error, 'Still pending');
+
+        // The first broadcast was mined after all, every hash stays on record
+        await store.updateSettlementTxHash(settlement.id, '0xfirst');
+        await store.updateSettlement(settlement.id, 'confirmed');
+        [current] = await store.getUserSettlements(CHAIN, USER);
+        assert.equal(current.status, 'confirmed');
+        assert.equal(current.txHash, '0xfirst');
+        assert.deepEqual(current.transaction?.hashes, ['0xfirst', '0xreplacement']);
+        assert.equal(current.error, null);
+        assert.deepEqual(await store.getPendingSettlements(CHAIN), []);
+      });
+
+      it('lists a user\'s settlements newest first', async () => {
+        const first = await store.recordSettlement(CHAIN, USER, pingFor('0x1'), 1000);
+        await tick();
+        const second = await store.recordSettlement(CHAIN, USER, pingFor('0x2'), 2000);
+
+        assert.deepEqual((await store.getUserSettlements(CHAIN, USER)).map(s => s.id), [second.id, first.id]);
+        assert.deepEqual((await store.getUserSettlements(CHAIN, USER, 1)).map(s => s.id), [second.id]);
+      });
+    });
+
+    describe('bridges', () => {
+      it('registers a source transaction once', async () => {
+        const created = await store.createPendingBridge(bridge());
+        assert.equal(created.status, 'pending');
+        assert.equal((await store.createPendingBridge(bridge({ amount: '5' }))).id, created.id);
+        assert.deepEqual(await store.getPendingBridge(created.id), created);
+        assert.equal(await store.getPendingBridge('missing'), null);
+      });
+
+      it('moves bridges through their statuses', async () => {
+        const first = await store.createPendingBridge(bridge());
+        const second = await store.createPendingBridge(bridge({ sourceTxHash: '0xother' }));
+
+        await store.updateBridgeStatus(second.id, 'stuck');
+        await store.confirmBridge(first.id, '0xdestination', '985');
+
+        const confirmed = await store.getPendingBridge(first.id);
+        assert.equal(confirmed?.status, 'confirmed');
+        assert.equal(confirmed?.destinationTxHash, '0xdestination');
+        assert.equal(confirmed?.receivedAmount, '985');
+        assert.notEqual(confirmed?.confirmedAt, null);
+
+        assert.deepEqual((await store.getBridgesByStatus(['stuck', 'pending'])).map(b => b.id), [second.id]);
+        const counts = (await store.countBridgesByStatus()).sort((a, b) => a.status.localeCompare(b.status));
+        assert.deepEqual(counts, [{ status: 'confirmed', count: 1 }, { status: 'stuck', count: 1 }]);
+      });
+    });
+
+    describe('indexer', () => {
+      it('stores checkpoints as bigints', async () => {
+        assert.equal(await store.getCheckpoint('indexer'), null);
+        await store.setCheckpoint('indexer', 10n);
+        await store.setCheckpoint('indexer', 12n);
+        assert.equal(await store.getCheckpoint('indexer'), 12n);
+      });
+
+      it('stores each event once and rolls back above a reorged block', async () => {
+        const event = {
+          chainId: CHAIN,
+          blockNumber: 10,
+          blockHash: '0xb10',
+          txHash: '0xt1',
+          logIndex: 0,
+          eventName: 'Ping',
+          userAddress: USER.toLowerCase(),
+          args: { user: USER, timestamp: '100' },
+        };
+
+        assert.equal(await store.insertChainEvent(event), true);
+        assert.equal(await store.insertChainEvent(event), false);
+        await store.insertChainEvent({ ...event, blockNumber: 11, blockHash: '0xb11', txHash: '0xt2', eventName: 'Registered' });
+        await store.insertChainEvent({ ...event, chainId: OTHER_CHAIN, blockNumber: 11 });
+
+        const events = await store.getChainEvents(CHAIN);
+        assert.deepEqual(events.map(e => e.blockNumber), [11, 10]);
+        assert.deepEqual(events[1].args, event.args);
+        assert.deepEqual((await store.getChainEvents(CHAIN, { eventName: 'Ping' })).map(e => e.txHash), ['0xt1']);
+        assert.deepEqual((await store.getChainEvents(CHAIN, { userAddress: USER, limit: 1 })).map(e => e.blockNumber), [11]);
+
+        await store.recordBlockHash(CHAIN, 10n, '0xb10');
+        await store.recordBlockHash(CHAIN, 11n, '0xb11');
+        await store.recordBlockHash(CHAIN, 12n, '0xb12');
+        assert.deepEqual(await store.getRecentBlockHashes(CHAIN, 2), [
+          { blockNumber: 12n, blockHash: '0xb12' },
+          { blockNumber: 11n, blockHash: '0xb11' },
+        ]);
+
+        const removed = await store.rollbackChainEvents(CHAIN, 10n);
+        assert.deepEqual(removed.map(e => e.txHash), ['0xt2']);
+        assert.deepEqual((await store.getChainEvents(CHAIN)).map(e => e.blockNumber), [10]);
+        assert.equal((await store.getChainEvents(OTHER_CHAIN)).length, 1);
+        assert.deepEqual((await store.getRecentBlockHashes(CHAIN, 10)).map(b => b.blockNumber), [10n]);
+
+        await store.recordBlockHash(CHAIN, 11n, '0xb11b');
+        assert.equal(await store.pruneBlockHashes(CHAIN, 11n), 1);
+        assert.deepEqual((await store.getRecentBlockHashes(CHAIN, 10)).map(b => b.blockHash), ['0xb11b']);
+      });
+    });
+
+    describe('guardians and grace periods', () => {
+      it('adds each guardian once and removes them', async () => {
+        await store.addGuardian(CHAIN, USER, GUARDIAN);
+        await store.addGuardian(CHAIN, USER, GUARDIAN.toLowerCase());
+
+        const guardians = await store.getGuardians(CHAIN, USER.toLowerCase());
+        assert.deepEqual(guardians.map(g => g.guardianAddress), [GUARDIAN.toLowerCase()]);
+        assert.deepEqual(await store.getGuardians(OTHER_CHAIN, USER), []);
+
+        assert.equal(await store.removeGuardian(CHAIN, USER, GUARDIAN), true);
+        assert.equal(await store.removeGuardian(CHAIN, USER, GUARDIAN), false);
+      });
+
+      it('keeps one open grace window per user', async () => {
+        const window = await store.startPendingLiquidation(CHAIN, USER, 5000);
+        assert.equal(window.status, 'pending');
+        assert.equal((await store.startPendingLiquidation(CHAIN, USER.toLowerCase(), 9000)).id, window.id);
+        assert.equal((await store.getOpenPendingLiquidation(CHAIN, USER))?.id, window.id);
+        assert.deepEqual((await store.getPendingLiquidations(['pending'], CHAIN)).map(p => p.id), [window.id]);
+        assert.deepEqual(await store.getPendingLiquidations(['pending'], OTHER_CHAIN), []);
+
+        const cancelled = await store.cancelPendingLiquidation(CHAIN, USER, 'veto', GUARDIAN);
+        assert.equal(cancelled?.id, window.id);
+        assert.equal(cancelled?.status, 'cancelled');
+        assert.equal(cancelled?.cancelReason, 'veto');
+        assert.equal(await store.cancelPendingLiquidation(CHAIN, USER, 'heartbeat', USER), null);
+        assert.equal(await store.getOpenPendingLiquidation(CHAIN, USER), null);
+        assert.equal((await store.getLatestPendingLiquidation(CHAIN, USER))?.id, window.id);
+
+        const next = await store.startPendingLiquidation(CHAIN, USER, 9000);
+        assert.notEqual(next.id, window.id);
+        await store.releasePendingLiquidation(next.id);
+        assert.equal((await store.getPendingLiquidation(next.id))?.status, 'released');
+        assert.deepEqual((await store.getPendingLiquidations(['released', 'cancelled'])).map(p => p.id).sort(), [window.id, next.id].sort());
+      });
+    });
+
+    describe('notifications', () => {
+      it('subscribes a channel once and unsubscribes it with its undelivered notifications', async () => {
+        const channel = await store.addNotificationChannel(CHAIN, USER, 'webhook', 'https://example.com/hook', 'secret');
+        assert.equal(channel.address, USER.toLowerCase());
+        assert.equal((await store.addNotificationChannel(CHAIN, USER, 'webhook', 'https://example.com/hook', 'other')).id, channel.id);
+        assert.deepEqual(await store.getNotificationChannel(channel.id), channel);
+        assert.deepEqual((await store.getNotificationChannels(CHAIN, USER)).map(c => c.id), [channel.id]);
+
+        const delivery = await store.enqueueNotification(channel, 'warning', 'warning:50%', '{}');
+        assert.ok(delivery);
+
+        assert.equal(await store.removeNotificationChannel(CHAIN, USER, 'webhook', 'https://example.com/hook'), true);
+        assert.equal(await store.removeNotificationChannel(CHAIN, USER, 'webhook', 'https://example.com/hook'), false);
+        assert.equal(await store.getNotificationChannel(channel.id), null);
+        assert.equal(await store.getNotificationDelivery(delivery.id), null);
+      });
+
+      it('dedupes notifications and tracks their delivery', async () => {
+        const channel = await store.addNotificationChannel(CHAIN, USER, 'email', 'user@example.com', null);
+
+        const delivery = await store.enqueueNotification(channel, 'warning', 'warning:50%', '{"a":1}');
+        assert.ok(delivery);
+        assert.equal(delivery.status, 'pending');
+        assert.equal(await store.enqueueNotification(channel, 'warning', 'warning:50%', '{"a":2}'), null);
+        const other = await store.enqueueNotification(channel, 'warning', 'warning:25%', '{}');
+        assert.ok(other);
+
+        const now = Date.now() + 1000;
+        assert.deepEqual((await store.getDueNotifications(now)).map(d => d.id), [delivery.id, other.id]);
+        assert.deepEqual((await store.getDueNotifications(now, 1)).map(d => d.id), [delivery.id]);
+
+        await store.markNotificationFailed(delivery.id, 'timeout', now + 60_000);
+        let current = await store.getNotificationDelivery(delivery.id);
+        assert.equal(current?.status, 'pending');
+        assert.equal(current?.attempts, 1);
+        assert.equal(current?.lastError, 'timeout');
+        assert.deepEqual((await store.getDueNotifications(now)).map(d => d.id), [other.id]);
+
+        await store.markNotificationDelivered(delivery.id);
+        await store.markNotificationFailed(other.id, 'bounced', null);
+        current = await store.getNotificationDelivery(delivery.id);
+        assert.equal(current?.status, 'delivered');
+        assert.notEqual(current?.deliveredAt, null);
+        assert.equal((await store.getNotificationDelivery(other.id))?.status, 'failed');
+
+        assert.deepEqual((await store.getNotificationDeliveries({ status: ['failed'] })).map(d => d.id), [other.id]);
+        assert.equal((await store.getNotificationDeliveries({ address: USER })).length, 2);
+        assert.equal((await store.getNotificationDeliveries({ address: USER_2 })).length, 0);
+        assert.equal((await store.getNotificationDeliveries({ limit: 1 })).length, 1);
+      });
+    });
+
+    describe('rate limits and audit log', () => {
+      it('counts hits per window and resets in a newer one', async () => {
+        assert.equal(await store.hitRateLimit('ip:1', 1000), 1);
+        assert.equal(await store.hitRateLimit('ip:1', 1000), 2);
+        assert.equal(await store.hitRateLimit('ip:2', 1000), 1);
+        assert.equal(await store.hitRateLimit('ip:1', 2000), 1);
+
+        assert.equal(await store.pruneRateLimits(2000), 1);
+        assert.equal(await store.hitRateLimit('ip:2', 2000), 1);
+      });
+
+      it('lists audit entries newest first', async () => {
+        const entry = { actor: 'anonymous', role: null, authMethod: null, action: 'GET /users', details: null, ip: '127.0.0.1', outcome: 'denied' as const };
+        await store.recordAudit(entry);
+        await tick();
+        await store.recordAudit({ ...entry, actor: 'api-key:ops', role: 'operator', authMethod: 'api-key', outcome: 'allowed' });
+
+        const log = await store.getAuditLog();
+        assert.deepEqual(log.map(e => e.actor), ['api-key:ops', 'anonymous']);
+        assert.equal(log[1].ip, '127.0.0.1');
+        assert.equal((await store.getAuditLog(1)).length, 1);
+      });
+    });
+
+    describe('leases', () => {
+      it('gives a free lease to the first holder and renews it for them only', async () => {
+        assert.equal(await store.getLease('scheduler'), null);
+
+        const taken = await store.acquireLease('scheduler', 'a', 60_000);
+        assert.equal(taken.holder, 'a');
+
+        const refused = await store.acquireLease('scheduler', 'b', 60_000);
+        assert.equal(refused.holder, 'a');
+        assert.equal(refused.expiresAt, taken.expiresAt);
+
+        await tick();
+        const renewed = await store.acquireLease('scheduler', 'a', 60_000);
+        assert.equal(renewed.acquiredAt, taken.acquiredAt);
+        assert.ok(renewed.expiresAt > taken.expiresAt);
+      });
+
+      it('hands an expired or released lease to the next holder', async () => {
+        await store.acquireLease('scheduler', 'a', 1);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        assert.equal((await store.acquireLease('scheduler', 'b', 60_000)).holder, 'b');
+
+        assert.equal(await store.releaseLease('scheduler', 'a'), false);
+        assert.equal(await store.releaseLease('scheduler', 'b'), true);
+        assert.equal(await store.getLease('scheduler'), null);
+        assert.equal((await store.acquireLease('scheduler', 'c', 60_000)).holder, 'c');
+      });
+    });
+
+    describe('export and import', () => {
+      it('round-trips every dumped table and keeps rows that already exist', async () => {
+        await store.recordHeartbeat(CHAIN, USER, '0xsig', 3600);
+        await store.consumeNonce(CHAIN, USER, '1', 100);
+        const job = await store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+        await store.recordSettlement(CHAIN, USER, pingFor('0xsettle'), 1000);
+        await store.createPendingBridge(bridge({ jobId: job.id }));
+        await store.startPendingLiquidation(CHAIN, USER, 5000);
+        await store.addGuardian(CHAIN, USER, GUARDIAN);
+        const channel = await store.addNotificationChannel(CHAIN, USER, 'email', 'user@example.com', null);
+        await store.enqueueNotification(channel, 'warning', 'warning:50%', '{}');
+        await store.setCheckpoint('indexer', 10n);
+        await store.insertChainEvent({
+          chainId: CHAIN, blockNumber: 10, blockHash: '0xb', txHash: '0xt', logIndex: 0, eventName: 'Ping', userAddress: null, args: {},
+        });
+        await store.recordBlockHash(CHAIN, 10n, '0xb');
+        await store.recordAudit({ actor: 'a', role: null, authMethod: null, action: 'x', details: null, ip: null, outcome: 'denied' });
+
+        const dump = await store.exportData();
+        assert.equal(dump.backend, backend.name);
+        for (const [table, rows] of Object.entries(dump.tables)) {
+          assert.equal(rows.length, 1, table);
+        }
+
+        // Importing into the same store inserts nothing, every key already exists
+        assert.ok(Object.values(await store.importData(dump)).every(count => count === 0));
+
+        const target = await backend.open();
+        try {
+          const inserted = await target.store.importData(dump);
+          assert.ok(Object.values(inserted).every(count => count === 1));
+          assert.deepEqual(await target.store.getLiquidationJob(job.id), await store.getLiquidationJob(job.id));
+          assert.deepEqual(await target.store.getHeartbeat(CHAIN, USER), await store.getHeartbeat(CHAIN, USER));
+          assert.equal(await target.store.consumeNonce(CHAIN, USER, '1', 100), false);
+          assert.equal(await target.store.getCheckpoint('indexer'), 10n);
+        } finally {
+          await target.cleanup();
+        }
+      });
+
+      it('rejects unknown tables and columns', async () => {
+        await assert.rejects(store.importData({ backend: 'sqlite', exportedAt: 0, tables: { leases: [] } }), /Unknown table/);
+        await assert.rejects(
+          store.importData({ backend: 'sqlite', exportedAt: 0, tables: { heartbeats: [{ 'chain_id; DROP': 1 }] } }),
+          /Invalid column/
+        );
+      });
+    });
+
+    it('passes the write check', async () => {
+      await store.checkWritable();
+    });
+  });
+}
+
+for (const backend of BACKENDS) {
+  storeConformance(backend);
+}
+
+describe('backend parity', () => {
+  it('migrates both backends to the same schema version and tables', async () => {
+    const sqlite = await sqliteBackend.open();
+    const postgres = await postgresBackend.open();
+    try {
+      const [sqliteSchema, postgresSchema] = await Promise.all([sqlite.schema(), postgres.schema()]);
+      assert.equal(postgresSchema.version, sqliteSchema.version);
+      assert.deepEqual(postgresSchema.tables, sqliteSchema.tables);
+    } finally {
+      await sqlite.cleanup();
+      await postgres.cleanup();
+    }
+  });
+
+  it('moves a dump from SQLite to Postgres and back', async () => {
+    const sqlite = await sqliteBackend.open();
+    const postgres = await postgresBackend.open();
+    try {
+      await sqlite.store.recordHeartbeat(CHAIN, USER, '0xsig', 3600);
+      const job = await sqlite.store.enqueueLiquidationJob(CHAIN, USER, TOKEN, 'WETH');
+      await sqlite.store.updateLiquidationJob(job.id, { state: 'failed', lastError: 'boom', failureKind: 'gas' });
+
+      await postgres.store.importData(await sqlite.store.exportData());
+      assert.deepEqual(await postgres.store.getLiquidationJob(job.id), await sqlite.store.getLiquidationJob(job.id));
+
+      const back = await sqliteBackend.open();
+      try {
+        await back.store.importData(await postgres.store.exportData());
+        assert.deepEqual(await back.store.getHeartbeat(CHAIN, USER), await sqlite.store.getHeartbeat(CHAIN, USER));
+      } finally {
+        await back.cleanup();
+      }
+    } finally {
+      await sqlite.cleanup();
+      await postgres.cleanup();
+    }
+  });
+});
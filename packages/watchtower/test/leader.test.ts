@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { Config } from '../src/config.js';
+import { getHeartbeatStore, openHeartbeatStore } from '../src/database.js';
+import { assertLeader, isLeader, LeadershipLostError, startLeaderElection, stopLeaderElection } from '../src/leader.js';
+
+const config = { instanceId: 'replica-a', leaderLeaseSeconds: 30 } as Config;
+
+describe('leader fencing', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'watchtower-leader-'));
+    await openHeartbeatStore({ dbPath: path.join(dir, 'heartbeats.db') });
+  });
+
+  after(async () => {
+    await stopLeaderElection(config);
+    await getHeartbeatStore().close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('passes while the lease is ours and steps down once another instance holds it', async () => {
+    let elected = 0;
+    await startLeaderElection(config, () => elected++);
+    assert.equal(isLeader(), true);
+    assert.equal(elected, 1);
+    await assertLeader(config);
+
+    // Another replica took over, say after this one stalled past its lease
+    const store = getHeartbeatStore();
+    await store.releaseLease('scheduler', config.instanceId);
+    await store.acquireLease('scheduler', 'replica-b', 60_000);
+
+    await assert.rejects(assertLeader(config), (error: unknown) => {
+      assert.ok(error instanceof LeadershipLostError);
+      assert.equal(error.leader, 'replica-b');
+      return true;
+    });
+    assert.equal(isLeader(), false);
+  });
+});
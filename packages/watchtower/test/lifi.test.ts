@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { Address } from 'viem';
+import { getEvacuationRoute, type LiFiClientOptions, type LiFiQuoteRequest } from '../src/lifi.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const VAULT = '0x00000000000000000000000000000000000000aa' as Address;
+
+type Reply = (res: ServerResponse) => void;
+
+const ok: Reply = res => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ id: `quote-${Date.now()}`, estimate: { toAmountMin: '1' } }));
+};
+
+function status(code: number, headers: Record<string, string> = {}): Reply {
+  return res => {
+    res.writeHead(code, headers);
+    res.end(`stub ${code}`);
+  };
+}
+
+function slow(ms: number): Reply {
+  return res => {
+    setTimeout(() => ok(res), ms);
+  };
+}
+
+function quoteRequest(overrides: Partial<LiFiQuoteRequest> = {}): LiFiQuoteRequest {
+  return {
+    fromChain: '11155111',
+    toChain: '421614',
+    fromToken: WETH,
+    toToken: USDC,
+    fromAmount: '1000000000000000000',
+    fromAddress: WETH,
+    toAddress: VAULT,
+    ...overrides,
+  };
+}
+
+describe('LI.FI client', () => {
+  let server: Server;
+  let options: LiFiClientOptions;
+  // Replies for the next requests in order, then `ok`
+  let replies: Reply[];
+  // When each request reached the stub
+  let arrivals: number[];
+
+  before(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      arrivals.push(performance.now());
+      (replies.shift() ?? ok)(res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    options = {
+      baseUrl: `http://127.0.0.1:${port}/v1/`,
+      timeoutMs: 200,
+      maxRetries: 2,
+      retryBaseMs: 100,
+      quoteCacheSeconds: 0,
+    };
+  });
+
+  beforeEach(() => {
+    replies = [];
+    arrivals = [];
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const gaps = () => arrivals.slice(1).map((at, i) => at - arrivals[i]);
+
+  it('waits for Retry-After on a 429 before retrying', async () => {
+    replies = [status(429, { 'Retry-After': '1' })];
+    const quote = await getEvacuationRoute(quoteRequest(), options);
+
+    assert.match(quote.id, /^quote-/);
+    assert.equal(arrivals.length, 2);
+    assert.ok(gaps()[0] >= 990, `retried after ${gaps()[0]}ms`);
+    assert.ok(gaps()[0] < 1500, `retried after ${gaps()[0]}ms`);
+  });
+
+  it('gives up on a Retry-After longer than 30 seconds without retrying', async () => {
+    replies = [status(429, { 'Retry-After': '120' })];
+    await assert.rejects(getEvacuationRoute(quoteRequest(), options), /LI.FI API error: 429, retry after 120s/);
+    assert.equal(arrivals.length, 1);
+  });
+
+  it('backs off exponentially on 5xx and stops after maxRetries', async () => {
+    replies = [status(502), status(503), status(500)];
+    await assert.rejects(getEvacuationRoute(quoteRequest(), options), /LI.FI API error: 500 - stub 500/);
+
+    // One request plus two retries, half to all of 100ms then of 200ms apart
+    assert.equal(arrivals.length, 3);
+    const [first, second] = gaps();
+    assert.ok(first >= 50 && first < 400, `first retry after ${first}ms`);
+    assert.ok(second >= 100 && second < 500, `second retry after ${second}ms`);
+  });
+
+  it('retries a request that times out', async () => {
+    replies = [slow(1000)];
+    const quote = await getEvacuationRoute(quoteRequest(), options);
+
+    assert.match(quote.id, /^quote-/);
+    assert.equal(arrivals.length, 2);
+    // The 200ms timeout, then half to all of the 100ms backoff
+    assert.ok(gaps()[0] >= 240 && gaps()[0] < 700, `retried after ${gaps()[0]}ms`);
+  });
+
+  it('does not retry other client errors', async () => {
+    replies = [status(400)];
+    await assert.rejects(getEvacuationRoute(quoteRequest(), options), /LI.FI API error: 400 - stub 400/);
+    assert.equal(arrivals.length, 1);
+  });
+
+  it('answers the same quote from the cache, and refetches for another amount in the bucket', async () => {
+    const cached = { ...options, quoteCacheSeconds: 60 };
+    const request = quoteRequest({ toAddress: '0x00000000000000000000000000000000000000cc' });
+
+    const first = await getEvacuationRoute(request, cached);
+    const second = await getEvacuationRoute({ ...request, toAddress: request.toAddress.toUpperCase().replace('0X', '0x') as Address }, cached);
+    assert.equal(second, first);
+    assert.equal(arrivals.length, 1);
+
+    // Same bucket, but the calldata would carry the wrong amount
+    const other = await getEvacuationRoute({ ...request, fromAmount: '1000000000000000001' }, cached);
+    assert.notEqual(other, first);
+    assert.equal(arrivals.length, 2);
+
+    // And a fresh quote replaced the cached one
+    assert.equal(await getEvacuationRoute({ ...request, fromAmount: '1000000000000000001' }, cached), other);
+    assert.notEqual(await getEvacuationRoute(request, cached), first);
+    assert.equal(arrivals.length, 3);
+  });
+});
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeFunctionData, erc20Abi, isAddressEqual, parseAbi, type Address, type Hex } from 'viem';
+import { checkLiFiCalldata, decodeLiFiCalldata, type LiquidationIntent } from '../src/lifiCalldata.js';
+
+const BRIDGE_DATA = 'BridgeData';
+const SWAP_DATA = 'SwapData';
+
+// The facet functions as LI.FI's diamond declares them
+const FACETS = parseAbi([
+  'struct BridgeData { bytes32 transactionId; string bridge; string integrator; address referrer; address sendingAssetId; address receiver; uint256 minAmount; uint256 destinationChainId; bool hasSourceSwaps; bool hasDestinationCall; }',
+  'struct SwapData { address callTo; address approveTo; address sendingAssetId; address receivingAssetId; uint256 fromAmount; bytes callData; bool requiresDeposit; }',
+  'struct CBridgeData { uint32 maxSlippage; uint64 nonce; }',
+  'struct AcrossV3Data { address receiverAddress; address refundAddress; address receivingAssetId; uint256 outputAmount; address exclusiveRelayer; uint32 quoteTimestamp; uint32 fillDeadline; uint32 exclusivityDeadline; bytes message; }',
+  'struct SendParam { uint32 dstEid; bytes32 to; uint256 amountLD; uint256 minAmountLD; bytes extraOptions; bytes composeMsg; bytes oftCmd; }',
+  'struct MessagingFee { uint256 nativeFee; uint256 lzTokenFee; }',
+  'struct StargateData { uint16 assetId; SendParam sendParams; MessagingFee fee; address refundAddress; }',
+  `function startBridgeTokensViaCBridge(${BRIDGE_DATA} _bridgeData, CBridgeData _cBridgeData)`,
+  `function swapAndStartBridgeTokensViaAcrossV3(${BRIDGE_DATA} _bridgeData, ${SWAP_DATA}[] _swapData, AcrossV3Data _acrossData)`,
+  `function startBridgeTokensViaStargate(${BRIDGE_DATA} _bridgeData, StargateData _stargateData)`,
+  `function startBridgeTokensViaUnknownBridge(${BRIDGE_DATA} _bridgeData, CBridgeData _data)`,
+  `function swapTokensGeneric(bytes32 _transactionId, string _integrator, string _referrer, address _receiver, uint256 _minAmountOut, ${SWAP_DATA}[] _swapData)`,
+]);
+
+const DIAMOND = '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE' as Address;
+const VAULT = '0x00000000000000000000000000000000000000aa' as Address;
+const ATTACKER = '0x00000000000000000000000000000000000000bb' as Address;
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const DEX = '0x00000000000000000000000000000000000000dd' as Address;
+const ZERO = '0x0000000000000000000000000000000000000000' as Address;
+const DESTINATION_CHAIN = 421614;
+const AMOUNT = 990_000_000_000_000_000n;
+
+const intent: LiquidationIntent = {
+  diamondAddress: DIAMOND,
+  destinationChainId: DESTINATION_CHAIN,
+  fromToken: WETH,
+  amount: AMOUNT,
+  receivers: [VAULT],
+};
+
+function bridgeData(overrides: Partial<{ receiver: Address; destinationChainId: bigint; sendingAssetId: Address; minAmount: bigint; hasSourceSwaps: boolean }> = {}) {
+  return {
+    transactionId: `0x${'11'.repeat(32)}` as Hex,
+    bridge: 'cbridge',
+    integrator: 'lazarus',
+    referrer: ZERO,
+    sendingAssetId: WETH,
+    receiver: VAULT,
+    minAmount: AMOUNT,
+    destinationChainId: BigInt(DESTINATION_CHAIN),
+    hasSourceSwaps: false,
+    hasDestinationCall: false,
+    ...overrides,
+  };
+}
+
+function swap(sendingAssetId: Address, receivingAssetId: Address, fromAmount: bigint) {
+  return { callTo: DEX, approveTo: DEX, sendingAssetId, receivingAssetId, fromAmount, callData: '0x12345678' as Hex, requiresDeposit: true };
+}
+
+function cBridge(data = bridgeData()): Hex {
+  return encodeFunctionData({
+    abi: FACETS,
+    functionName: 'startBridgeTokensViaCBridge',
+    args: [data, { maxSlippage: 5000, nonce: 1n }],
+  });
+}
+
+function acrossWithSwap(swaps = [swap(WETH, USDC, AMOUNT)], data = bridgeData({ sendingAssetId: USDC, minAmount: 2_900_000_000n, hasSourceSwaps: true })): Hex {
+  return encodeFunctionData({
+    abi: FACETS,
+    functionName: 'swapAndStartBridgeTokensViaAcrossV3',
+    args: [data, swaps, {
+      receiverAddress: VAULT,
+      refundAddress: VAULT,
+      receivingAssetId: USDC,
+      outputAmount: 2_890_000_000n,
+      exclusiveRelayer: ZERO,
+      quoteTimestamp: 1_700_000_000,
+      fillDeadline: 1_700_003_600,
+      exclusivityDeadline: 0,
+      message: '0x',
+    }],
+  });
+}
+
+describe('LI.FI calldata checks', () => {
+  it('accepts a bridge that sends the liquidated amount to the vault on the destination chain', () => {
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, cBridge(), intent), []);
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, acrossWithSwap(), intent), []);
+
+    const stargate = encodeFunctionData({
+      abi: FACETS,
+      functionName: 'startBridgeTokensViaStargate',
+      args: [bridgeData(), {
+        assetId: 13,
+        sendParams: { dstEid: 40231, to: `0x${'00'.repeat(12)}${VAULT.slice(2)}`, amountLD: AMOUNT, minAmountLD: AMOUNT - 1n, extraOptions: '0x', composeMsg: '0x', oftCmd: '0x' },
+        fee: { nativeFee: 1n, lzTokenFee: 0n },
+        refundAddress: VAULT,
+      }],
+    });
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, stargate, intent), []);
+  });
+
+  it('decodes the function, bridge and swaps', () => {
+    const decoded = decodeLiFiCalldata(acrossWithSwap());
+    assert.equal(decoded.functionName, 'swapAndStartBridgeTokensViaAcrossV3');
+    assert.ok(isAddressEqual(decoded.receiver, VAULT));
+    assert.equal(decoded.destinationChainId, BigInt(DESTINATION_CHAIN));
+    assert.equal(decoded.swapData.length, 1);
+    assert.equal(decoded.swapData[0].fromAmount, AMOUNT);
+  });
+
+  it('rejects a wrong receiver', () => {
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, cBridge(bridgeData({ receiver: ATTACKER })), intent), [
+      `receiver ${ATTACKER} is not ${VAULT}`,
+    ]);
+  });
+
+  it('rejects a wrong destination chain', () => {
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, cBridge(bridgeData({ destinationChainId: 1n })), intent), [
+      `destination chain 1 is not ${DESTINATION_CHAIN}`,
+    ]);
+  });
+
+  it('rejects a wrong token or amount', () => {
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, cBridge(bridgeData({ sendingAssetId: USDC })), intent), [
+      `sends token ${USDC} instead of ${WETH}`,
+    ]);
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, cBridge(bridgeData({ minAmount: AMOUNT + 1n })), intent), [
+      `spends ${AMOUNT + 1n} instead of the approved ${AMOUNT}`,
+    ]);
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, acrossWithSwap([swap(WETH, USDC, AMOUNT - 1n)]), intent), [
+      `spends ${AMOUNT - 1n} instead of the approved ${AMOUNT}`,
+    ]);
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, acrossWithSwap([swap(WETH, DEX, AMOUNT)]), intent), [
+      `swaps into ${DEX} but bridges ${USDC}`,
+    ]);
+  });
+
+  it('rejects the wrong target and same-chain swaps', () => {
+    assert.deepEqual(checkLiFiCalldata(ATTACKER, cBridge(), intent), [`target ${ATTACKER} is not the LI.FI diamond ${DIAMOND}`]);
+
+    const sameChain = encodeFunctionData({
+      abi: FACETS,
+      functionName: 'swapTokensGeneric',
+      args: [`0x${'11'.repeat(32)}`, 'lazarus', '', VAULT, 1n, [swap(WETH, USDC, AMOUNT)]],
+    });
+    assert.deepEqual(checkLiFiCalldata(DIAMOND, sameChain, intent), ['route swaps on the source chain without bridging']);
+  });
+
+  it('rejects functions outside the allowed facets, even with matching bridge data', () => {
+    const unknown = encodeFunctionData({
+      abi: FACETS,
+      functionName: 'startBridgeTokensViaUnknownBridge',
+      args: [bridgeData(), { maxSlippage: 0, nonce: 0n }],
+    });
+    const [problem, ...rest] = checkLiFiCalldata(DIAMOND, unknown, intent);
+    assert.match(problem, /^calldata could not be decoded \(Function 0x[0-9a-f]{8} is not an allowed LI.FI bridge function\)$/);
+    assert.deepEqual(rest, []);
+
+    // A plain token transfer to the receiver is not a bridge either
+    const transfer = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [VAULT, AMOUNT] });
+    assert.throws(() => decodeLiFiCalldata(transfer), /Function 0xa9059cbb is not an allowed LI.FI bridge function/);
+  });
+
+  it('rejects source swaps that the function does not declare', () => {
+    assert.throws(() => decodeLiFiCalldata(cBridge(bridgeData({ hasSourceSwaps: true }))), /startBridgeTokensViaCBridge with hasSourceSwaps true/);
+  });
+});
@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import Database from 'better-sqlite3';
+import { SqliteHeartbeatStore } from '../src/database.js';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, migrate, rollback } from '../src/migrations.js';
+
+const SOURCE_CHAIN = 84532;
+const USER = '0xabcdef0000000000000000000000000000000001';
+const USER_2 = '0xabcdef0000000000000000000000000000000002';
+
+/**
+ * A database as the single-chain release left it, before migrations were versioned
+ */
+function writeLegacyDatabase(dbPath: string): void {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS heartbeats (
+      user_address TEXT PRIMARY KEY,
+      last_seen INTEGER NOT NULL,
+      signature TEXT NOT NULL,
+      inactivity_period INTEGER NOT NULL DEFAULT 604800,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_heartbeats_last_seen
+    ON heartbeats(last_seen);
+  `);
+  const insert = db.prepare(`
+    INSERT INTO heartbeats (user_address, last_seen, signature, inactivity_period, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  insert.run(USER, 2000, '0xsig1', 3600, 1000, 2000);
+  insert.run(USER_2, 4000, '0xsig2', 7200, 3000, 4000);
+  db.close();
+}
+
+function tableNames(db: Database.Database): string[] {
+  const rows = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all() as Array<{ name: string }>;
+  return rows.map(row => row.name);
+}
+
+function indexNames(db: Database.Database): string[] {
+  const rows = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'index'`).all() as Array<{ name: string }>;
+  return rows.map(row => row.name);
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return rows.map(row => row.name);
+}
+
+describe('migrations from the pre-versioning schema', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'watchtower-migrations-'));
+    dbPath = path.join(dir, 'heartbeats.db');
+    writeLegacyDatabase(dbPath);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('moves the rows to the configured source chain and reaches the latest version', async () => {
+    const store = new SqliteHeartbeatStore(dbPath, { legacyChainId: SOURCE_CHAIN });
+    try {
+      const heartbeat = await store.getHeartbeat(SOURCE_CHAIN, USER);
+      assert.equal(heartbeat?.signature, '0xsig1');
+      assert.equal(heartbeat?.lastSeen, 2000);
+      assert.equal(heartbeat?.inactivityPeriod, 3600);
+      assert.equal(heartbeat?.createdAt, 1000);
+      assert.deepEqual((await store.getAllUsers(SOURCE_CHAIN)).map(u => u.userAddress).sort(), [USER, USER_2]);
+      assert.deepEqual(await store.getAllUsers(11155111), []);
+    } finally {
+      await store.close();
+    }
+
+    const db = new Database(dbPath, { readonly: true });
+    try {
+      assert.equal(getSchemaVersion(db), 4);
+      assert.equal(LATEST_SCHEMA_VERSION, 4);
+      const columns = (db.prepare(`PRAGMA table_info(heartbeats)`).all() as Array<{ name: string; pk: number }>)
+        .filter(column => column.pk > 0)
+        .map(column => column.name);
+      assert.deepEqual(columns, ['chain_id', 'user_address']);
+      assert.ok(!tableNames(db).includes('heartbeats_legacy'));
+    } finally {
+      db.close();
+    }
+  });
+
+  it('refuses to upgrade without knowing the source chain', () => {
+    assert.throws(() => new SqliteHeartbeatStore(dbPath), /predate multi-chain support/);
+
+    const db = new Database(dbPath, { readonly: true });
+    try {
+      assert.equal(getSchemaVersion(db), 0);
+      assert.deepEqual(db.prepare(`SELECT COUNT(*) AS count FROM heartbeats`).get(), { count: 2 });
+    } finally {
+      db.close();
+    }
+  });
+
+  it('rolls back to the baseline and migrates forward again without losing rows', () => {
+    const db = new Database(dbPath);
+    try {
+      assert.deepEqual(migrate(db, LATEST_SCHEMA_VERSION, { legacyChainId: SOURCE_CHAIN }), [1, 2, 3, 4]);
+      assert.ok(columnNames(db, 'settlements').includes('tx_details'));
+
+      assert.deepEqual(rollback(db, 3), [4]);
+      assert.ok(!columnNames(db, 'settlements').includes('tx_details'));
+
+      assert.deepEqual(rollback(db, 2), [3]);
+      assert.equal(getSchemaVersion(db), 2);
+      assert.ok(!tableNames(db).includes('leases'));
+      assert.ok(indexNames(db).includes('idx_settlements_status'));
+
+      assert.deepEqual(rollback(db, 1), [2]);
+      assert.equal(getSchemaVersion(db), 1);
+      assert.ok(!indexNames(db).includes('idx_settlements_status'));
+
+      assert.deepEqual(migrate(db, 2), [2]);
+      assert.equal(getSchemaVersion(db), 2);
+      assert.deepEqual(migrate(db), [3, 4]);
+      assert.equal(getSchemaVersion(db), 4);
+      assert.ok(tableNames(db).includes('leases'));
+      assert.ok(columnNames(db, 'settlements').includes('tx_details'));
+      assert.deepEqual(migrate(db), []);
+
+      assert.throws(() => rollback(db, 0), /can't be rolled back/);
+      assert.equal(getSchemaVersion(db), 4);
+
+      const rows = db.prepare(`SELECT chain_id, user_address FROM heartbeats ORDER BY user_address`).all();
+      assert.deepEqual(rows, [
+        { chain_id: SOURCE_CHAIN, user_address: USER },
+        { chain_id: SOURCE_CHAIN, user_address: USER_2 },
+      ]);
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import type { Request, Response } from 'express';
+import { loadConfig, type Config } from '../src/config.js';
+import { getHeartbeatStore, openHeartbeatStore } from '../src/database.js';
+import {
+  applyRateLimit,
+  DatabaseRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimiter,
+  rateLimitByIp,
+  type RateLimitStore,
+} from '../src/rateLimit.js';
+
+process.env.WATCHTOWER_PRIVATE_KEY = '0x0000000000000000000000000000000000000000000000000000000000000001';
+process.env.HEARTBEAT_IP_LIMIT = '5';
+process.env.HEARTBEAT_ADDRESS_LIMIT = '2';
+process.env.RATE_LIMIT_WINDOW_SECONDS = '60';
+
+const config: Config = loadConfig();
+const windowMs = config.rateLimitWindowSeconds * 1000;
+// 15 seconds into a window, so 45 are left
+const START = Math.floor(1_700_000_000_000 / windowMs) * windowMs + 15_000;
+
+const ADDRESS = '0xAbCdEf0000000000000000000000000000000001';
+const OTHER_ADDRESS = '0xabcdef0000000000000000000000000000000002';
+
+interface MockResponse {
+  statusCode: number;
+  headers: Record<string, unknown>;
+  body: unknown;
+}
+
+function mockResponse(): { res: Response; sent: MockResponse } {
+  const sent: MockResponse = { statusCode: 200, headers: {}, body: undefined };
+  const res = {
+    setHeader(name: string, value: unknown) {
+      sent.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      sent.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+/**
+ * The heartbeat limits wired as in server.ts: a middleware per IP, then a check per address
+ */
+function heartbeatLimits(store: RateLimitStore) {
+  const ipLimiter = new RateLimiter(store, 'heartbeat-ip', config.heartbeatIpLimit, windowMs);
+  const addressLimiter = new RateLimiter(store, 'heartbeat-address', config.heartbeatAddressLimit, windowMs);
+  let ipLimited = 0;
+  const byIp = rateLimitByIp(ipLimiter, config.heartbeatIpLimit, () => ipLimited++);
+
+  return {
+    get ipLimited() {
+      return ipLimited;
+    },
+    async fromIp(ip: string): Promise<{ passed: boolean } & MockResponse> {
+      const { res, sent } = mockResponse();
+      let passed = false;
+      await byIp({ ip } as Request, res, () => {
+        passed = true;
+      });
+      return { passed, ...sent };
+    },
+    async forAddress(address: string): Promise<{ passed: boolean } & MockResponse> {
+      const { res, sent } = mockResponse();
+      const passed = applyRateLimit(
+        res,
+        await addressLimiter.consume(address.toLowerCase()),
+        config.heartbeatAddressLimit,
+        'Too many heartbeats for this address'
+      );
+      return { passed, ...sent };
+    },
+  };
+}
+
+function burstSuite(name: string, createStore: () => RateLimitStore): void {
+  describe(`heartbeat rate limits on the ${name} store`, () => {
+    let limits: ReturnType<typeof heartbeatLimits>;
+
+    beforeEach(() => {
+      mock.timers.enable({ apis: ['Date'], now: START });
+      limits = heartbeatLimits(createStore());
+    });
+
+    afterEach(() => {
+      mock.timers.reset();
+    });
+
+    it('answers 429 with Retry-After once an IP goes over HEARTBEAT_IP_LIMIT, until the window resets', async () => {
+      for (let i = 0; i < config.heartbeatIpLimit; i++) {
+        const response = await limits.fromIp('10.0.0.1');
+        assert.equal(response.passed, true);
+        assert.equal(response.headers['RateLimit-Limit'], config.heartbeatIpLimit);
+        assert.equal(response.headers['RateLimit-Remaining'], config.heartbeatIpLimit - i - 1);
+      }
+
+      const limited = await limits.fromIp('10.0.0.1');
+      assert.equal(limited.passed, false);
+      assert.equal(limited.statusCode, 429);
+      assert.equal(limited.headers['Retry-After'], 45);
+      assert.deepEqual(limited.body, { error: 'Too many requests', code: 'RATE_LIMITED', details: 'Too many requests from this IP' });
+      assert.equal(limits.ipLimited, 1);
+
+      // Other clients keep their own budget
+      assert.equal((await limits.fromIp('10.0.0.2')).passed, true);
+
+      mock.timers.tick(44_000);
+      assert.equal((await limits.fromIp('10.0.0.1')).headers['Retry-After'], 1);
+
+      mock.timers.tick(1_000);
+      const reset = await limits.fromIp('10.0.0.1');
+      assert.equal(reset.passed, true);
+      assert.equal(reset.headers['RateLimit-Remaining'], config.heartbeatIpLimit - 1);
+    });
+
+    it('answers 429 with Retry-After once an address goes over HEARTBEAT_ADDRESS_LIMIT, until the window resets', async () => {
+      for (let i = 0; i < config.heartbeatAddressLimit; i++) {
+        // Checksummed and lowercased spellings count against the same address
+        const response = await limits.forAddress(i % 2 === 0 ? ADDRESS : ADDRESS.toLowerCase());
+        assert.equal(response.passed, true);
+        assert.equal(response.headers['RateLimit-Remaining'], config.heartbeatAddressLimit - i - 1);
+      }
+
+      const limited = await limits.forAddress(ADDRESS);
+      assert.equal(limited.passed, false);
+      assert.equal(limited.statusCode, 429);
+      assert.equal(limited.headers['Retry-After'], 45);
+      assert.equal((limited.body as { details: string }).details, 'Too many heartbeats for this address');
+
+      assert.equal((await limits.forAddress(OTHER_ADDRESS)).passed, true);
+
+      mock.timers.tick(45_000);
+      const reset = await limits.forAddress(ADDRESS);
+      assert.equal(reset.passed, true);
+      assert.equal(reset.headers['RateLimit-Remaining'], config.heartbeatAddressLimit - 1);
+    });
+  });
+}
+
+burstSuite('memory', () => new MemoryRateLimitStore());
+
+describe('database rate limit store', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'watchtower-rate-limit-'));
+    await openHeartbeatStore({ dbPath: path.join(dir, 'heartbeats.db') });
+  });
+
+  after(async () => {
+    await getHeartbeatStore().close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  burstSuite('database', () => new DatabaseRateLimitStore());
+
+  it('shares counters between limiters on the same store, as replicas do', async () => {
+    const first = new RateLimiter(new DatabaseRateLimitStore(), 'shared', 2, windowMs);
+    const second = new RateLimiter(new DatabaseRateLimitStore(), 'shared', 2, windowMs);
+
+    assert.equal((await first.consume('10.0.0.9', START)).allowed, true);
+    assert.equal((await second.consume('10.0.0.9', START)).allowed, true);
+    assert.equal((await first.consume('10.0.0.9', START)).allowed, false);
+    assert.equal((await second.consume('10.0.0.9', START + windowMs)).allowed, true);
+  });
+});
@@ -0,0 +1,192 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { keccak256, TransactionNotFoundError, type Address, type Hex } from 'viem';
+import type { Config, SourceClients } from '../src/config.js';
+import { getHeartbeatStore, openHeartbeatStore, PENDING_HEARTBEAT_SIGNATURE, type HeartbeatStore, type SubmittedTransaction } from '../src/database.js';
+import { startLeaderElection, stopLeaderElection } from '../src/leader.js';
+import { forcePingFor, resumeSettlements, runSettlementCheck } from '../src/settlement.js';
+
+const CHAIN = 11155111;
+const USER = '0xabcdef0000000000000000000000000000000001' as Address;
+const MINED_USER = '0xabcdef0000000000000000000000000000000002' as Address;
+const PENDING_USER = '0xabcdef0000000000000000000000000000000003' as Address;
+
+const config = {
+  settlementMarginSeconds: 3600,
+  instanceId: 'settlement-test',
+  leaderLeaseSeconds: 30,
+  maxFeePerGas: 100_000_000_000n,
+  maxPriorityFeePerGas: 2_000_000_000n,
+} as Config;
+
+const SIGNED = '0x02f86b' as Hex;
+
+/**
+ * Clients whose getUserInfo answers with the given on-chain ping and period, and that fail on any send
+ */
+function clientsWith(lastPingMs: number, periodSeconds: number): SourceClients {
+  return {
+    source: { chainId: CHAIN, lazarusSourceAddress: '0x0000000000000000000000000000000000000001' },
+    publicClient: {
+      readContract: async () => [true, USER, BigInt(Math.floor(lastPingMs / 1000)), BigInt(periodSeconds), false],
+      estimateFeesPerGas: async () => {
+        throw new Error('Nothing should be sent');
+      },
+    },
+  } as unknown as SourceClients;
+}
+
+/**
+ * Clients that get as far as signing pingFor, and whose node then fails the broadcast
+ */
+function failingBroadcastClients(lastPingMs: number, periodSeconds: number): SourceClients {
+  const clients = clientsWith(lastPingMs, periodSeconds);
+  return {
+    ...clients,
+    publicClient: {
+      ...clients.publicClient,
+      estimateFeesPerGas: async () => ({ maxFeePerGas: 30_000_000_000n, maxPriorityFeePerGas: 1_000_000_000n }),
+      estimateContractGas: async () => 60_000n,
+      getTransactionCount: async () => 7,
+    },
+    walletClient: {
+      account: { address: '0x00000000000000000000000000000000000000ff' },
+      signTransaction: async () => SIGNED,
+      sendRawTransaction: async () => {
+        throw new Error('connection reset');
+      },
+    },
+  } as unknown as SourceClients;
+}
+
+/**
+ * A pingFor broadcast under each of the given hashes, as stored once it has been replaced
+ */
+function pingFor(...hashes: Hex[]): SubmittedTransaction {
+  return {
+    to: '0x0000000000000000000000000000000000000001',
+    data: '0x12345678',
+    gas: '60000',
+    nonce: 7,
+    maxFeePerGas: '30000000000',
+    maxPriorityFeePerGas: '1000000000',
+    hashes,
+  };
+}
+
+const hash = (n: number) => `0x${n.toString(16).padStart(64, '0')}` as Hex;
+
+describe('pingFor settlements', () => {
+  let dir: string;
+  let store: HeartbeatStore;
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'watchtower-settlement-'));
+    store = await openHeartbeatStore({ dbPath: path.join(dir, 'heartbeats.db') });
+    await startLeaderElection(config, () => undefined);
+  });
+
+  after(async () => {
+    await stopLeaderElection(config);
+    await getHeartbeatStore().close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses a user without a signed heartbeat', async () => {
+    await store.recordHeartbeat(CHAIN, USER, PENDING_HEARTBEAT_SIGNATURE, 3600, 0);
+    const result = await forcePingFor(clientsWith(Date.now() - 60_000, 3600), config, USER);
+    assert.deepEqual([result.success, result.error], [false, 'No signed heartbeat stored for this user']);
+  });
+
+  it('refuses a signed heartbeat that expired, however far off the on-chain deadline is', async () => {
+    await store.recordHeartbeat(CHAIN, USER, '0xsig', 60, Date.now() - 120_000);
+    const result = await forcePingFor(clientsWith(Date.now() - 180_000, 86_400), config, USER);
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /^The signed heartbeat expired at /);
+  });
+
+  it('refuses a signed heartbeat the chain has already seen', async () => {
+    await store.recordHeartbeat(CHAIN, USER, '0xsig', 3600, Date.now() - 120_000);
+    const result = await forcePingFor(clientsWith(Date.now() - 60_000, 3600), config, USER);
+    assert.deepEqual([result.success, result.error], [false, 'The signed heartbeat is not newer than the on-chain ping']);
+  });
+
+  it('only skips the settlement margin for a live heartbeat', async () => {
+    await store.recordHeartbeat(CHAIN, USER, '0xsig', 3600, Date.now() - 1_000);
+    // The on-chain deadline is a day away, far outside the margin, so this gets as far as estimating fees
+    const result = await forcePingFor(clientsWith(Date.now() - 60_000, 86_400), config, USER);
+    assert.deepEqual([result.success, result.error], [false, 'Nothing should be sent']);
+  });
+
+  it('records the settlement before the broadcast, so a failed one is checked on the next run', async () => {
+    await store.recordHeartbeat(CHAIN, USER, '0xsig', 3600, Date.now() - 1_000);
+    const result = await forcePingFor(failingBroadcastClients(Date.now() - 60_000, 86_400), config, USER);
+    assert.deepEqual([result.success, result.error], [false, 'connection reset']);
+
+    const [settlement] = await store.getPendingSettlements(CHAIN);
+    assert.equal(settlement.userAddress, USER);
+    assert.equal(settlement.txHash, keccak256(SIGNED));
+    assert.equal(settlement.status, 'submitted');
+    assert.equal(settlement.error, 'connection reset');
+  });
+
+  it('checks a pending settlement against every hash it was broadcast under', async () => {
+    const mined = await store.recordSettlement(CHAIN, MINED_USER, pingFor(hash(1)), 1000);
+    await store.updateSettlementTxHash(mined.id, hash(2), pingFor(hash(1), hash(2)));
+    const pending = await store.recordSettlement(CHAIN, PENDING_USER, pingFor(hash(3), hash(4)), 1000);
+
+    const clients = clientsWith(Date.now() - 60_000, 86_400);
+    const publicClient = {
+      ...clients.publicClient,
+      // Only the replacement of the first settlement was mined, the node still has the first broadcast of the second
+      getTransactionReceipt: async ({ hash: requested }: { hash: Hex }) => {
+        if (requested === hash(2)) return { transactionHash: hash(2), status: 'success', logs: [] };
+        throw new Error('not mined');
+      },
+      getTransaction: async ({ hash: requested }: { hash: Hex }) => {
+        if (requested === hash(3)) return { hash: requested };
+        throw new TransactionNotFoundError({ hash: requested });
+      },
+    };
+    const results = await runSettlementCheck({ ...clients, publicClient } as unknown as SourceClients, config);
+
+    assert.deepEqual(results.map(result => [result.userAddress, result.success, result.txHash]), [
+      [USER, false, keccak256(SIGNED)],
+      [MINED_USER, true, hash(2)],
+    ]);
+    const [confirmed] = await store.getUserSettlements(CHAIN, MINED_USER);
+    assert.deepEqual([confirmed.status, confirmed.txHash], ['confirmed', hash(2)]);
+    const [stillPending] = await store.getUserSettlements(CHAIN, PENDING_USER);
+    assert.deepEqual([stillPending.id, stillPending.status], [pending.id, 'submitted']);
+
+    // The pingFor whose broadcast failed earlier never reached the node
+    const [dropped] = await store.getUserSettlements(CHAIN, USER);
+    assert.deepEqual([dropped.status, dropped.error], ['failed', 'Dropped before it was mined']);
+  });
+
+  it('does not resume settlements while a settlement run is checking them', async () => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const clients = clientsWith(Date.now() - 60_000, 86_400);
+    const publicClient = {
+      ...clients.publicClient,
+      // Hold the run on the receipt of the settlement that is still pending
+      getTransactionReceipt: async () => {
+        await released;
+        throw new Error('not mined');
+      },
+      getTransaction: async ({ hash: requested }: { hash: Hex }) => ({ hash: requested }),
+    };
+    const busy = { ...clients, publicClient } as unknown as SourceClients;
+
+    const run = runSettlementCheck(busy, config);
+    assert.deepEqual(await resumeSettlements(busy, config), []);
+    release();
+    assert.deepEqual(await run, []);
+  });
+});
@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DataType, newDb } from 'pg-mem';
+import type pg from 'pg';
+import { SqliteHeartbeatStore, type HeartbeatStore } from '../src/database.js';
+import { getSchemaVersion } from '../src/migrations.js';
+import { PostgresHeartbeatStore } from '../src/postgresStore.js';
+
+/**
+ * Schema version and the columns of every table, as the backend reports them
+ */
+export interface SchemaSnapshot {
+  version: number;
+  tables: Record<string, string[]>;
+}
+
+export interface TestBackend {
+  name: string;
+  open(): Promise<{ store: HeartbeatStore; schema(): Promise<SchemaSnapshot>; cleanup(): Promise<void> }>;
+}
+
+/**
+ * A fresh SQLite store in a temporary directory
+ */
+export const sqliteBackend: TestBackend = {
+  name: 'sqlite',
+  async open() {
+    const dir = mkdtempSync(path.join(tmpdir(), 'watchtower-test-'));
+    const dbPath = path.join(dir, 'heartbeats.db');
+    const store = new SqliteHeartbeatStore(dbPath);
+
+    return {
+      store,
+      async schema() {
+        const db = new Database(dbPath, { readonly: true });
+        try {
+          const names = db.prepare(`
+            SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+          `).all() as Array<{ name: string }>;
+          const tables: Record<string, string[]> = {};
+          for (const { name } of names) {
+            tables[name] = (db.prepare(`PRAGMA table_info(${name})`).all() as Array<{ name: string }>).map(c => c.name).sort();
+          }
+          return { version: getSchemaVersion(db), tables };
+        } finally {
+          db.close();
+        }
+      },
+      async cleanup() {
+        await store.close();
+        rmSync(dir, { recursive: true, force: true });
+      },
+    };
+  },
+};
+
+/**
+ * An in-memory Postgres from pg-mem, with stand-ins for the functions it doesn't implement
+ */
+export function createPgMemPool(): pg.Pool {
+  const db = newDb();
+
+  // Locks are no-ops, pg-mem runs one query at a time anyway
+  for (const type of [DataType.integer, DataType.bigint]) {
+    db.public.registerFunction({ name: 'pg_advisory_lock', args: [type], returns: DataType.text, implementation: () => '', impure: true });
+    db.public.registerFunction({ name: 'pg_advisory_unlock', args: [type], returns: DataType.bool, implementation: () => true, impure: true });
+    db.public.registerFunction({ name: 'pg_advisory_xact_lock', args: [type], returns: DataType.text, implementation: () => '', impure: true });
+  }
+  db.public.registerFunction({ name: 'hashtext', args: [DataType.text], returns: DataType.integer, implementation: () => 0 });
+
+  const { Pool } = db.adapters.createPg();
+  const pool = new Pool() as pg.Pool;
+
+  // pg-mem runs the store's SQL as sent, except for two statements it gets wrong rather than rejects:
+  // - it answers `column = ANY($1)` with no rows when a single-column index covers `column`, so the one
+  //   such index, on liquidation_jobs(state), is not created
+  // - `ON CONFLICT (columns) DO NOTHING` reports the skipped row as inserted, the untargeted form doesn't
+  const rewrite = (text: string): string =>
+    text
+      .replace(/^\s*CREATE INDEX idx_liquidation_jobs_state ON [^;]*;/m, '')
+      .replace(/ON CONFLICT \([^)]*\) DO NOTHING/g, 'ON CONFLICT DO NOTHING');
+
+  // Both the text and the QueryConfig forms of query() are rewritten, values and callbacks pass through
+  type Query = (query: string | pg.QueryConfig, ...rest: unknown[]) => unknown;
+  const patch = <T extends pg.Pool | pg.PoolClient>(target: T): T => {
+    const query = target.query.bind(target) as Query;
+    const rewritten: Query = (sql, ...rest) =>
+      query(typeof sql === 'string' ? rewrite(sql) : { ...sql, text: rewrite(sql.text) }, ...rest);
+    target.query = rewritten as T['query'];
+    return target;
+  };
+
+  patch(pool);
+  const connect = pool.connect.bind(pool) as () => Promise<pg.PoolClient>;
+  pool.connect = (async () => patch(await connect())) as typeof pool.connect;
+
+  return pool;
+}
+
+/**
+ * A fresh Postgres store on pg-mem
+ */
+export const postgresBackend: TestBackend = {
+  name: 'postgres',
+  async open() {
+    const pool = createPgMemPool();
+    const store = await PostgresHeartbeatStore.openPool(pool);
+
+    return {
+      store,
+      async schema() {
+        const { rows: versions } = await pool.query(`SELECT MAX(version) AS version FROM schema_version`);
+        const { rows } = await pool.query(`
+          SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = 'public'
+        `);
+        const tables: Record<string, string[]> = {};
+        for (const row of rows as Array<{ table_name: string; column_name: string }>) {
+          (tables[row.table_name] ??= []).push(row.column_name);
+        }
+        for (const columns of Object.values(tables)) columns.sort();
+        return { version: Number(versions[0].version), tables };
+      },
+      async cleanup() {
+        await store.close();
+      },
+    };
+  },
+};
+
+export const BACKENDS = [sqliteBackend, postgresBackend];